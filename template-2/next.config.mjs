@@ -1,5 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    // Loaded from node_modules at runtime, so its .wasm file is found next to it
+    serverComponentsExternalPackages: ["sql.js"],
+  },
   images: {
     remotePatterns: [
       {
@@ -1,95 +1,132 @@
 import { NextResponse } from 'next/server';
-
-const DEEPSEEK_API_KEY = process.env.DEEPSEEK_API_KEY;
-const DEEPSEEK_API_URL = 'https://api.deepseek.com/chat/completions';
-
-if (!DEEPSEEK_API_KEY) {
-  throw new Error('DEEPSEEK_API_KEY is not set in environment variables');
-}
+import { llmProviders, resolveModelOptions, streamChat } from '@/lib/llm';
+import { ModelPrice, getModelPrice, getTokenCost } from '@/lib/llm/pricing';
+import { ChatDelta, ChatMessage, LLMProviderId } from '@/lib/llm/types';
+import { recordTokens } from '@/lib/quota';
+import { authorizeRequest, quotaHeaders } from '@/lib/quota/guard';
+import { normalizeResearchImage } from '@/lib/research/image';
 
 // Set response timeout to 30 seconds
 export const maxDuration = 30;
 
-// Configure the runtime to use edge for better streaming support
-export const runtime = 'edge';
+// Node, like every other API route, so quota counts go to the same usage store
+// (the memory store is per process, and firebase-admin doesn't run on edge)
+export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
+// Re-shape normalized deltas into OpenAI-style chunks so existing readers of
+// choices[0].delta.reasoning_content / content keep working for every provider.
+// The usage chunk also carries the resolved model and its estimated cost in USD.
+const toCompletionChunk = (
+  delta: ChatDelta,
+  resolved: { provider: LLMProviderId; model: string },
+  price: ModelPrice
+) => ({
+  choices: [{
+    delta: {
+      ...(delta.reasoning ? { reasoning_content: delta.reasoning } : {}),
+      ...(delta.content ? { content: delta.content } : {}),
+    },
+  }],
+  ...(delta.usage
+    ? { usage: delta.usage, cost: getTokenCost(delta.usage, price), provider: resolved.provider, model: resolved.model }
+    : {}),
+});
+
+// Providers download image URLs themselves, so as with /api/research only images
+// in this app's storage bucket are passed on. Null when any image is refused.
+const normalizeMessageImages = (messages: ChatMessage[]): ChatMessage[] | null => {
+  const normalized: ChatMessage[] = [];
+  for (const { images, ...message } of messages) {
+    if (images === undefined) {
+      normalized.push(message);
+      continue;
+    }
+    if (!Array.isArray(images)) return null;
+    const urls: string[] = [];
+    for (const url of images) {
+      const image = normalizeResearchImage({ url });
+      if (!image) return null;
+      urls.push(image.url);
+    }
+    normalized.push(urls.length > 0 ? { ...message, images: urls } : message);
+  }
+  return normalized;
+};
+
+export async function GET() {
+  return NextResponse.json({
+    providers: Object.values(llmProviders).map(provider => ({
+      id: provider.id,
+      name: provider.name,
+      defaultModel: provider.defaultModel,
+      configured: provider.isConfigured(),
+    })),
+  });
+}
+
 export async function POST(req: Request) {
   try {
-    const { messages } = await req.json();
-
-    const response = await fetch(DEEPSEEK_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${DEEPSEEK_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'deepseek-reasoner',
-        messages,
-        stream: true,
-        max_tokens: 4000,
-        temperature: 0.7,
-      }),
-    });
+    const authorized = await authorizeRequest(req);
+    if (authorized instanceof Response) return authorized;
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || 'Failed to get response from DeepSeek');
+    const { messages: requestMessages, provider, model, temperature, maxTokens } = await req.json();
+    if (!Array.isArray(requestMessages)) {
+      return NextResponse.json({ error: 'messages must be an array' }, { status: 400 });
     }
-
-    if (!response.body) {
-      throw new Error('No response body available');
+    const messages = normalizeMessageImages(requestMessages);
+    if (!messages) {
+      return NextResponse.json({ error: 'images must be Firebase Storage URLs' }, { status: 400 });
     }
 
-    const reader = response.body.getReader();
+    const resolved = resolveModelOptions({ provider, model });
+    const price = getModelPrice(resolved.provider, resolved.model);
+
+    // Stop the upstream request as soon as the client goes away, so tokens nobody reads aren't paid for
+    const upstream = new AbortController();
+    req.signal?.addEventListener('abort', () => upstream.abort());
+    const deltas = streamChat(messages, { provider, model, temperature, maxTokens }, upstream.signal);
     const encoder = new TextEncoder();
-    const decoder = new TextDecoder();
+
+    // Wait for the first delta so upstream errors still surface as a JSON error response
+    let first: IteratorResult<ChatDelta>;
+    try {
+      first = await deltas.next();
+    } catch (error) {
+      if (upstream.signal.aborted) return new Response(null, { status: 499 });
+      throw error;
+    }
 
     const stream = new ReadableStream({
       async start(controller) {
+        let tokens = 0;
         try {
-          while (true) {
-            const { done, value } = await reader.read();
-            
-            if (done) {
-              controller.close();
-              break;
-            }
-
-            const text = decoder.decode(value);
-            const lines = text.split('\n');
-
-            for (const line of lines) {
-              if (line.trim() === '') continue;
-              if (line.trim() === 'data: [DONE]') continue;
-
-              let data = line;
-              if (line.startsWith('data: ')) {
-                data = line.slice(6);
-              }
-
-              try {
-                const parsed = JSON.parse(data);
-                controller.enqueue(encoder.encode(JSON.stringify(parsed) + '\n'));
-              } catch (e) {
-                console.error('Error parsing JSON:', e);
-              }
-            }
+          if (!first.done) {
+            tokens += first.value.usage?.totalTokens || 0;
+            controller.enqueue(encoder.encode(JSON.stringify(toCompletionChunk(first.value, resolved, price)) + '\n'));
           }
+          for await (const delta of deltas) {
+            tokens += delta.usage?.totalTokens || 0;
+            controller.enqueue(encoder.encode(JSON.stringify(toCompletionChunk(delta, resolved, price)) + '\n'));
+          }
+          controller.close();
         } catch (e) {
           controller.error(e);
+        } finally {
+          await recordTokens(authorized.userId, tokens)
+            .catch(error => console.error('Error recording token usage:', error));
         }
       },
 
       cancel() {
-        reader.cancel();
+        upstream.abort();
       },
     });
 
     return new Response(stream, {
       headers: {
-        'Content-Type': 'text/event-stream',
+        ...quotaHeaders(authorized.quota),
+        'Content-Type': 'application/x-ndjson',
         'Cache-Control': 'no-cache',
         'Connection': 'keep-alive',
       },
@@ -101,4 +138,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { MAX_DOCUMENT_BYTES, getDocumentFormat, truncateToBytes } from '@/lib/documents';
+import { DocumentParseError, parseDocument } from '@/lib/documents/parse';
+import { authorizeRequest, quotaHeaders } from '@/lib/quota/guard';
+
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Extracts the text of an uploaded document (multipart field "file"). The file
+// itself is stored by the client in Firebase Storage; nothing is kept here.
+export async function POST(req: Request) {
+  try {
+    const authorized = await authorizeRequest(req);
+    if (authorized instanceof Response) return authorized;
+
+    const form = await req.formData().catch(() => null);
+    const file = form?.get('file');
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: 'file is required' }, { status: 400 });
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json({ error: 'Files must be 10 MB or smaller' }, { status: 413 });
+    }
+    const format = getDocumentFormat(file.name, file.type);
+    if (!format) {
+      return NextResponse.json(
+        { error: 'Unsupported file type. Upload a PDF, Word (.docx) or text file.' },
+        { status: 415 }
+      );
+    }
+
+    const text = await parseDocument(new Uint8Array(await file.arrayBuffer()), file.name, file.type);
+    const stored = truncateToBytes(text, MAX_DOCUMENT_BYTES);
+
+    return NextResponse.json(
+      {
+        name: file.name,
+        format,
+        text: stored,
+        truncated: stored.length < text.length,
+      },
+      { headers: quotaHeaders(authorized.quota) }
+    );
+  } catch (error) {
+    if (error instanceof DocumentParseError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    console.error('Document API Error:', error);
+    return NextResponse.json({ error: 'Failed to process document' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { addToLibrary, getKnowledgeStore, normalizeLibraryInput } from '@/lib/knowledge';
+import { authorizeRequest, quotaHeaders } from '@/lib/quota/guard';
+
+export const dynamic = 'force-dynamic';
+
+const toErrorResponse = (error: unknown, action: string) => {
+  console.error(`Knowledge API Error (${action}):`, error);
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : `Failed to ${action}` },
+    { status: 500 }
+  );
+};
+
+// The caller's library items, newest first
+export async function GET(req: Request) {
+  try {
+    const authorized = await authorizeRequest(req);
+    if (authorized instanceof Response) return authorized;
+
+    const items = await (await getKnowledgeStore()).listItems(authorized.userId);
+    return NextResponse.json({ items }, { headers: quotaHeaders(authorized.quota) });
+  } catch (error) {
+    return toErrorResponse(error, 'load the library');
+  }
+}
+
+// Index a report, document or bookmarked source into the caller's library
+export async function POST(req: Request) {
+  try {
+    const authorized = await authorizeRequest(req);
+    if (authorized instanceof Response) return authorized;
+
+    const input = normalizeLibraryInput(await req.json().catch(() => null));
+    if (!input) {
+      return NextResponse.json(
+        { error: 'id, kind ("report", "document" or "source") and text are required' },
+        { status: 400 }
+      );
+    }
+
+    const item = await addToLibrary(authorized.userId, input, req.signal);
+    return NextResponse.json({ item }, { headers: quotaHeaders(authorized.quota) });
+  } catch (error) {
+    return toErrorResponse(error, 'add to the library');
+  }
+}
+
+// Remove an item: DELETE /api/knowledge?id=...
+export async function DELETE(req: Request) {
+  try {
+    const authorized = await authorizeRequest(req);
+    if (authorized instanceof Response) return authorized;
+
+    const id = new URL(req.url).searchParams.get('id');
+    if (!id) return NextResponse.json({ error: 'id is required' }, { status: 400 });
+
+    await (await getKnowledgeStore()).deleteItem(authorized.userId, id);
+    return NextResponse.json({ ok: true }, { headers: quotaHeaders(authorized.quota) });
+  } catch (error) {
+    return toErrorResponse(error, 'remove from the library');
+  }
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { getQuotaStatus, recordTokens } from '@/lib/quota';
+import { authorizeRequest, quotaHeaders } from '@/lib/quota/guard';
+import { resolveResearchOptions, runResearch } from '@/lib/research/pipeline';
+import { normalizePrivateDocuments } from '@/lib/documents';
+import { normalizeResearchImage } from '@/lib/research/image';
+import { resolveTemplate } from '@/lib/research/templates';
+import { normalizeThreadTurns } from '@/lib/research/thread';
+import { ResearchEvent, ResearchRequest } from '@/lib/research/types';
+
+// Research runs several searches before the report, so allow more time than /api/chat
+export const maxDuration = 120;
+export const dynamic = 'force-dynamic';
+
+// Runs the full search + reasoning pipeline and streams ResearchEvents as
+// newline-delimited JSON. Used by the research page and by external agents.
+export async function POST(req: Request) {
+  let authorized;
+  try {
+    authorized = await authorizeRequest(req);
+  } catch (error) {
+    console.error('Quota check failed:', error);
+    return NextResponse.json({ error: 'Could not check usage quota' }, { status: 503 });
+  }
+  if (authorized instanceof Response) return authorized;
+  const { userId, quota } = authorized;
+
+  let body: ResearchRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const query = typeof body.query === 'string' ? body.query.trim() : '';
+  const image = normalizeResearchImage(body.image);
+  if (body.image && !image) {
+    return NextResponse.json({ error: 'image must be a Firebase Storage URL' }, { status: 400 });
+  }
+  // A question isn't needed when an image is attached; the image is the question
+  if (!query && !image) {
+    return NextResponse.json({ error: 'query is required' }, { status: 400 });
+  }
+
+  const options = resolveResearchOptions(body.options);
+  const history = normalizeThreadTurns(body.history);
+  const template = resolveTemplate(body.template);
+  const documents = normalizePrivateDocuments(body.documents);
+  const abortController = new AbortController();
+  req.signal?.addEventListener('abort', () => abortController.abort());
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: ResearchEvent) => controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      let tokens = 0;
+      try {
+        send({ type: 'quota', quota });
+        for await (const event of runResearch({ query, options, history, template, documents, image, userId }, abortController.signal)) {
+          if (event.type === 'usage') tokens += event.usage.totalTokens;
+          send(event);
+        }
+        await recordTokens(userId, tokens);
+        tokens = 0;
+        send({ type: 'quota', quota: await getQuotaStatus(userId) });
+        controller.close();
+      } catch (e) {
+        controller.error(e);
+      } finally {
+        // Still count what was used if the run failed or the client went away
+        if (tokens > 0) {
+          await recordTokens(userId, tokens).catch(error => console.error('Error recording token usage:', error));
+        }
+      }
+    },
+
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...quotaHeaders(quota),
+      'Content-Type': 'application/x-ndjson',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { isSearchProviderId, searchProviders } from '@/lib/search';
+import { authorizeRequest, quotaHeaders } from '@/lib/quota/guard';
+import { cachedSearch } from '@/lib/search/cache';
+import { normalizeDateFilter } from '@/lib/search/dates';
+import { normalizeDomainList } from '@/lib/search/domains';
+
+// Providers cap how many results one request returns; Tavily and Brave stop at 20
+const MAX_RESULTS = 20;
+
+const clampMaxResults = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(Math.max(Math.round(value), 1), MAX_RESULTS)
+    : undefined;
+
+export async function GET() {
+  return NextResponse.json({
+    providers: Object.values(searchProviders).map(provider => ({
+      id: provider.id,
+      name: provider.name,
+      configured: provider.isConfigured(),
+    })),
+  });
+}
+
+export async function POST(req: Request) {
+  try {
+    const authorized = await authorizeRequest(req);
+    if (authorized instanceof Response) return authorized;
+
+    const {
+      query,
+      providers,
+      includeImages,
+      includeImageDescriptions,
+      maxResults,
+      includeDomains,
+      excludeDomains,
+      forceRefresh,
+      ...dateFilter
+    } = await req.json();
+
+    if (typeof query !== 'string' || !query.trim()) {
+      return NextResponse.json({ error: 'query is required' }, { status: 400 });
+    }
+
+    const providerIds = Array.isArray(providers) ? providers.filter(isSearchProviderId) : undefined;
+    const data = await cachedSearch(
+      {
+        query,
+        includeImages,
+        includeImageDescriptions,
+        maxResults: clampMaxResults(maxResults),
+        includeDomains: normalizeDomainList(includeDomains),
+        excludeDomains: normalizeDomainList(excludeDomains),
+        ...normalizeDateFilter(dateFilter),
+      },
+      providerIds?.length ? providerIds : undefined,
+      { forceRefresh: forceRefresh === true }
+    );
+
+    return NextResponse.json(data, { headers: quotaHeaders(authorized.quota) });
+  } catch (error) {
+    console.error('Search API Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to process request' },
+      { status: 500 }
+    );
+  }
+}
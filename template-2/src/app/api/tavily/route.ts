@@ -1,59 +1,53 @@
 import { NextResponse } from 'next/server';
+import { authorizeRequest, quotaHeaders } from '@/lib/quota/guard';
+import { cachedSearch } from '@/lib/search/cache';
+import { normalizeDateFilter } from '@/lib/search/dates';
+import { SearchResponse } from '@/lib/search/types';
 
-const TAVILY_API_KEY = process.env.TAVILY_API_KEY;
-const TAVILY_API_URL = 'https://api.tavily.com/search';
-
-if (!TAVILY_API_KEY) {
+if (!process.env.TAVILY_API_KEY) {
   throw new Error('TAVILY_API_KEY is not set in environment variables');
 }
 
+// This route keeps answering in Tavily's own response shape (snake_case fields,
+// images as bare URLs unless descriptions were asked for) so callers written
+// against it keep working. /api/search returns the normalized SearchResponse.
+const toTavilyResponse = (
+  { query, answer, images, results, cache }: SearchResponse,
+  includeImageDescriptions: boolean
+) => ({
+  query,
+  answer,
+  images: (images ?? []).map(image => includeImageDescriptions ? image : image.url),
+  results: results.map(({ title, url, content, score, publishedDate }) => ({
+    title,
+    url,
+    content,
+    score,
+    published_date: publishedDate,
+  })),
+  cache,
+});
+
 export async function POST(req: Request) {
   try {
-    const { query, includeImages, includeImageDescriptions } = await req.json();
-
-    const response = await fetch(TAVILY_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'api-key': TAVILY_API_KEY as string,
-      },
-      body: JSON.stringify({
-        query,
-        include_answer: true,
-        search_depth: "advanced",
-        api_key: TAVILY_API_KEY,
-        include_images: includeImages,
-        include_image_descriptions: includeImageDescriptions,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      console.error('Tavily API Error Response:', {
-        status: response.status,
-        statusText: response.statusText,
-        error,
-      });
-      throw new Error(error.message || 'Failed to get response from Tavily');
-    }
-
-    const data = await response.json();
+    const authorized = await authorizeRequest(req);
+    if (authorized instanceof Response) return authorized;
 
-    if (!data.results) {
-      console.error('Invalid Tavily API response:', data);
-      throw new Error('Invalid response format from Tavily API');
+    const { query, includeImages, includeImageDescriptions, forceRefresh, ...dateFilter } = await req.json();
+    if (typeof query !== 'string' || !query.trim()) {
+      return NextResponse.json({ error: 'query is required' }, { status: 400 });
     }
 
-    // Add a source URL for the answer if it exists
-    if (data.answer) {
-      data.results.unshift({
-        title: "AI Generated Answer",
-        content: data.answer,
-        url: "Generated from Tavily's answer",
-      });
-    }
+    const data = await cachedSearch(
+      { query, includeImages, includeImageDescriptions, ...normalizeDateFilter(dateFilter) },
+      ['tavily'],
+      { forceRefresh: forceRefresh === true }
+    );
 
-    return NextResponse.json(data);
+    return NextResponse.json(
+      toTavilyResponse(data, includeImageDescriptions === true),
+      { headers: quotaHeaders(authorized.quota) }
+    );
   } catch (error) {
     console.error('Tavily API Error:', error);
     return NextResponse.json(
@@ -61,4 +55,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
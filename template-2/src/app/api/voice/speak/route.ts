@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { recordTokens } from '@/lib/quota';
+import { authorizeRequest, quotaHeaders } from '@/lib/quota/guard';
+import { getSpeechService } from '@/lib/voice';
+import { MAX_SPEECH_CHARS, getSpeechTokens } from '@/lib/voice/speech';
+
+// Synthesizes one chunk of a report as audio; the client splits longer text with
+// splitSpeechChunks. Reading a report aloud counts as one request, made with its
+// first chunk (`part` 0); every chunk's text counts against the token quota, so
+// the later ones can't be used to synthesize for free.
+export async function POST(req: Request) {
+  try {
+    const { text, part } = await req.json().catch(() => ({}));
+    const authorized = await authorizeRequest(req, { countRequest: !(typeof part === 'number' && part > 0) });
+    if (authorized instanceof Response) return authorized;
+
+    const service = getSpeechService();
+    if (!service) {
+      return NextResponse.json({ error: 'Read-aloud is not configured' }, { status: 503 });
+    }
+
+    if (typeof text !== 'string' || !text.trim()) {
+      return NextResponse.json({ error: 'text is required' }, { status: 400 });
+    }
+    if (text.length > MAX_SPEECH_CHARS) {
+      return NextResponse.json(
+        { error: `text must be ${MAX_SPEECH_CHARS} characters or fewer` },
+        { status: 413 }
+      );
+    }
+
+    const { audio, contentType } = await service.synthesize(text.trim());
+    await recordTokens(authorized.userId, getSpeechTokens(text))
+      .catch(error => console.error('Error recording speech usage:', error));
+    return new Response(audio, {
+      headers: {
+        ...quotaHeaders(authorized.quota),
+        'Content-Type': contentType,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Speech API Error:', error);
+    return NextResponse.json({ error: 'Failed to synthesize speech' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { authorizeRequest, quotaHeaders } from '@/lib/quota/guard';
+import { getTranscriptionService } from '@/lib/voice';
+import { MAX_AUDIO_BYTES } from '@/lib/voice/speech';
+
+// Transcribes a dictated question (multipart field "audio"); the recording isn't kept
+export async function POST(req: Request) {
+  try {
+    const authorized = await authorizeRequest(req);
+    if (authorized instanceof Response) return authorized;
+
+    const service = getTranscriptionService();
+    if (!service) {
+      return NextResponse.json({ error: 'Voice input is not configured' }, { status: 503 });
+    }
+
+    const form = await req.formData().catch(() => null);
+    const audio = form?.get('audio');
+    if (!audio || typeof audio === 'string') {
+      return NextResponse.json({ error: 'audio is required' }, { status: 400 });
+    }
+    if (audio.size > MAX_AUDIO_BYTES) {
+      return NextResponse.json({ error: 'Recordings must be 10 MB or smaller' }, { status: 413 });
+    }
+    if (audio.type && !audio.type.startsWith('audio/')) {
+      return NextResponse.json({ error: 'Unsupported recording format' }, { status: 415 });
+    }
+
+    const text = await service.transcribe(new Uint8Array(await audio.arrayBuffer()), audio.type);
+    return NextResponse.json({ text }, { headers: quotaHeaders(authorized.quota) });
+  } catch (error) {
+    console.error('Transcription API Error:', error);
+    return NextResponse.json({ error: 'Failed to transcribe recording' }, { status: 500 });
+  }
+}
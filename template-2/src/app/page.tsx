@@ -1,104 +1,118 @@
 'use client';
 
-import { useState, useRef, useCallback } from 'react';
-import ReactMarkdown from 'react-markdown';
+import { useState, useRef, useCallback, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import remarkGfm from 'remark-gfm';
+import {
+  ChatSection,
+  ContextReport,
+  ResearchImage,
+  ResearchOptions,
+  ResearchStep,
+  ResearchTemplate,
+  ResearchUsage,
+  ThreadTurn
+} from '@/lib/research/types';
+import { formatResponse } from '@/lib/research/format';
+import { SearchResponse, SearchResult } from '@/lib/search/types';
+import { LLMProviderId, ModelOptions } from '@/lib/llm/types';
+import { DEFAULT_RESEARCH_OPTIONS, RESEARCH_DEPTH_PRESETS } from '@/lib/research/planner';
+import { DEFAULT_TEMPLATE, getTemplate } from '@/lib/research/templates';
+import { DEFAULT_IMAGE_QUERY } from '@/lib/research/image';
+import { ResearchRequestError, streamChatCompletion, streamResearch } from '@/lib/research/client';
+import { addUsage, buildReanalysisMessages, toCallUsage } from '@/lib/research/reanalyze';
+import { QuotaStatus } from '@/lib/quota';
+import { useAuth } from '@/lib/hooks/useAuth';
+import {
+  StoredResearch,
+  deleteResearch,
+  getResearchHistory,
+  saveResearch,
+  setResearchShareId,
+  updateResearch
+} from '@/lib/firebase/researchHistory';
+import { logResearchUsage } from '@/lib/firebase/usage';
+import { revokeSharedReport } from '@/lib/firebase/sharedReports';
+import { getSourcePreferences, saveSourcePreferences } from '@/lib/firebase/sourcePreferences';
+import { deleteCustomTemplate, getCustomTemplates, saveCustomTemplate } from '@/lib/firebase/researchTemplates';
+import { StoredDocument, deletePrivateDocument, getPrivateDocuments, savePrivateDocument } from '@/lib/firebase/documents';
+import { uploadResearchImage } from '@/lib/firebase/researchImages';
+import { extractDocumentText } from '@/lib/documents/client';
+import { addLibraryItem, getLibraryItems, removeLibraryItem } from '@/lib/knowledge/client';
+import { LibraryInput, LibraryItem, getLibraryItemId } from '@/lib/knowledge/types';
+import { formatCitations, parseCitations, stripSourcesTable } from '@/lib/research/citations';
+import SignInWithGoogle from '@/components/SignInWithGoogle';
+import HistorySidebar from '@/components/HistorySidebar';
+import ExportMenu from '@/components/ExportMenu';
+import ShareButton from '@/components/ShareButton';
+import TemplateResponse from '@/components/TemplateResponse';
+import TemplatePicker from '@/components/TemplatePicker';
+import CitationSummary from '@/components/CitationSummary';
+import ConsensusPanel from '@/components/ConsensusPanel';
+import SourceCards from '@/components/SourceCards';
+import UsageSummary from '@/components/UsageSummary';
+import DomainSettings, { DomainOptions } from '@/components/DomainSettings';
+import DateFilter, { DateFilterOptions } from '@/components/DateFilter';
+import DocumentAttach from '@/components/DocumentAttach';
+import LibraryMenu from '@/components/LibraryMenu';
+import LibraryButton from '@/components/LibraryButton';
+import ImageUpload from '@/components/ImageUpload';
+import DictationButton from '@/components/DictationButton';
+import ReadAloudButton from '@/components/ReadAloudButton';
+import ReanalyzeMenu from '@/components/ReanalyzeMenu';
+import { History, Image as ImageIcon, RefreshCw, RotateCcw, Square } from 'lucide-react';
 import Image from 'next/image';
+import { formatDistanceToNow } from 'date-fns';
+import Link from 'next/link';
 
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
-  reasoning?: string;
-  searchResults?: SearchResult[];
-  fullTavilyData?: TavilyResponse;
-  reasoningInput?: string;
-}
-
-interface TavilyImage {
-  url: string;
-  description?: string;
-}
-
-interface SearchResult {
-  title: string;
-  content: string;
-  url: string;
-  snippet?: string;
-  score?: number;
-  image?: TavilyImage;
-}
-
-interface TavilyResponse {
-  results: SearchResult[];
-  images?: TavilyImage[];
-  answer?: string;
-  query?: string;
-}
-
-interface ChatSection {
-  query: string;
-  searchResults: SearchResult[];
-  reasoning: string;
-  response: string;
-  error?: string | null;
-  isLoadingSources?: boolean;
-  isLoadingThinking?: boolean;
-  isReasoningCollapsed?: boolean;
-}
-
-interface SuggestionType {
-  label: string;
-  prefix: string;
+interface ModelProviderOption {
+  id: LLMProviderId;
+  name: string;
+  defaultModel: string;
+  configured: boolean;
 }
 
 // Add TopBar component
-const TopBar = () => {
+const TopBar = ({ onToggleHistory, onNewResearch }: { onToggleHistory: () => void, onNewResearch?: () => void }) => {
+  const { user, signOut } = useAuth();
+
   return (
-    <div className="fixed top-0 left-0 right-0 h-16 bg-white border-b border-gray-200 flex items-center px-6 z-50">
-      <h1 className="text-2xl font-serif text-gray-900 tracking-tight">DeepSearch</h1>
+    <div className="fixed top-0 left-0 right-0 h-16 bg-white border-b border-gray-200 flex items-center justify-between px-6 z-50">
+      <div className="flex items-center gap-4">
+        {user && (
+          <button
+            onClick={onToggleHistory}
+            className="text-gray-600 hover:text-gray-900"
+            aria-label="Toggle research history"
+          >
+            <History size={20} />
+          </button>
+        )}
+        <h1 className="text-2xl font-serif text-gray-900 tracking-tight">DeepSearch</h1>
+      </div>
+      <div className="flex items-center gap-4">
+        {onNewResearch && (
+          <button onClick={onNewResearch} className="text-sm text-gray-600 hover:text-gray-900">
+            New research
+          </button>
+        )}
+        {user ? (
+          <div className="flex items-center gap-3">
+            <Link href="/usage" className="text-sm text-gray-600 hover:text-gray-900">
+              Usage
+            </Link>
+            <span className="text-sm text-gray-600">{user.displayName || user.email}</span>
+            <button onClick={signOut} className="text-sm text-gray-500 hover:text-gray-900">
+              Sign out
+            </button>
+          </div>
+        ) : (
+          <SignInWithGoogle />
+        )}
+      </div>
     </div>
   );
 };
 
-// Add utility functions for response formatting
-const formatResponse = (content: string): string => {
-  if (!content) return '';
-  
-  // Ensure content has proper markdown structure
-  let formattedContent = content;
-  
-  // Ensure headings have space after #
-  formattedContent = formattedContent.replace(/^(#{1,6})([^#\s])/gm, '$1 $2');
-  
-  // Ensure lists have proper spacing
-  formattedContent = formattedContent.replace(/^([*-])([^\s])/gm, '$1 $2');
-  
-  // Ensure code blocks are properly formatted - without using 's' flag
-  formattedContent = formattedContent.replace(/```([^`\n]*)\n([\s\S]*?)```/g, '```$1\n$2\n```');
-  
-  // Ensure tables have proper formatting
-  if (formattedContent.includes('|') && !formattedContent.includes('| --')) {
-    formattedContent = formattedContent.replace(/\|([^|\n]*)\|([^|\n]*)\|/g, '| $1 | $2 |');
-  }
-  
-  return formattedContent;
-};
-
-// Add a function to validate search results
-const validateSearchResults = (results: SearchResult[]): SearchResult[] => {
-  if (!results || !Array.isArray(results)) return [];
-  
-  return results.map(result => ({
-    title: result.title || 'Untitled Source',
-    content: result.content || 'No content available',
-    url: result.url || '#',
-    snippet: result.snippet || result.content?.slice(0, 150) || '',
-    score: result.score || 0,
-    image: result.image || undefined
-  }));
-};
-
 // Add ErrorMessage component
 const ErrorMessage = ({ message, onRetry }: { message: string, onRetry?: () => void }) => {
   return (
@@ -131,462 +145,877 @@ const ErrorMessage = ({ message, onRetry }: { message: string, onRetry?: () => v
   );
 };
 
-// Add StructuredResponse component
-const StructuredResponse = ({ content, searchResults }: { content: string, searchResults?: SearchResult[] }) => {
-  // Ensure content is properly formatted
-  const formattedContent = formatResponse(content);
-  
-  // Create a custom components object that includes the section's search results
-  const customComponents = {
-    ...markdownComponents,
-    a: ({ node, ...props }: any) => {
-      const href = props.href || '';
-      const sourceMatch = href.match(/\[Source (\d+)\]/);
-      if (sourceMatch && searchResults) {
-        const sourceIndex = parseInt(sourceMatch[1]) - 1;
-        const source = searchResults[sourceIndex];
-        return (
-          <span className="inline-flex items-center group relative">
-            <a {...props} className="inline-flex items-center text-blue-600 hover:text-blue-800">
-              <svg className="w-4 h-4 mr-1" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
-              </svg>
-              {props.children}
-            </a>
-            {source && (
-              <div className="absolute bottom-full left-0 mb-2 hidden group-hover:block z-50">
-                <div className="bg-white p-4 rounded-lg shadow-lg border border-gray-200 w-80">
-                  <h4 className="font-medium text-gray-900 mb-2">{source.title}</h4>
-                  <p className="text-sm text-gray-600 mb-2">{source.content}</p>
-                  <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-xs text-blue-600 hover:underline">
-                    Visit source →
-                  </a>
-                </div>
-              </div>
-            )}
-          </span>
-        );
-      }
-      return markdownComponents.a({ node, ...props });
-    }
-  };
-  
-  // Split content into sections if it has headings
-  const hasHeadings = /^#{1,6}\s.+/gm.test(formattedContent);
-  
-  if (!hasHeadings) {
-    return (
-      <div className="prose prose-blue max-w-none space-y-4 text-gray-800 [&>ul]:list-disc [&>ul]:pl-6 [&>ol]:list-decimal [&>ol]:pl-6">
-        <ReactMarkdown
-          remarkPlugins={[remarkGfm]}
-          components={customComponents}
-        >
-          {formattedContent}
-        </ReactMarkdown>
-      </div>
-    );
-  }
-  
-  // Split by headings for a more structured display
-  const sections = formattedContent.split(/(?=^#{1,6}\s.+$)/gm).filter(Boolean);
-  
+// Add QueryForm component, shared by the landing view and the floating input
+const QueryForm = ({
+  input,
+  onInputChange,
+  onSubmit,
+  onStop,
+  isLoading,
+  toolbar,
+  attachment,
+  children
+}: {
+  input: string,
+  onInputChange: (value: string) => void,
+  onSubmit: (e: React.FormEvent) => void,
+  // While loading, the send button stops the running research instead
+  onStop?: () => void,
+  isLoading: boolean,
+  toolbar?: React.ReactNode,
+  // Shown above the input, e.g. the image being attached to the question
+  attachment?: React.ReactNode,
+  children?: React.ReactNode
+}) => {
   return (
-    <div className="space-y-8">
-      {sections.map((section, idx) => (
-        <div key={idx} className="prose prose-blue max-w-none space-y-4 text-gray-800 [&>ul]:list-disc [&>ul]:pl-6 [&>ol]:list-decimal [&>ol]:pl-6">
-          <ReactMarkdown
-            remarkPlugins={[remarkGfm]}
-            components={customComponents}
-          >
-            {section}
-          </ReactMarkdown>
+    <form onSubmit={onSubmit} className="w-full max-w-[704px] mx-4">
+      {attachment && (
+        <div className="mb-2 bg-white rounded-xl shadow-md border border-gray-300 p-2">{attachment}</div>
+      )}
+      <div className="relative bg-gray-50 rounded-xl shadow-md border border-gray-300">
+        <textarea
+          value={input}
+          onChange={(e) => onInputChange(e.target.value)}
+          placeholder="Ask a question..."
+          className="w-full p-5 pb-16 rounded-xl border-2 border-transparent focus:border-gray-900 focus:shadow-lg focus:outline-none resize-none h-[132px] bg-gray-50 transition-all duration-200 text-black"
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              onSubmit(e);
+            }
+          }}
+        />
+        <div className="absolute left-3 bottom-3 flex items-center gap-2">
+          {toolbar}
         </div>
+        <div className="absolute right-3 bottom-3 flex items-center gap-2">
+          {isLoading && onStop ? (
+            <button
+              type="button"
+              onClick={onStop}
+              className="px-6 py-2.5 bg-gray-900 text-white rounded-lg hover:bg-gray-800 text-sm font-medium flex items-center gap-2"
+            >
+              <Square size={12} />
+              <span>Stop</span>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="px-6 py-2.5 bg-gray-900 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium relative overflow-hidden group"
+            >
+              <span className="relative z-10">{isLoading ? 'Thinking...' : 'Send'}</span>
+              <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent group-hover:via-white/15 translate-x-[-100%] group-hover:translate-x-[100%] transition-transform duration-1000"></div>
+            </button>
+          )}
+        </div>
+      </div>
+      {children}
+    </form>
+  );
+};
+
+// Add ModelSelect component
+const ModelSelect = ({
+  providers,
+  value,
+  onChange
+}: {
+  providers: ModelProviderOption[],
+  value: ModelOptions,
+  onChange: (options: ModelOptions) => void
+}) => {
+  return (
+    <select
+      value={value.provider || ''}
+      onChange={(e) => onChange(e.target.value ? { provider: e.target.value as LLMProviderId } : {})}
+      aria-label="Model"
+      className="px-2 py-2.5 bg-transparent border border-gray-300 rounded-lg text-sm text-gray-600 focus:outline-none focus:border-gray-900"
+    >
+      <option value="">Default model</option>
+      {providers.filter(provider => provider.configured).map(provider => (
+        <option key={provider.id} value={provider.id}>
+          {provider.name} ({provider.defaultModel})
+        </option>
       ))}
-    </div>
+    </select>
   );
 };
 
-// Extract markdown components for reuse
-const markdownComponents = {
-  // Table components
-  table: ({ node, ...props }: any) => (
-    <div className="my-8 overflow-x-auto rounded-lg border border-gray-200">
-      <table className="w-full text-left border-collapse" {...props} />
-    </div>
-  ),
-  thead: ({ node, ...props }: any) => (
-    <thead className="bg-gray-50" {...props} />
-  ),
-  tbody: ({ node, ...props }: any) => (
-    <tbody className="bg-white divide-y divide-gray-200" {...props} />
-  ),
-  tr: ({ node, ...props }: any) => (
-    <tr className="hover:bg-gray-50 transition-colors" {...props} />
-  ),
-  th: ({ node, ...props }: any) => (
-    <th className="py-3 px-4 font-medium text-sm text-gray-900 border-b border-gray-200" {...props} />
-  ),
-  // Enhanced td cell rendering
-  td: ({ node, ...props }: any) => {
-    // Check if the content includes a markdown link
-    const content = props.children?.toString() || '';
-    if (content.match(/\[.*?\]\(.*?\)/)) {
-      return (
-        <td className="py-3 px-4 text-sm text-gray-500">
-          <ReactMarkdown
-            remarkPlugins={[remarkGfm]}
-            components={{
-              a: ({ node, ...linkProps }: any) => (
-                <a {...linkProps} className="text-blue-600 hover:text-blue-800 hover:underline" target="_blank" rel="noopener noreferrer" />
-              )
-            }}
-          >
-            {content}
-          </ReactMarkdown>
-        </td>
-      );
-    }
-    return (
-      <td className="py-3 px-4 text-sm text-gray-500" {...props} />
-    );
-  },
-  // Better handling of code blocks
-  code: ({ node, inline, className, children, ...props }: any) => {
-    const match = /language-(\w+)/.exec(className || '');
-    return !inline && match ? (
-      <div className="relative">
-        <pre className={`${className} rounded-lg p-4 bg-gray-900 text-white overflow-x-auto`}>
-          <code className={className} {...props}>
-            {String(children).replace(/\n$/, '')}
-          </code>
-        </pre>
-      </div>
-    ) : (
-      <code className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-800 text-sm font-mono" {...props}>
-        {children}
-      </code>
-    );
-  },
-  // Better handling of pre blocks
-  pre: ({ node, children, ...props }: any) => {
-    const content = String(children);
-    if (content.includes('|') && content.includes('\n')) {
-      const rows = content.trim().split('\n');
-      const headers = rows[0].split('|').filter(Boolean).map((h: string) => h.trim());
-      const data = rows.slice(2).map((row: string) => 
-        row.split('|').filter(Boolean).map((cell: string) => cell.trim())
-      );
+// Add DepthSelect component
+const DepthSelect = ({ value, onChange }: { value: ResearchOptions, onChange: (options: ResearchOptions) => void }) => {
+  return (
+    <select
+      value={RESEARCH_DEPTH_PRESETS.find(preset => preset.options === value)?.label}
+      onChange={(e) => {
+        const preset = RESEARCH_DEPTH_PRESETS.find(preset => preset.label === e.target.value);
+        if (preset) onChange(preset.options);
+      }}
+      aria-label="Research depth"
+      className="px-2 py-2.5 bg-transparent border border-gray-300 rounded-lg text-sm text-gray-600 focus:outline-none focus:border-gray-900"
+    >
+      {RESEARCH_DEPTH_PRESETS.map(preset => (
+        <option key={preset.label} value={preset.label}>{preset.label}</option>
+      ))}
+    </select>
+  );
+};
 
-      return (
-        <div className="my-8 overflow-x-auto">
-          <table className="w-full text-left border-collapse border border-gray-200">
-            <thead className="bg-gray-50">
-              <tr>
-                {headers.map((header: string, i: number) => (
-                  <th key={i} className="py-3 px-4 font-medium text-sm text-gray-900 border-b border-gray-200">
-                    {header}
-                  </th>
-                ))}
-              </tr>
-            </thead>
-            <tbody className="bg-white">
-              {data.map((row: string[], i: number) => (
-                <tr key={i} className="border-b border-gray-200 hover:bg-gray-50 transition-colors">
-                  {row.map((cell: string, j: number) => (
-                    <td key={j} className="py-3 px-4 text-sm text-gray-500">
-                      {cell}
-                    </td>
-                  ))}
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
-      );
-    }
-    return <pre className="rounded-lg p-4 bg-gray-50 overflow-x-auto" {...props}>{children}</pre>;
-  },
-  // Improved heading rendering
-  h1: ({ node, ...props }: any) => (
-    <h1 className="text-3xl font-bold text-gray-900 mt-8 mb-4" {...props} />
-  ),
-  h2: ({ node, ...props }: any) => (
-    <h2 className="text-2xl font-bold text-gray-900 mt-8 mb-3" {...props} />
-  ),
-  h3: ({ node, ...props }: any) => (
-    <h3 className="text-xl font-bold text-gray-900 mt-6 mb-3" {...props} />
-  ),
-  // Better list rendering
-  ul: ({ node, ...props }: any) => (
-    <ul className="list-disc pl-6 my-4 space-y-2" {...props} />
-  ),
-  ol: ({ node, ...props }: any) => (
-    <ol className="list-decimal pl-6 my-4 space-y-2" {...props} />
-  ),
-  li: ({ node, ...props }: any) => (
-    <li className="text-gray-800" {...props} />
-  ),
-  // Enhanced link handling
-  a: ({ node, ...props }: any) => {
-    const href = props.href || '';
-    const sourceMatch = href.match(/\[Source (\d+)\]/);
-    if (sourceMatch) {
-      return (
-        <span className="inline-flex items-center group relative">
-          <a {...props} className="inline-flex items-center text-blue-600 hover:text-blue-800">
-            <svg className="w-4 h-4 mr-1" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
-            </svg>
-            {props.children}
-          </a>
-        </span>
-      );
-    }
-    return (
-      <a {...props} className="text-blue-600 hover:text-blue-800 hover:underline" target="_blank" rel="noopener noreferrer" />
-    );
-  },
+// Add FreshResultsToggle component
+const FreshResultsToggle = ({ value, onChange }: { value: boolean, onChange: (value: boolean) => void }) => {
+  return (
+    <button
+      type="button"
+      onClick={() => onChange(!value)}
+      aria-pressed={value}
+      title={value ? 'Searching fresh; cached results are skipped' : 'Reusing recent cached results when available'}
+      className={`px-2 py-2.5 border rounded-lg text-sm flex items-center gap-1 focus:outline-none ${
+        value ? 'border-gray-900 text-gray-900' : 'border-gray-300 text-gray-600'
+      }`}
+    >
+      <RefreshCw size={14} />
+      <span>Fresh</span>
+    </button>
+  );
+};
+
+// Add ImageToggle component
+const ImageToggle = ({ open, attached, onChange }: { open: boolean, attached: boolean, onChange: (open: boolean) => void }) => {
+  return (
+    <button
+      type="button"
+      onClick={() => onChange(!open)}
+      aria-pressed={open}
+      title={attached ? 'Remove the attached image' : 'Attach an image to the question'}
+      className={`px-2 py-2.5 border rounded-lg text-sm flex items-center gap-1 focus:outline-none ${
+        attached ? 'border-gray-900 text-gray-900' : 'border-gray-300 text-gray-600'
+      }`}
+    >
+      <ImageIcon size={14} />
+      <span>Image</span>
+    </button>
+  );
+};
+
+// Add SourceCount component: independent sources, after syndicated copies were merged
+const SourceCount = ({ results }: { results: SearchResult[] }) => {
+  const duplicates = results.reduce((sum, result) => sum + (result.alternates?.length ?? 0), 0);
+  return (
+    <span className="text-xs text-gray-400">
+      {results.length} independent{duplicates > 0 ? ` · ${duplicates} duplicate${duplicates === 1 ? '' : 's'} merged` : ''}
+    </span>
+  );
+};
+
+// Add CacheBadge component: how many of a section's searches came from the cache, and the oldest one's age
+const CacheBadge = ({ steps }: { steps: ResearchStep[] }) => {
+  const done = steps.filter(step => step.status === 'done');
+  const cached = done.filter(step => step.cachedAt).map(step => step.cachedAt as number);
+  if (cached.length === 0) return null;
+
+  return (
+    <span
+      className="text-xs text-gray-500 bg-gray-100 rounded px-2 py-0.5"
+      title="Search results were reused from the cache. Turn on Fresh to search again."
+    >
+      {cached.length === done.length ? 'Cached' : `${cached.length} of ${done.length} searches cached`}
+      {' · '}{formatDistanceToNow(Math.min(...cached), { addSuffix: true })}
+    </span>
+  );
+};
+
+// Add QuotaBadge component
+const QuotaBadge = ({ quota }: { quota: QuotaStatus }) => {
+  const parts = [
+    quota.requests.remaining !== null && `${quota.requests.remaining} requests`,
+    quota.tokens.remaining !== null && `${quota.tokens.remaining.toLocaleString()} tokens`,
+  ].filter(Boolean);
+  if (parts.length === 0) return null;
+
+  return (
+    <span className="text-xs text-gray-500" title={`Resets ${formatDistanceToNow(quota.resetAt, { addSuffix: true })}`}>
+      {parts.join(' · ')} left today
+    </span>
+  );
+};
+
+// Add ResearchSteps component
+const ResearchSteps = ({ steps, status }: { steps: ResearchStep[], status?: string }) => {
+  return (
+    <div className="mb-12">
+      <div className="flex items-center gap-2 mb-4">
+        <svg className="w-5 h-5 text-gray-600" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+        </svg>
+        <h3 className="text-sm font-semibold text-gray-600">Research Steps</h3>
+      </div>
+      <ol className="pl-4 border-l-2 border-gray-300 space-y-3">
+        {steps.map((step, idx) => (
+          <li key={idx} className="text-sm">
+            <div className="flex items-center gap-2">
+              <div className={`w-2 h-2 rounded-full flex-shrink-0 ${
+                step.status === 'searching'
+                  ? 'bg-blue-500 animate-pulse'
+                  : step.status === 'error' ? 'bg-red-500' : 'bg-green-500'
+              }`} />
+              <span className="text-xs font-medium text-gray-500">Round {step.round}</span>
+              <span className="text-gray-800">{step.query}</span>
+            </div>
+            {step.reason && (
+              <p className="mt-1 ml-4 text-gray-500">{step.reason}</p>
+            )}
+            <p className="mt-1 ml-4 text-xs text-gray-400">
+              {step.status === 'searching' && 'Searching...'}
+              {step.status === 'done' && `${step.resultCount} results, ${step.newResultCount} new${step.provider ? ` via ${step.provider}` : ''}`}
+              {step.status === 'done' && step.cachedAt && ` (cached ${formatDistanceToNow(step.cachedAt, { addSuffix: true })})`}
+              {step.status === 'error' && step.error}
+            </p>
+          </li>
+        ))}
+      </ol>
+      {status && (
+        <p className="mt-3 text-xs text-gray-500 animate-pulse">{status}</p>
+      )}
+    </div>
+  );
 };
 
 export default function Home() {
-  const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [lastQuery, setLastQuery] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // The section the running request writes to
+  const [activeSectionIndex, setActiveSectionIndex] = useState<number | null>(null);
   const [currentReasoning, setCurrentReasoning] = useState('');
   const [searchStatus, setSearchStatus] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [currentSearchResults, setCurrentSearchResults] = useState<SearchResult[]>([]);
-  const [showTavilyModal, setShowTavilyModal] = useState(false);
+  const [showSearchDataModal, setShowSearchDataModal] = useState(false);
   const [showReasoningModal, setShowReasoningModal] = useState(false);
-  const [selectedMessageData, setSelectedMessageData] = useState<{tavily?: TavilyResponse, reasoning?: string}>({});
+  const [selectedMessageData, setSelectedMessageData] = useState<{searchData?: SearchResponse, reasoning?: string, context?: ContextReport}>({});
   const [hasSubmitted, setHasSubmitted] = useState(false);
   const abortControllerRef = useRef<AbortController | null>(null);
   const [chatSections, setChatSections] = useState<ChatSection[]>([]);
-  const [selectedSuggestion, setSelectedSuggestion] = useState<string | null>(null);
-  
-  const suggestions: SuggestionType[] = [
-    { label: "Podcast Outline", prefix: "Create a detailed podcast outline for: " },
-    { label: "YouTube Video Research", prefix: "Research and outline a YouTube video about: " },
-    { label: "Short Form Hook Ideas", prefix: "Generate engaging hook ideas for short-form content about: " },
-    { label: "Newsletter Draft", prefix: "Write a newsletter draft about: " }
-  ];
-
-  const handleSuggestionClick = (suggestion: SuggestionType) => {
-    setSelectedSuggestion(suggestion.label);
-    if (input) {
-      setInput(suggestion.prefix + input);
+  const [template, setTemplate] = useState<ResearchTemplate>(DEFAULT_TEMPLATE);
+  const [customTemplates, setCustomTemplates] = useState<ResearchTemplate[]>([]);
+  const [privateDocuments, setPrivateDocuments] = useState<StoredDocument[]>([]);
+  const [attachedDocumentIds, setAttachedDocumentIds] = useState<string[]>([]);
+  const [libraryItems, setLibraryItems] = useState<LibraryItem[]>([]);
+  const [useLibrary, setUseLibrary] = useState(false);
+  const [isImageUploadOpen, setIsImageUploadOpen] = useState(false);
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [researchOptions, setResearchOptions] = useState<ResearchOptions>(DEFAULT_RESEARCH_OPTIONS);
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  const [domainOptions, setDomainOptions] = useState<DomainOptions>({
+    includeDomains: [],
+    excludeDomains: [],
+    trustedDomains: [],
+    blockedDomains: []
+  });
+  const [dateFilter, setDateFilter] = useState<DateFilterOptions>({});
+  const [modelOptions, setModelOptions] = useState<ModelOptions>({});
+  const [modelProviders, setModelProviders] = useState<ModelProviderOption[]>([]);
+  const { user } = useAuth();
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [historyItems, setHistoryItems] = useState<StoredResearch[]>([]);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+  const [highlightedSource, setHighlightedSource] = useState<{ section: number, source: number } | null>(null);
+  const highlightTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    if (!user) return;
+    setIsHistoryLoading(true);
+    try {
+      setHistoryItems(await getResearchHistory(user.uid));
+    } catch (error) {
+      console.error('Error loading research history:', error);
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (isHistoryOpen) loadHistory();
+  }, [isHistoryOpen, loadHistory]);
+
+  useEffect(() => {
+    if (!user) {
+      setIsHistoryOpen(false);
+      setHistoryItems([]);
+      setQuota(null);
+      setDomainOptions(prev => ({ ...prev, trustedDomains: [], blockedDomains: [] }));
+      setCustomTemplates([]);
+      setTemplate(prev => prev.custom ? DEFAULT_TEMPLATE : prev);
+      setPrivateDocuments([]);
+      setAttachedDocumentIds([]);
+      setLibraryItems([]);
+      setUseLibrary(false);
+      setIsImageUploadOpen(false);
+      setImageFile(null);
+      return;
     }
+    getSourcePreferences(user.uid)
+      .then(preferences => setDomainOptions(prev => ({ ...prev, ...preferences })))
+      .catch(error => console.error('Error loading source preferences:', error));
+    getCustomTemplates(user.uid)
+      .then(setCustomTemplates)
+      .catch(error => console.error('Error loading custom templates:', error));
+    getPrivateDocuments(user.uid)
+      .then(setPrivateDocuments)
+      .catch(error => console.error('Error loading documents:', error));
+    user.getIdToken()
+      .then(getLibraryItems)
+      .then(setLibraryItems)
+      .catch(error => console.error('Error loading library:', error));
+  }, [user]);
+
+  useEffect(() => {
+    fetch('/api/chat')
+      .then(response => response.json())
+      .then(data => setModelProviders(data.providers || []))
+      .catch(error => console.error('Error loading model providers:', error));
+  }, []);
+  
+  const saveTemplate = async (template: ResearchTemplate) => {
+    if (!user) return;
+    await saveCustomTemplate(user.uid, template);
+    setCustomTemplates(prev => [...prev, template].sort((a, b) => a.label.localeCompare(b.label)));
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || isLoading) return;
+  const deleteTemplate = async (template: ResearchTemplate) => {
+    if (!user) return;
+    setCustomTemplates(prev => prev.filter(item => item.id !== template.id));
+    await deleteCustomTemplate(user.uid, template.id);
+  };
 
-    setHasSubmitted(true);
-    setLastQuery(input);
+  const uploadDocument = async (file: File) => {
+    if (!user) return;
+    const { text } = await extractDocumentText(file, await user.getIdToken());
+    const stored = await savePrivateDocument(user.uid, file, text);
+    setPrivateDocuments(prev => [stored, ...prev]);
+    setAttachedDocumentIds(prev => [...prev, stored.id]);
+  };
+
+  const isInLibrary = (id: string) => libraryItems.some(item => item.id === id);
+
+  const saveToLibrary = async (input: LibraryInput) => {
+    if (!user) return;
+    const item = await addLibraryItem(input, await user.getIdToken());
+    setLibraryItems(prev => [item, ...prev.filter(existing => existing.id !== item.id)]);
+  };
+
+  const removeFromLibrary = async (id: string) => {
+    if (!user) return;
+    setLibraryItems(prev => prev.filter(item => item.id !== id));
+    await removeLibraryItem(id, await user.getIdToken());
+  };
+
+  // Saved reports are indexed without their sources table and citation markers, which mean nothing out of context
+  const saveReportToLibrary = (section: ChatSection) => saveToLibrary({
+    id: getLibraryItemId('report', String(section.createdAt)),
+    kind: 'report',
+    title: section.query,
+    text: `${section.query}\n\n${formatCitations(stripSourcesTable(section.response), () => '')}`
+  });
+
+  const toggleBookmark = (result: SearchResult) => {
+    const id = getLibraryItemId('source', result.url);
+    const action = isInLibrary(id)
+      ? removeFromLibrary(id)
+      : saveToLibrary({
+        id,
+        kind: 'source',
+        title: result.title,
+        url: result.url,
+        text: [result.content, ...(result.extracts ?? [])].join('\n\n')
+      });
+    action.catch(error => console.error('Error updating bookmark:', error));
+  };
+
+  const deleteDocument = async (stored: StoredDocument) => {
+    if (!user) return;
+    setPrivateDocuments(prev => prev.filter(item => item.id !== stored.id));
+    await deletePrivateDocument(user.uid, stored);
+    const libraryId = getLibraryItemId('document', stored.id);
+    if (isInLibrary(libraryId)) await removeFromLibrary(libraryId);
+  };
+
+  // Closing the image panel also drops the image
+  const toggleImageUpload = (open: boolean) => {
+    setIsImageUploadOpen(open);
+    if (!open) setImageFile(null);
+  };
+
+  // Patch one section in state, keeping a mirror of its data so a finished run can be saved without reading state
+  const trackSection = (sectionIndex: number, initial: ChatSection) => {
+    let current = initial;
+    return {
+      get current() {
+        return current;
+      },
+      update(update: (section: ChatSection) => Partial<ChatSection>) {
+        const patch = update(current);
+        current = { ...current, ...patch };
+        setChatSections(prev => {
+          const updated = [...prev];
+          updated[sectionIndex] = {
+            ...updated[sectionIndex],
+            ...patch
+          };
+          return updated;
+        });
+      }
+    };
+  };
+
+  // Earlier finished sections on the page form the thread for the one at sectionIndex
+  const getThreadHistory = (sectionIndex: number): ThreadTurn[] =>
+    chatSections
+      .slice(0, sectionIndex)
+      .filter(section => section.response && !section.error)
+      .map(section => ({
+        query: section.query,
+        response: section.response,
+        sources: section.searchResults.map(source => ({ title: source.title, url: source.url, private: source.private }))
+      }));
+
+  // The template a section was written for; a deleted custom template falls back to the default
+  const getSectionTemplate = (section: ChatSection) =>
+    getTemplate(section.template?.id)
+      ?? customTemplates.find(item => item.id === section.template?.id)
+      ?? DEFAULT_TEMPLATE;
+
+  // Abort whatever is running and hand out the controller for the next run
+  const startRun = (sectionIndex: number) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setActiveSectionIndex(sectionIndex);
+    setIsLoading(true);
     setError(null);
-    setCurrentSearchResults([]);
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
+    return controller;
+  };
+
+  // A newer run may have started meanwhile; only the latest one clears the loading state
+  const finishRun = (controller: AbortController) => {
+    if (abortControllerRef.current !== controller) return;
+    abortControllerRef.current = null;
+    setActiveSectionIndex(null);
+    setIsLoading(false);
+    setSearchStatus('');
+  };
+
+  const stopResearch = () => abortControllerRef.current?.abort();
+
+  // Stopped runs keep whatever they had streamed so far
+  const failSection = (tracked: ReturnType<typeof trackSection>, error: unknown) => {
+    if (error instanceof Error && error.name === 'AbortError') {
+      tracked.update(() => ({ isStopped: true, isLoadingSources: false, isLoadingThinking: false }));
+      return;
     }
-    abortControllerRef.current = new AbortController();
+    let errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred';
+    if (error instanceof ResearchRequestError && error.quota) {
+      setQuota(error.quota);
+      errorMessage += `. Your quota resets ${formatDistanceToNow(error.quota.resetAt, { addSuffix: true })}.`;
+    }
+    console.error('Error:', error);
+    setError(errorMessage);
+    tracked.update(() => ({
+      error: errorMessage,
+      isLoadingSources: false,
+      isLoadingThinking: false
+    }));
+  };
 
-    const userMessage = { role: 'user' as const, content: input };
-    setMessages(prev => [...prev, userMessage]);
-    setInput('');
-    setIsLoading(true);
+  // Save a finished run, replacing its history entry when it was regenerated or re-analyzed
+  const saveToHistory = (tracked: ReturnType<typeof trackSection>) => {
+    if (!user) return;
+    const section = tracked.current;
+    const saved = section.historyId
+      ? updateResearch(user.uid, section.historyId, section).then(() => section.historyId as string)
+      : saveResearch(user.uid, section);
+    saved
+      .then(historyId => {
+        tracked.update(() => ({ historyId }));
+        if (isHistoryOpen) loadHistory();
+      })
+      .catch(error => console.error('Error saving research:', error));
+  };
+
+  // Run the full research pipeline for a question, as a new section or in place of
+  // an existing one when it is regenerated
+  const startResearch = async ({
+    query,
+    imageFile: attachedImage,
+    image: existingImage,
+    researchTemplate = template,
+    sectionIndex = chatSections.length
+  }: {
+    query: string,
+    imageFile?: File | null,
+    image?: ResearchImage,
+    researchTemplate?: ResearchTemplate,
+    sectionIndex?: number
+  }) => {
+    const controller = startRun(sectionIndex);
+    setHasSubmitted(true);
+    setLastQuery(query);
+    setCurrentSearchResults([]);
     setCurrentReasoning('');
 
-    // Create a new chat section with loading states
+    // Create a new chat section with loading states; a regenerated one keeps its history entry
+    const previous: ChatSection | undefined = chatSections[sectionIndex];
+    revokeShareLink(sectionIndex);
     const newSection: ChatSection = {
-      query: input,
+      // The server asks this on the user's behalf when only an image was sent
+      query: query.trim() ? query : DEFAULT_IMAGE_QUERY,
       searchResults: [],
+      steps: [],
       reasoning: '',
       response: '',
       error: null,
       isLoadingSources: true,
-      isLoadingThinking: false
+      isLoadingThinking: false,
+      template: { id: researchTemplate.id, label: researchTemplate.label, layout: researchTemplate.layout },
+      image: existingImage,
+      historyId: previous?.historyId,
+      createdAt: Date.now()
     };
-    setChatSections(prev => [...prev, newSection]);
-    const sectionIndex = chatSections.length;
+    setChatSections(prev => {
+      const updated = [...prev];
+      updated[sectionIndex] = newSection;
+      return updated;
+    });
+    const tracked = trackSection(sectionIndex, newSection);
+    const updateSection = tracked.update;
 
     try {
-      // Step 1: Search with Tavily
-      const searchResponse = await fetch('/api/tavily', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          query: input,
-          includeImages: true,
-          includeImageDescriptions: true
-        }),
-        signal: abortControllerRef.current.signal,
-      });
+      // Search, follow-up rounds and reasoning all run in /api/research
+      const history = getThreadHistory(sectionIndex);
 
-      const searchData = await searchResponse.json();
-      
-      if (!searchResponse.ok) {
-        throw new Error(searchData.error || 'Failed to fetch search results');
+      // Stored first, so the server only ever receives a Firebase Storage URL
+      let image = existingImage && { url: existingImage.url };
+      if (attachedImage && user) {
+        setSearchStatus('Uploading image');
+        image = { url: await uploadResearchImage(user.uid, attachedImage) };
+        updateSection(() => ({ image }));
       }
 
-      if (!searchData.results || searchData.results.length === 0) {
-        throw new Error('No relevant search results found. Please try a different query.');
+      const events = streamResearch(
+        {
+          query,
+          options: { ...researchOptions, ...domainOptions, ...dateFilter, model: modelOptions, forceRefresh, useLibrary },
+          history,
+          // The server has its own copy of the built-in templates
+          template: researchTemplate.custom ? researchTemplate : { id: researchTemplate.id },
+          documents: privateDocuments
+            .filter(doc => attachedDocumentIds.includes(doc.id))
+            .map(({ id, name, url, text }) => ({ id, name, url, text })),
+          image
+        },
+        controller.signal,
+        await user?.getIdToken()
+      );
+
+      let reasoning = '';
+      for await (const event of events) {
+        switch (event.type) {
+          case 'quota':
+            setQuota(event.quota);
+            break;
+          case 'status':
+            setSearchStatus(event.message);
+            break;
+          case 'query_rewritten':
+            updateSection(() => ({ searchQuery: event.searchQuery }));
+            break;
+          case 'image_analysis':
+            updateSection(section => ({
+              image: section.image && { ...section.image, description: event.analysis.description }
+            }));
+            break;
+          case 'step':
+            updateSection(section => {
+              const steps = [...section.steps];
+              steps[event.index] = event.step;
+              return { steps };
+            });
+            break;
+          case 'sources_found':
+            setCurrentSearchResults(event.results);
+            updateSection(() => ({
+              searchResults: event.results,
+              searchData: event.searchData
+            }));
+            break;
+          case 'reasoning_input':
+            // Sources are final, start thinking
+            updateSection(() => ({
+              reasoningInput: event.reasoningInput,
+              context: event.context,
+              isLoadingSources: false,
+              isLoadingThinking: true
+            }));
+            break;
+          case 'reasoning_delta':
+            reasoning += event.delta;
+            setCurrentReasoning(reasoning);
+            updateSection(() => ({ reasoning, isLoadingThinking: false }));
+            break;
+          case 'content_delta':
+            // Format the response content for better structure
+            updateSection(section => ({
+              response: formatResponse(section.response + event.delta)
+            }));
+            break;
+          case 'consensus':
+            updateSection(() => ({ consensus: event.consensus }));
+            break;
+          case 'done':
+            updateSection(() => ({
+              response: formatResponse(event.response),
+              citations: event.citations,
+              usage: event.usage,
+              isLoadingThinking: false,
+              completedAt: Date.now()
+            }));
+            if (user) {
+              logResearchUsage(user.uid, tracked.current)
+                .catch(error => console.error('Error logging research usage:', error));
+              saveToHistory(tracked);
+            }
+            break;
+          case 'error':
+            throw new Error(event.error);
+        }
       }
+    } catch (error: unknown) {
+      failSection(tracked, error);
+    } finally {
+      finishRun(controller);
+    }
+  };
 
-      // Combine images with results
-      const resultsWithImages = searchData.results.map((result: SearchResult, index: number) => ({
-        ...result,
-        image: searchData.images?.[index]
-      }));
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if ((!input.trim() && !imageFile) || isLoading) return;
 
-      // Validate search results
-      const validatedResults = validateSearchResults(resultsWithImages);
-
-      // Update section with search results and start thinking
-      setChatSections(prev => {
-        const updated = [...prev];
-        updated[sectionIndex] = {
-          ...updated[sectionIndex],
-          searchResults: validatedResults,
-          isLoadingSources: false,
-          isLoadingThinking: true
-        };
-        return updated;
-      });
+    const query = input;
+    const attachedImage = user ? imageFile : null;
+    setInput('');
+    toggleImageUpload(false);
+    await startResearch({ query, imageFile: attachedImage });
+  };
 
-      // Step 2: Format search results for DeepSeek
-      const searchContext = validatedResults
-        .map((result: SearchResult, index: number) => 
-          `[Source ${index + 1}]: ${result.title}\n${result.content}\nURL: ${result.url}\n`
-        )
-        .join('\n\n');
-
-      const tavilyAnswer = searchData.answer 
-        ? `\nTavily's Direct Answer: ${searchData.answer}\n\n` 
-        : '';
-
-      // Add sources table at the end
-      const sourcesTable = `\n\n## Sources\n| Number | Source | Description |\n|---------|---------|-------------|\n` +
-        validatedResults.map((result: SearchResult, index: number) => 
-          `| ${index + 1} | [${result.title}](${result.url}) | ${result.snippet || result.content.slice(0, 150)}${result.content.length > 150 ? '...' : ''} |`
-        ).join('\n');
-
-      const reasoningInput = `Here is the research data:${tavilyAnswer}\n${searchContext}\n\nPlease analyze this information and create a detailed report addressing the original query: "${input}". Include citations to the sources where appropriate. If the sources contain any potential biases or conflicting information, please note that in your analysis.\n\nIMPORTANT: Always end your response with a sources table listing all references used. Format it exactly as shown below:\n${sourcesTable}`;
-
-      let assistantMessage: Message = {
-        role: 'assistant',
-        content: '',
-        reasoning: '',
-        searchResults: validatedResults,
-        fullTavilyData: searchData,
-        reasoningInput
-      };
+  // Run the whole section again with the current settings
+  const regenerateSection = (sectionIndex: number) => {
+    const section = chatSections[sectionIndex];
+    if (!section || isLoading) return;
+    startResearch({
+      // An image sent without a question is sent that way again
+      query: section.image && section.query === DEFAULT_IMAGE_QUERY ? '' : section.query,
+      image: section.image,
+      researchTemplate: getSectionTemplate(section),
+      sectionIndex
+    });
+  };
 
-      // Step 3: Get analysis from DeepSeek
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ messages: [
-          userMessage,
-          {
-            role: 'assistant' as const,
-            content: 'I found some relevant information. Let me analyze it and create a comprehensive report.',
-          },
-          {
-            role: 'user' as const,
-            content: reasoningInput,
-          },
-        ] }),
-        signal: abortControllerRef.current.signal,
-      });
+  // Write the report again from the same sources through /api/chat, skipping the searches
+  const reanalyzeSection = async (sectionIndex: number, instructions: string) => {
+    const section = chatSections[sectionIndex];
+    if (!section?.reasoningInput || isLoading) return;
 
-      if (!response.ok) {
-        throw new Error('Failed to generate report. Please try again.');
-      }
+    const controller = startRun(sectionIndex);
+    revokeShareLink(sectionIndex);
+    const tracked = trackSection(sectionIndex, section);
+    tracked.update(() => ({
+      shareId: undefined,
+      reasoning: '',
+      response: '',
+      citations: undefined,
+      error: null,
+      isStopped: false,
+      isLoadingThinking: true,
+      instructions: instructions || undefined,
+      completedAt: undefined
+    }));
 
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error('No reader available');
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = new TextDecoder().decode(value);
-        const lines = chunk.split('\n').filter(line => line.trim());
-
-        for (const line of lines) {
-          try {
-            const parsed = JSON.parse(line);
-            if (parsed.choices?.[0]?.delta?.reasoning_content) {
-              const newReasoning = (assistantMessage.reasoning || '') + parsed.choices[0].delta.reasoning_content;
-              assistantMessage.reasoning = newReasoning;
-              setCurrentReasoning(newReasoning);
-              setChatSections(prev => {
-                const updated = [...prev];
-                updated[sectionIndex] = {
-                  ...updated[sectionIndex],
-                  reasoning: newReasoning,
-                  isLoadingThinking: false
-                };
-                return updated;
-              });
-            } else if (parsed.choices?.[0]?.delta?.content) {
-              const newContent = (assistantMessage.content || '') + parsed.choices[0].delta.content;
-              assistantMessage.content = newContent;
-              
-              // Format the response content for better structure
-              const formattedContent = formatResponse(newContent);
-              
-              setChatSections(prev => {
-                const updated = [...prev];
-                updated[sectionIndex] = {
-                  ...updated[sectionIndex],
-                  response: formattedContent
-                };
-                return updated;
-              });
-            }
-          } catch (e) {
-            console.error('Error parsing chunk:', e);
-          }
+    try {
+      const deltas = streamChatCompletion(
+        {
+          ...modelOptions,
+          messages: buildReanalysisMessages({
+            template: getSectionTemplate(section),
+            history: getThreadHistory(sectionIndex),
+            query: section.query,
+            reasoningInput: section.reasoningInput,
+            instructions
+          })
+        },
+        controller.signal,
+        await user?.getIdToken()
+      );
+
+      let reasoning = '';
+      let response = '';
+      let callUsage: ResearchUsage | undefined;
+      for await (const delta of deltas) {
+        if (delta.reasoning) {
+          reasoning += delta.reasoning;
+          tracked.update(() => ({ reasoning, isLoadingThinking: false }));
+        }
+        if (delta.content) {
+          response += delta.content;
+          tracked.update(() => ({ response: formatResponse(response), isLoadingThinking: false }));
+        }
+        if (delta.usage && delta.provider && delta.model) {
+          callUsage = toCallUsage(delta.usage, delta.cost ?? 0, delta.provider, delta.model);
         }
       }
 
-      // Update the section with search results
-      setChatSections(prev => {
-        const updated = [...prev];
-        updated[sectionIndex] = {
-          ...updated[sectionIndex],
-          searchResults: validatedResults
-        };
-        return updated;
-      });
-    } catch (error: unknown) {
-      if (error instanceof Error && error.name === 'AbortError') {
-        console.log('Request was aborted');
-      } else {
-        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred';
-        console.error('Error:', error);
-        setError(errorMessage);
-        setChatSections(prev => {
-          const updated = [...prev];
-          updated[sectionIndex] = {
-            ...updated[sectionIndex],
-            error: errorMessage,
-            isLoadingSources: false,
-            isLoadingThinking: false
-          };
-          return updated;
-        });
+      tracked.update(current => ({
+        response: formatResponse(response),
+        citations: parseCitations(response, current.searchResults.length, current.context?.includedSources),
+        usage: callUsage ? addUsage(current.usage, callUsage) : current.usage,
+        isLoadingThinking: false,
+        completedAt: Date.now()
+      }));
+      if (user) {
+        if (callUsage) {
+          logResearchUsage(user.uid, { ...tracked.current, usage: callUsage })
+            .catch(error => console.error('Error logging research usage:', error));
+        }
+        saveToHistory(tracked);
       }
+    } catch (error: unknown) {
+      failSection(tracked, error);
     } finally {
-      setIsLoading(false);
-      setSearchStatus('');
-      abortControllerRef.current = null;
+      finishRun(controller);
     }
   };
 
+  // Scroll a citation's source card into view and highlight it briefly
+  const openSourceCard = (sectionIndex: number, sourceNumber: number) => {
+    document.getElementById(`source-${sectionIndex}-${sourceNumber}`)?.scrollIntoView({
+      behavior: 'smooth',
+      block: 'center',
+      inline: 'center'
+    });
+    setHighlightedSource({ section: sectionIndex, source: sourceNumber });
+    if (highlightTimeoutRef.current) clearTimeout(highlightTimeoutRef.current);
+    highlightTimeoutRef.current = setTimeout(() => setHighlightedSource(null), 2500);
+  };
+
+  // Record a published or revoked share link on the section and its history entry
+  const updateShareId = (sectionIndex: number, shareId: string | null) => {
+    const historyId = chatSections[sectionIndex]?.historyId;
+    setChatSections(prev => {
+      const updated = [...prev];
+      updated[sectionIndex] = { ...updated[sectionIndex], shareId: shareId ?? undefined };
+      return updated;
+    });
+    if (user && historyId) {
+      setHistoryItems(prev => prev.map(item =>
+        item.id === historyId ? { ...item, shareId: shareId ?? undefined } : item
+      ));
+      setResearchShareId(user.uid, historyId, shareId)
+        .catch(error => console.error('Error updating share link in history:', error));
+    }
+  };
+
+  // A regenerated or re-analyzed report no longer matches its public snapshot, so
+  // that link is taken down; the new report can be shared again once it's done
+  const revokeShareLink = (sectionIndex: number) => {
+    const shareId = chatSections[sectionIndex]?.shareId;
+    if (!shareId) return;
+    revokeSharedReport(shareId).catch(error => console.error('Error revoking share link:', error));
+    updateShareId(sectionIndex, null);
+  };
+
+  // Start a fresh thread; earlier sections no longer carry into follow-ups
+  const startNewResearch = () => {
+    setChatSections([]);
+    setHasSubmitted(false);
+  };
+
+  const openResearch = (item: StoredResearch) => {
+    if (isLoading) return;
+    const { id, ...record } = item;
+    setChatSections([{ ...record, historyId: id }]);
+    setHasSubmitted(true);
+  };
+
+  const removeResearch = async (item: StoredResearch) => {
+    if (!user) return;
+    try {
+      await deleteResearch(user.uid, item.id);
+      setHistoryItems(prev => prev.filter(historyItem => historyItem.id !== item.id));
+      setChatSections(prev => prev.map(section =>
+        section.historyId === item.id ? { ...section, historyId: undefined } : section
+      ));
+    } catch (error) {
+      console.error('Error deleting research:', error);
+    }
+  };
+
+  const updateDomainOptions = (options: DomainOptions) => {
+    setDomainOptions(options);
+    if (user) {
+      const { trustedDomains, blockedDomains } = options;
+      saveSourcePreferences(user.uid, { trustedDomains, blockedDomains })
+        .catch(error => console.error('Error saving source preferences:', error));
+    }
+  };
+
+  const getIdToken = async () => user?.getIdToken();
+
+  // Dictated text is added to whatever was already typed
+  const appendTranscript = (text: string) =>
+    setInput(prev => prev.trim() ? `${prev.trimEnd()} ${text}` : text);
+
+  const queryToolbar = (
+    <>
+      <DictationButton onTranscript={appendTranscript} getIdToken={getIdToken} disabled={isLoading} />
+      <ModelSelect providers={modelProviders} value={modelOptions} onChange={setModelOptions} />
+      <DepthSelect value={researchOptions} onChange={setResearchOptions} />
+      <FreshResultsToggle value={forceRefresh} onChange={setForceRefresh} />
+      <DomainSettings value={domainOptions} onChange={updateDomainOptions} canSave={!!user} />
+      <DateFilter value={dateFilter} onChange={setDateFilter} />
+      {user && (
+        <ImageToggle open={isImageUploadOpen} attached={!!imageFile} onChange={toggleImageUpload} />
+      )}
+      {user && (
+        <DocumentAttach
+          documents={privateDocuments}
+          attachedIds={attachedDocumentIds}
+          onAttachedChange={setAttachedDocumentIds}
+          onUpload={uploadDocument}
+          onDelete={deleteDocument}
+          onAddToLibrary={(doc) => saveToLibrary({
+            id: getLibraryItemId('document', doc.id),
+            kind: 'document',
+            title: doc.name,
+            url: doc.url,
+            text: doc.text
+          })}
+          isInLibrary={(doc) => isInLibrary(getLibraryItemId('document', doc.id))}
+        />
+      )}
+      {user && (
+        <LibraryMenu
+          items={libraryItems}
+          enabled={useLibrary}
+          onEnabledChange={setUseLibrary}
+          onRemove={(item) => removeFromLibrary(item.id)}
+        />
+      )}
+      {user && quota && <QuotaBadge quota={quota} />}
+    </>
+  );
+
+  const queryAttachment = isImageUploadOpen ? <ImageUpload onImageChange={setImageFile} /> : undefined;
+
   const toggleReasoning = (index: number) => {
     setChatSections(prev => {
       const updated = [...prev];
@@ -600,8 +1029,21 @@ export default function Home() {
 
   return (
     <div className="min-h-screen bg-white">
-      <TopBar />
-      <div className="pt-14 pb-24"> {/* Add padding top to account for fixed header */}
+      <TopBar
+        onToggleHistory={() => setIsHistoryOpen(open => !open)}
+        onNewResearch={hasSubmitted && !isLoading ? startNewResearch : undefined}
+      />
+      {isHistoryOpen && (
+        <HistorySidebar
+          items={historyItems}
+          isLoading={isHistoryLoading}
+          activeId={chatSections.length === 1 ? chatSections[0].historyId : undefined}
+          onOpen={openResearch}
+          onDelete={removeResearch}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+      <div className={`pt-14 pb-24 ${isHistoryOpen ? 'lg:pl-80' : ''}`}> {/* Add padding top to account for fixed header */}
         <main className="max-w-3xl mx-auto p-8">
           <AnimatePresence>
             {!hasSubmitted ? (
@@ -620,49 +1062,23 @@ export default function Home() {
                     Do research for content in seconds, so you can spend more time going viral.
                   </p>
                 </div>
-                <form onSubmit={handleSubmit} className="w-full max-w-[704px] mx-4">
-                  <div className="relative bg-gray-50 rounded-xl shadow-md border border-gray-300">
-                    <textarea
-                      value={input}
-                      onChange={(e) => setInput(e.target.value)}
-                      placeholder="Ask a question..."
-                      className="w-full p-5 pr-32 rounded-xl border-2 border-transparent focus:border-gray-900 focus:shadow-lg focus:outline-none resize-none h-[92px] bg-gray-50 transition-all duration-200 text-black"
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter' && !e.shiftKey) {
-                          e.preventDefault();
-                          handleSubmit(e);
-                        }
-                      }}
-                    />
-                    <div className="absolute right-3 bottom-3 flex items-center gap-2">
-                      <button
-                        type="submit"
-                        disabled={isLoading}
-                        className="px-6 py-2.5 bg-gray-900 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium relative overflow-hidden group"
-                      >
-                        <span className="relative z-10">{isLoading ? 'Thinking...' : 'Send'}</span>
-                        <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent group-hover:via-white/15 translate-x-[-100%] group-hover:translate-x-[100%] transition-transform duration-1000"></div>
-                      </button>
-                    </div>
-                  </div>
-                  
-                  {/* Suggestions */}
-                  <div className="mt-4 flex flex-wrap gap-2 justify-center">
-                    {suggestions.map((suggestion) => (
-                      <button
-                        key={suggestion.label}
-                        onClick={() => handleSuggestionClick(suggestion)}
-                        className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
-                          selectedSuggestion === suggestion.label
-                            ? 'bg-gray-900 text-white'
-                            : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-                        }`}
-                      >
-                        {suggestion.label}
-                      </button>
-                    ))}
-                  </div>
-                </form>
+                <QueryForm
+                  input={input}
+                  onInputChange={setInput}
+                  onSubmit={handleSubmit}
+                  onStop={stopResearch}
+                  isLoading={isLoading}
+                  toolbar={queryToolbar}
+                  attachment={queryAttachment}
+                >
+                  <TemplatePicker
+                    value={template}
+                    onChange={setTemplate}
+                    customTemplates={customTemplates}
+                    onSaveCustom={user ? saveTemplate : undefined}
+                    onDeleteCustom={user ? deleteTemplate : undefined}
+                  />
+                </QueryForm>
               </motion.div>
             ) : (
               <motion.div 
@@ -678,10 +1094,63 @@ export default function Home() {
                       <p className="text-lg text-gray-800">
                         {section.query}
                       </p>
+                      {section.template && section.template.id !== DEFAULT_TEMPLATE.id && (
+                        <p className="mt-1 text-xs font-medium text-gray-500">{section.template.label}</p>
+                      )}
+                      {section.searchQuery && section.searchQuery !== section.query && (
+                        <p className="mt-1 text-sm text-gray-500">
+                          Searched as: {section.searchQuery}
+                        </p>
+                      )}
+                      {section.image && (
+                        <div className="mt-4 flex items-start gap-4">
+                          <a href={section.image.url} target="_blank" rel="noopener noreferrer" className="relative flex-shrink-0 w-32 h-24">
+                            <Image
+                              src={section.image.url}
+                              alt="Attached image"
+                              fill
+                              sizes="128px"
+                              className="rounded-lg object-cover border border-gray-200"
+                            />
+                          </a>
+                          {section.image.description && (
+                            <p className="text-sm text-gray-500 line-clamp-5" title={section.image.description}>
+                              {section.image.description}
+                            </p>
+                          )}
+                        </div>
+                      )}
+                      {section.instructions && (
+                        <p className="mt-1 text-sm text-gray-500">Re-analyzed: {section.instructions}</p>
+                      )}
+                      {activeSectionIndex !== index && (section.completedAt || section.isStopped || section.error) && (
+                        <div className="mt-3 flex items-center gap-4">
+                          {section.isStopped && (
+                            <span className="text-xs text-gray-500 bg-gray-100 rounded px-2 py-0.5">Stopped</span>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => regenerateSection(index)}
+                            disabled={isLoading}
+                            className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                            title="Search and write the report again"
+                          >
+                            <RotateCcw size={16} />
+                            <span>Regenerate</span>
+                          </button>
+                          {section.reasoningInput && (
+                            <ReanalyzeMenu
+                              instructions={section.instructions}
+                              onReanalyze={(instructions) => reanalyzeSection(index, instructions)}
+                              disabled={isLoading}
+                            />
+                          )}
+                        </div>
+                      )}
                     </div>
 
                     {/* Loading States */}
-                    {isLoading && (
+                    {isLoading && activeSectionIndex === index && (
                       <div className="mb-6 flex items-center gap-8 text-sm text-gray-500">
                         <motion.div 
                           initial={{ opacity: 0 }}
@@ -711,9 +1180,26 @@ export default function Home() {
                           <div className="w-2 h-2 bg-purple-500 rounded-full animate-pulse" />
                           <span>Analyzing Data</span>
                         </motion.div>
+
+                        <button
+                          type="button"
+                          onClick={stopResearch}
+                          className="ml-auto flex items-center gap-1 text-gray-600 hover:text-gray-900"
+                        >
+                          <Square size={14} />
+                          <span>Stop</span>
+                        </button>
                       </div>
                     )}
 
+                    {/* Research Steps */}
+                    {section.steps.length > 0 && (
+                      <ResearchSteps
+                        steps={section.steps}
+                        status={activeSectionIndex === index ? searchStatus : undefined}
+                      />
+                    )}
+
                     {/* Sources Loading State */}
                     {section.isLoadingSources && (
                       <div className="mb-12 animate-pulse">
@@ -749,11 +1235,17 @@ export default function Home() {
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 20H5a2 2 0 01-2-2V6a2 2 0 012-2h10a2 2 0 012 2v1m2 13a2 2 0 01-2-2V7m2 13a2 2 0 002-2V9.5a2.5 2.5 0 00-2.5-2.5H14" />
                             </svg>
                             <h3 className="text-sm font-semibold text-gray-600">Sources</h3>
+                            <SourceCount results={section.searchResults} />
+                            <CacheBadge steps={section.steps} />
                           </div>
                           <button
                             onClick={() => {
-                              setSelectedMessageData({ tavily: messages[messages.length - 1]?.fullTavilyData });
-                              setShowTavilyModal(true);
+                              setSelectedMessageData({
+                                searchData: section.searchData,
+                                reasoning: section.reasoningInput,
+                                context: section.context
+                              });
+                              setShowSearchDataModal(true);
                             }}
                             className="text-xs text-blue-600 hover:text-blue-700 flex items-center gap-1"
                           >
@@ -763,50 +1255,13 @@ export default function Home() {
                             </svg>
                           </button>
                         </div>
-                        <div className="flex gap-3 overflow-x-auto pb-4 -mx-4 px-4">
-                          {section.searchResults.map((result, idx) => (
-                            <div 
-                              key={idx}
-                              className="flex-shrink-0 w-[300px] bg-gray-50 border border-gray-200 rounded-xl overflow-hidden"
-                            >
-                              <div className="h-40 bg-gray-200 overflow-hidden relative">
-                                {result.image ? (
-                                  <>
-                                    <div className="absolute inset-0 bg-gray-200 animate-pulse" />
-                                    <Image 
-                                      src={result.image.url} 
-                                      alt={result.image.description || result.title}
-                                      className="relative z-10"
-                                      fill
-                                      style={{ objectFit: 'cover', opacity: 0, transition: 'opacity 0.3s' }}
-                                      onLoad={(e) => {
-                                        const target = e.target as HTMLImageElement;
-                                        target.style.opacity = '1';
-                                      }}
-                                    />
-                                  </>
-                                ) : (
-                                  <div className="w-full h-full flex items-center justify-center">
-                                    <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                                    </svg>
-                                  </div>
-                                )}
-                              </div>
-                              <div className="p-4">
-                                <a 
-                                  href={result.url} 
-                                  target="_blank" 
-                                  rel="noopener noreferrer" 
-                                  className="text-blue-600 hover:underline block mb-2 font-medium line-clamp-2"
-                                >
-                                  {result.title}
-                                </a>
-                                <p className="text-sm text-gray-600 line-clamp-3">{result.content}</p>
-                              </div>
-                            </div>
-                          ))}
-                        </div>
+                        <SourceCards
+                          results={section.searchResults}
+                          idPrefix={`source-${index}`}
+                          highlighted={highlightedSource?.section === index ? highlightedSource.source : undefined}
+                          onBookmark={user ? toggleBookmark : undefined}
+                          isBookmarked={(result) => isInLibrary(getLibraryItemId('source', result.url))}
+                        />
                       </div>
                     )}
 
@@ -840,7 +1295,7 @@ export default function Home() {
                           <div className="flex items-center gap-2">
                             <button
                               onClick={() => {
-                                setSelectedMessageData({ reasoning: messages[messages.length - 1]?.reasoningInput });
+                                setSelectedMessageData({ reasoning: section.reasoningInput });
                                 setShowReasoningModal(true);
                               }}
                               className="text-xs text-blue-600 hover:text-blue-700 flex items-center gap-1"
@@ -884,10 +1339,41 @@ export default function Home() {
                     {/* Final Report */}
                     {section.response && (
                       <div className="mt-12 mb-16">
-                        <StructuredResponse 
-                          content={section.response} 
+                        {section.completedAt && (
+                          <div className="flex justify-end items-center gap-4 mb-4">
+                            <ReadAloudButton content={section.response} getIdToken={getIdToken} />
+                            {user && (
+                              <LibraryButton
+                                saved={isInLibrary(getLibraryItemId('report', String(section.createdAt)))}
+                                onSave={() => saveReportToLibrary(section)}
+                              />
+                            )}
+                            {user && (
+                              <ShareButton
+                                section={section}
+                                userId={user.uid}
+                                onShareChange={(shareId) => updateShareId(index, shareId)}
+                              />
+                            )}
+                            <ExportMenu record={section} />
+                          </div>
+                        )}
+                        <TemplateResponse
+                          content={section.response}
+                          layout={section.template?.layout}
                           searchResults={section.searchResults}
+                          onCitationClick={(sourceNumber) => openSourceCard(index, sourceNumber)}
                         />
+                        {section.citations && (
+                          <CitationSummary citations={section.citations} sourceCount={section.searchResults.length} />
+                        )}
+                        {section.consensus && (
+                          <ConsensusPanel
+                            consensus={section.consensus}
+                            onCitationClick={(sourceNumber) => openSourceCard(index, sourceNumber)}
+                          />
+                        )}
+                        {section.usage && <UsageSummary usage={section.usage} />}
                       </div>
                     )}
 
@@ -895,7 +1381,7 @@ export default function Home() {
                     {section.error && (
                       <ErrorMessage 
                         message={section.error} 
-                        onRetry={() => handleSubmit({ preventDefault: () => {} } as React.FormEvent)} 
+                        onRetry={isLoading ? undefined : () => regenerateSection(index)} 
                       />
                     )}
                   </div>
@@ -909,43 +1395,26 @@ export default function Home() {
       {/* Updated floating input box styling - show immediately after first submission */}
       {hasSubmitted && (
         <div className="fixed bottom-6 left-0 right-0 flex justify-center">
-          <form onSubmit={handleSubmit} className="w-full max-w-[704px] mx-4">
-            <div className="relative bg-gray-50 rounded-xl shadow-md border border-gray-300">
-              <textarea
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                placeholder="Ask a question..."
-                className="w-full p-5 pr-32 rounded-xl border-2 border-transparent focus:border-gray-900 focus:shadow-lg focus:outline-none resize-none h-[92px] bg-gray-50 transition-all duration-200 text-black"
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter' && !e.shiftKey) {
-                    e.preventDefault();
-                    handleSubmit(e);
-                  }
-                }}
-              />
-              <div className="absolute right-3 bottom-3 flex items-center gap-2">
-                <button
-                  type="submit"
-                  disabled={isLoading}
-                  className="px-6 py-2.5 bg-gray-900 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium relative overflow-hidden group"
-                >
-                  <span className="relative z-10">{isLoading ? 'Thinking...' : 'Send'}</span>
-                  <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent group-hover:via-white/15 translate-x-[-100%] group-hover:translate-x-[100%] transition-transform duration-1000"></div>
-                </button>
-              </div>
-            </div>
-          </form>
+          <QueryForm
+            input={input}
+            onInputChange={setInput}
+            onSubmit={handleSubmit}
+            onStop={stopResearch}
+            isLoading={isLoading}
+            toolbar={queryToolbar}
+            attachment={queryAttachment}
+          />
         </div>
       )}
 
-      {/* Modal for Tavily Data */}
-      {showTavilyModal && (
+      {/* Modal for Search Data */}
+      {showSearchDataModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-lg p-6 max-w-2xl w-full max-h-[80vh] overflow-y-auto">
             <div className="flex justify-between items-center mb-4">
-              <h3 className="text-lg font-semibold text-gray-800">Full Tavily Response</h3>
+              <h3 className="text-lg font-semibold text-gray-800">Full Search Response</h3>
               <button
-                onClick={() => setShowTavilyModal(false)}
+                onClick={() => setShowSearchDataModal(false)}
                 className="text-gray-600 hover:text-gray-700"
               >
                 <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -953,9 +1422,47 @@ export default function Home() {
                 </svg>
               </button>
             </div>
-            <pre className="whitespace-pre-wrap text-sm text-gray-600 font-mono">
-              {JSON.stringify(selectedMessageData?.tavily, null, 2)}
-            </pre>
+            {selectedMessageData?.context && (
+              <div className="mb-6 space-y-2 text-sm text-gray-600">
+                <h4 className="font-semibold text-gray-700">Assembled Prompt</h4>
+                <p>
+                  ~{selectedMessageData.context.estimatedTokens.toLocaleString()} of {selectedMessageData.context.tokenBudget.toLocaleString()} tokens
+                  {' · '}{selectedMessageData.context.includedSources.length} sources included
+                  {selectedMessageData.context.trimmedSources.length > 0 && (
+                    <> ({selectedMessageData.context.trimmedSources.map(n => `[${n}]`).join(' ')} shortened)</>
+                  )}
+                </p>
+                {selectedMessageData.context.excludedSources.length > 0 && (
+                  <div>
+                    <p className="text-amber-700">Left out to fit the token budget:</p>
+                    <ul className="list-disc pl-5">
+                      {selectedMessageData.context.excludedSources.map(source => (
+                        <li key={source.source}>
+                          [{source.source}]{' '}
+                          <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-700">
+                            {source.title}
+                          </a>
+                          {' '}(~{source.estimatedTokens.toLocaleString()} tokens)
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+            {selectedMessageData?.reasoning && (
+              <pre className="whitespace-pre-wrap text-sm text-gray-600 font-mono mb-6 p-3 bg-gray-50 rounded">
+                {selectedMessageData.reasoning}
+              </pre>
+            )}
+            {selectedMessageData?.searchData && (
+              <>
+                <h4 className="text-sm font-semibold text-gray-700 mb-2">Raw Search Response</h4>
+                <pre className="whitespace-pre-wrap text-sm text-gray-600 font-mono">
+                  {JSON.stringify(selectedMessageData.searchData, null, 2)}
+                </pre>
+              </>
+            )}
           </div>
         </div>
       )}
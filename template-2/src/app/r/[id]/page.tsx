@@ -0,0 +1,117 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import CitationSummary from '@/components/CitationSummary';
+import ConsensusPanel from '@/components/ConsensusPanel';
+import SourceCards from '@/components/SourceCards';
+import TemplateResponse from '@/components/TemplateResponse';
+import { SharedReport, getSharedReport } from '@/lib/firebase/sharedReports';
+
+// Public, read-only view of a report published from the research page
+export default function SharedReportPage({ params }: { params: { id: string } }) {
+  const [report, setReport] = useState<SharedReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [highlightedSource, setHighlightedSource] = useState<number | null>(null);
+  const highlightTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    let cancelled = false;
+    getSharedReport(params.id)
+      .then(data => {
+        if (cancelled) return;
+        if (data) setReport(data);
+        else setError('This report does not exist or its link has been revoked.');
+      })
+      .catch(error => {
+        console.error('Error loading shared report:', error);
+        if (!cancelled) setError('Could not load this report.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [params.id]);
+
+  useEffect(() => () => {
+    if (highlightTimeoutRef.current) clearTimeout(highlightTimeoutRef.current);
+  }, []);
+
+  const openSourceCard = (sourceNumber: number) => {
+    document.getElementById(`source-${sourceNumber}`)?.scrollIntoView({
+      behavior: 'smooth',
+      block: 'center',
+      inline: 'center'
+    });
+    setHighlightedSource(sourceNumber);
+    if (highlightTimeoutRef.current) clearTimeout(highlightTimeoutRef.current);
+    highlightTimeoutRef.current = setTimeout(() => setHighlightedSource(null), 2500);
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="fixed top-0 left-0 right-0 h-16 bg-white border-b border-gray-200 flex items-center justify-between px-6 z-50">
+        <Link href="/" className="text-2xl font-serif text-gray-900 tracking-tight">DeepSearch</Link>
+        <span className="text-sm text-gray-500">Shared report · read-only</span>
+      </div>
+
+      <main className="max-w-3xl mx-auto px-4 pt-24 pb-16">
+        {isLoading && (
+          <div className="flex items-center gap-2 text-gray-500">
+            <div className="w-4 h-4 border-2 border-gray-300 border-t-transparent rounded-full animate-spin" />
+            <span className="text-sm">Loading report...</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="text-center py-16">
+            <p className="text-gray-700 mb-4">{error}</p>
+            <Link href="/" className="text-sm text-blue-600 hover:text-blue-700">
+              Start your own research
+            </Link>
+          </div>
+        )}
+
+        {report && (
+          <article>
+            <h1 className="text-3xl font-medium text-gray-900 mb-2">{report.query}</h1>
+            <p className="text-sm text-gray-500 mb-8">
+              Shared {format(report.sharedAt, 'PPP')}
+              {report.searchQuery && report.searchQuery !== report.query && (
+                <> · Searched as &ldquo;{report.searchQuery}&rdquo;</>
+              )}
+            </p>
+
+            {report.searchResults.length > 0 && (
+              <div className="mb-12">
+                <h2 className="text-sm font-medium text-gray-500 mb-3">
+                  {report.searchResults.length} Sources
+                </h2>
+                <SourceCards
+                  results={report.searchResults}
+                  idPrefix="source"
+                  highlighted={highlightedSource ?? undefined}
+                />
+              </div>
+            )}
+
+            <TemplateResponse
+              content={report.response}
+              layout={report.template?.layout}
+              searchResults={report.searchResults}
+              onCitationClick={openSourceCard}
+            />
+            {report.citations && (
+              <CitationSummary citations={report.citations} sourceCount={report.searchResults.length} />
+            )}
+            {report.consensus && <ConsensusPanel consensus={report.consensus} onCitationClick={openSourceCard} />}
+          </article>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { format, subDays } from 'date-fns';
+import SignInWithGoogle from '@/components/SignInWithGoogle';
+import { formatCost } from '@/components/UsageSummary';
+import { ResearchUsageEntry, getResearchUsage } from '@/lib/firebase/usage';
+import { useAuth } from '@/lib/hooks/useAuth';
+
+const RANGES = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+];
+
+interface UsageTotals {
+  runs: number;
+  tokens: number;
+  searches: number;
+  cost: number;
+}
+
+const addEntry = (totals: UsageTotals, entry: ResearchUsageEntry): UsageTotals => ({
+  runs: totals.runs + 1,
+  tokens: totals.tokens + entry.totalTokens,
+  searches: totals.searches + entry.searches,
+  cost: totals.cost + entry.cost.total,
+});
+
+const EMPTY_TOTALS: UsageTotals = { runs: 0, tokens: 0, searches: 0, cost: 0 };
+
+// What the signed-in user's research has cost, by day and by model
+export default function UsagePage() {
+  const { user, loading } = useAuth();
+  const [entries, setEntries] = useState<ResearchUsageEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [days, setDays] = useState(30);
+
+  useEffect(() => {
+    if (!user) return;
+    setIsLoading(true);
+    getResearchUsage(user.uid)
+      .then(setEntries)
+      .catch(error => {
+        console.error('Error loading usage:', error);
+        setError('Could not load usage.');
+      })
+      .finally(() => setIsLoading(false));
+  }, [user]);
+
+  const { totals, byDay, byModel } = useMemo(() => {
+    const since = subDays(new Date(), days - 1).setHours(0, 0, 0, 0);
+    const inRange = entries.filter(entry => entry.createdAt >= since);
+
+    const byDay = new Map<string, UsageTotals>();
+    for (let i = days - 1; i >= 0; i--) {
+      byDay.set(format(subDays(new Date(), i), 'yyyy-MM-dd'), EMPTY_TOTALS);
+    }
+    const byModel = new Map<string, UsageTotals>();
+    for (const entry of inRange) {
+      const day = format(entry.createdAt, 'yyyy-MM-dd');
+      byDay.set(day, addEntry(byDay.get(day) ?? EMPTY_TOTALS, entry));
+      byModel.set(entry.model, addEntry(byModel.get(entry.model) ?? EMPTY_TOTALS, entry));
+    }
+
+    return {
+      totals: inRange.reduce(addEntry, EMPTY_TOTALS),
+      byDay: Array.from(byDay.entries()),
+      byModel: Array.from(byModel.entries()).sort((a, b) => b[1].cost - a[1].cost),
+    };
+  }, [entries, days]);
+
+  const maxDayCost = Math.max(...byDay.map(([, day]) => day.cost), 0);
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="fixed top-0 left-0 right-0 h-16 bg-white border-b border-gray-200 flex items-center justify-between px-6 z-50">
+        <Link href="/" className="text-2xl font-serif text-gray-900 tracking-tight">DeepSearch</Link>
+        <span className="text-sm text-gray-500">Usage</span>
+      </div>
+
+      <main className="max-w-4xl mx-auto px-4 pt-24 pb-16">
+        {!loading && !user ? (
+          <div className="text-center py-16 space-y-4">
+            <p className="text-gray-700">Sign in to see what your research has cost.</p>
+            <div className="flex justify-center"><SignInWithGoogle /></div>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between mb-8">
+              <h1 className="text-2xl font-medium text-gray-900">Research usage</h1>
+              <select
+                value={days}
+                onChange={(e) => setDays(Number(e.target.value))}
+                aria-label="Time range"
+                className="px-2 py-2 bg-transparent border border-gray-300 rounded-lg text-sm text-gray-600 focus:outline-none focus:border-gray-900"
+              >
+                {RANGES.map(range => (
+                  <option key={range.days} value={range.days}>Last {range.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {error && <p className="text-sm text-red-600 mb-6">{error}</p>}
+
+            {isLoading ? (
+              <div className="grid grid-cols-4 gap-4 animate-pulse">
+                {[1, 2, 3, 4].map(idx => <div key={idx} className="h-20 bg-gray-100 rounded-lg" />)}
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-10">
+                  {[
+                    { label: 'Research runs', value: totals.runs.toLocaleString() },
+                    { label: 'Tokens', value: totals.tokens.toLocaleString() },
+                    { label: 'Searches', value: totals.searches.toLocaleString() },
+                    { label: 'Estimated cost', value: formatCost(totals.cost) },
+                  ].map(stat => (
+                    <div key={stat.label} className="p-4 border border-gray-200 rounded-lg">
+                      <p className="text-xs text-gray-500">{stat.label}</p>
+                      <p className="mt-1 text-xl font-medium text-gray-900">{stat.value}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <h2 className="text-sm font-semibold text-gray-600 mb-3">Cost per day</h2>
+                <div className="flex items-end gap-px h-32 mb-2 border-b border-gray-200">
+                  {byDay.map(([day, usage]) => (
+                    <div
+                      key={day}
+                      className="flex-1 bg-gray-800 hover:bg-blue-600 rounded-t-sm min-h-[1px]"
+                      style={{ height: maxDayCost > 0 ? `${(usage.cost / maxDayCost) * 100}%` : '1px' }}
+                      title={`${format(new Date(`${day}T00:00:00`), 'PP')}: ${usage.runs} runs, ${usage.tokens.toLocaleString()} tokens, ${formatCost(usage.cost)}`}
+                    />
+                  ))}
+                </div>
+                <div className="flex justify-between text-xs text-gray-400 mb-10">
+                  <span>{byDay.length > 0 && format(new Date(`${byDay[0][0]}T00:00:00`), 'MMM d')}</span>
+                  <span>Today</span>
+                </div>
+
+                <h2 className="text-sm font-semibold text-gray-600 mb-3">By model</h2>
+                {byModel.length === 0 ? (
+                  <p className="text-sm text-gray-500">No research in this period.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                        <th className="py-2 font-medium">Model</th>
+                        <th className="py-2 font-medium text-right">Runs</th>
+                        <th className="py-2 font-medium text-right">Tokens</th>
+                        <th className="py-2 font-medium text-right">Searches</th>
+                        <th className="py-2 font-medium text-right">Cost</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {byModel.map(([model, usage]) => (
+                        <tr key={model} className="border-b border-gray-100 text-gray-700">
+                          <td className="py-2">{model}</td>
+                          <td className="py-2 text-right">{usage.runs}</td>
+                          <td className="py-2 text-right">{usage.tokens.toLocaleString()}</td>
+                          <td className="py-2 text-right">{usage.searches}</td>
+                          <td className="py-2 text-right">{formatCost(usage.cost)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                <p className="mt-6 text-xs text-gray-400">
+                  Costs are estimates from the configured price table; cached searches are free.
+                </p>
+              </>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { CitationAnalysis } from '../lib/research/types';
+
+export default function CitationSummary({ citations, sourceCount }: { citations: CitationAnalysis, sourceCount: number }) {
+  return (
+    <div className="mt-8 text-sm text-gray-500 space-y-2">
+      <p>
+        {citations.claims.length} cited {citations.claims.length === 1 ? 'claim' : 'claims'} drawing on {citations.citedSources.length} of {sourceCount} sources
+      </p>
+      {citations.invalidSources.length > 0 && (
+        <p className="px-3 py-2 rounded-lg bg-red-50 border border-red-200 text-red-700">
+          Some citations point at sources that don&apos;t exist or weren&apos;t given to the model: {citations.invalidSources.map(n => `[Source ${n}]`).join(', ')}. Treat the claims they support with caution.
+        </p>
+      )}
+    </div>
+  );
+}
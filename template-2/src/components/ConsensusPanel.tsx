@@ -0,0 +1,69 @@
+import { ConsensusAnalysis, ConsensusClaim } from '../lib/research/types';
+
+const GROUPS: { status: ConsensusClaim['status']; label: string; dot: string }[] = [
+  { status: 'agreed', label: 'Sources agree', dot: 'bg-green-500' },
+  { status: 'disputed', label: 'Sources disagree', dot: 'bg-amber-500' },
+  { status: 'uncorroborated', label: 'Single source only', dot: 'bg-gray-400' },
+];
+
+const SourceLinks = ({ sources, onCitationClick }: { sources: number[], onCitationClick?: (sourceNumber: number) => void }) => (
+  <>
+    {sources.map(n => (
+      <button
+        key={n}
+        onClick={() => onCitationClick?.(n)}
+        className="ml-1 px-1.5 py-0.5 rounded bg-gray-100 text-xs text-gray-600 hover:bg-gray-200"
+      >
+        {n}
+      </button>
+    ))}
+  </>
+);
+
+export default function ConsensusPanel({
+  consensus,
+  onCitationClick
+}: {
+  consensus: ConsensusAnalysis,
+  onCitationClick?: (sourceNumber: number) => void
+}) {
+  if (consensus.claims.length === 0) return null;
+
+  return (
+    <div className="mt-10 border border-gray-200 rounded-xl p-6">
+      <h3 className="text-sm font-semibold text-gray-600 mb-4">Consensus &amp; Disputes</h3>
+      <div className="space-y-6">
+        {GROUPS.map(group => {
+          const claims = consensus.claims.filter(claim => claim.status === group.status);
+          if (claims.length === 0) return null;
+          return (
+            <div key={group.status}>
+              <div className="flex items-center gap-2 mb-2">
+                <span className={`w-2 h-2 rounded-full ${group.dot}`} />
+                <h4 className="text-xs font-medium uppercase tracking-wide text-gray-500">{group.label}</h4>
+              </div>
+              <ul className="space-y-3 pl-4">
+                {claims.map((claim, idx) => (
+                  <li key={idx} className="text-sm text-gray-700">
+                    <p>{claim.claim}</p>
+                    <p className="mt-1 text-xs text-gray-500">
+                      Supported by
+                      {claim.supporting.length > 0 ? <SourceLinks sources={claim.supporting} onCitationClick={onCitationClick} /> : ' none'}
+                      {claim.contradicting.length > 0 && (
+                        <>
+                          <span className="ml-3">Contradicted by</span>
+                          <SourceLinks sources={claim.contradicting} onCitationClick={onCitationClick} />
+                        </>
+                      )}
+                    </p>
+                    {claim.note && <p className="mt-1 text-xs text-gray-500 italic">{claim.note}</p>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
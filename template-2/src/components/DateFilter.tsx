@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Calendar } from "lucide-react";
+import { SearchTopic } from "../lib/search/types";
+
+export interface DateFilterOptions {
+  topic?: SearchTopic;
+  days?: number;
+  startDate?: string;
+  endDate?: string;
+}
+
+const RANGES: { label: string; days?: number }[] = [
+  { label: "Any time" },
+  { label: "Past day", days: 1 },
+  { label: "Past week", days: 7 },
+  { label: "Past month", days: 31 },
+  { label: "Past year", days: 365 },
+];
+
+interface DateFilterProps {
+  value: DateFilterOptions;
+  onChange: (value: DateFilterOptions) => void;
+}
+
+export default function DateFilter({ value, onChange }: DateFilterProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const isCustom = !!(value.startDate || value.endDate);
+  const rangeLabel = isCustom
+    ? `${value.startDate ?? "…"} – ${value.endDate ?? "now"}`
+    : RANGES.find((range) => range.days === value.days)?.label ?? "Any time";
+  const isActive = !!(value.topic || value.days || isCustom);
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className={`px-2 py-2.5 border rounded-lg text-sm flex items-center gap-1 focus:outline-none ${
+          isActive ? "border-gray-900 text-gray-900" : "border-gray-300 text-gray-600"
+        }`}
+        aria-label="Date filter"
+      >
+        <Calendar size={14} />
+        <span>
+          {value.topic === "news" ? "News · " : ""}
+          {rangeLabel}
+        </span>
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 bottom-full mb-2 w-72 bg-white border border-gray-200 rounded-lg shadow-lg z-40 p-4 space-y-3">
+          <div className="flex flex-wrap gap-1">
+            {RANGES.map((range) => (
+              <button
+                key={range.label}
+                type="button"
+                onClick={() => onChange({ topic: value.topic, days: range.days })}
+                className={`px-2 py-1 text-xs rounded border ${
+                  !isCustom && range.days === value.days
+                    ? "border-gray-900 text-gray-900"
+                    : "border-gray-200 text-gray-600 hover:border-gray-400"
+                }`}
+              >
+                {range.label}
+              </button>
+            ))}
+          </div>
+          <div>
+            <span className="text-xs font-medium text-gray-700">Custom range</span>
+            <div className="mt-1 flex items-center gap-2">
+              <input
+                type="date"
+                value={value.startDate ?? ""}
+                max={value.endDate || today}
+                onChange={(e) => onChange({ topic: value.topic, startDate: e.target.value || undefined, endDate: value.endDate })}
+                aria-label="From date"
+                className="flex-1 px-2 py-1 text-xs text-gray-700 border border-gray-200 rounded focus:outline-none focus:border-gray-900"
+              />
+              <span className="text-xs text-gray-400">to</span>
+              <input
+                type="date"
+                value={value.endDate ?? ""}
+                min={value.startDate}
+                max={today}
+                onChange={(e) => onChange({ topic: value.topic, startDate: value.startDate, endDate: e.target.value || undefined })}
+                aria-label="To date"
+                className="flex-1 px-2 py-1 text-xs text-gray-700 border border-gray-200 rounded focus:outline-none focus:border-gray-900"
+              />
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={value.topic === "news"}
+              onChange={(e) => onChange({ ...value, topic: e.target.checked ? "news" : undefined })}
+            />
+            Search news sources
+          </label>
+          <p className="text-xs text-gray-400">Sources with a known publish date outside the range are left out.</p>
+        </div>
+      )}
+    </div>
+  );
+}
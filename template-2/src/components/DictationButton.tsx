@@ -0,0 +1,120 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Loader2, Mic } from "lucide-react";
+import { transcribeAudio } from "../lib/voice/client";
+
+interface DictationButtonProps {
+  onTranscript: (text: string) => void;
+  getIdToken: () => Promise<string | undefined>;
+  disabled?: boolean;
+}
+
+// Shorter presses are taken as accidental clicks
+const MIN_RECORDING_MS = 300;
+
+// Push-to-talk: records while the button is held, then fills the transcript into the query
+export default function DictationButton({ onTranscript, getIdToken, disabled }: DictationButtonProps) {
+  const [state, setState] = useState<"idle" | "recording" | "transcribing">("idle");
+  const [error, setError] = useState<string | null>(null);
+  const holdingRef = useRef(false);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+
+  useEffect(() => () => {
+    holdingRef.current = false;
+    recorderRef.current?.stream.getTracks().forEach((track) => track.stop());
+  }, []);
+
+  const startRecording = async () => {
+    if (disabled || state !== "idle" || holdingRef.current) return;
+    holdingRef.current = true;
+    setError(null);
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (error) {
+      console.error("Error accessing microphone:", error);
+      holdingRef.current = false;
+      setError("Allow microphone access to dictate");
+      return;
+    }
+    // Released while the browser was asking for permission
+    if (!holdingRef.current) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    recorder.onstop = async () => {
+      stream.getTracks().forEach((track) => track.stop());
+      recorderRef.current = null;
+      if (Date.now() - startedAt < MIN_RECORDING_MS) {
+        setState("idle");
+        return;
+      }
+
+      setState("transcribing");
+      try {
+        const text = await transcribeAudio(new Blob(chunks, { type: recorder.mimeType }), await getIdToken());
+        if (text) onTranscript(text);
+        else setError("Didn't catch that. Hold the button while you speak.");
+      } catch (error) {
+        console.error("Error transcribing recording:", error);
+        setError(error instanceof Error ? error.message : "Could not transcribe the recording");
+      } finally {
+        setState("idle");
+      }
+    };
+    recorderRef.current = recorder;
+    recorder.start();
+    setState("recording");
+  };
+
+  const stopRecording = () => {
+    holdingRef.current = false;
+    if (recorderRef.current?.state === "recording") recorderRef.current.stop();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onPointerDown={startRecording}
+        onPointerUp={stopRecording}
+        onPointerLeave={stopRecording}
+        onKeyDown={(e) => {
+          if ((e.key === " " || e.key === "Enter") && !e.repeat) {
+            e.preventDefault();
+            startRecording();
+          }
+        }}
+        onKeyUp={(e) => {
+          if (e.key === " " || e.key === "Enter") stopRecording();
+        }}
+        disabled={disabled || state === "transcribing"}
+        aria-pressed={state === "recording"}
+        aria-label="Hold to dictate"
+        title="Hold to dictate your question"
+        className={`px-2 py-2.5 border rounded-lg text-sm flex items-center gap-1 focus:outline-none select-none touch-none disabled:opacity-50 ${
+          state === "recording" ? "border-red-500 text-red-600" : "border-gray-300 text-gray-600"
+        }`}
+      >
+        {state === "transcribing" ? (
+          <Loader2 size={14} className="animate-spin" />
+        ) : (
+          <Mic size={14} className={state === "recording" ? "animate-pulse" : ""} />
+        )}
+        <span>{state === "recording" ? "Listening" : "Talk"}</span>
+      </button>
+      {error && (
+        <div className="absolute left-0 bottom-full mb-2 w-60 bg-white border border-gray-200 rounded-lg shadow-lg z-40 p-2 text-xs text-red-600">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { BookOpen, FileText, Paperclip, Trash2 } from "lucide-react";
+import { ACCEPTED_DOCUMENT_TYPES, MAX_ATTACHED_DOCUMENTS } from "../lib/documents";
+import { StoredDocument } from "../lib/firebase/documents";
+
+interface DocumentAttachProps {
+  documents: StoredDocument[];
+  attachedIds: string[];
+  onAttachedChange: (ids: string[]) => void;
+  onUpload: (file: File) => Promise<void>;
+  onDelete: (document: StoredDocument) => Promise<void>;
+  // Index a document into the user's library so later research can find it without attaching it
+  onAddToLibrary: (document: StoredDocument) => Promise<void>;
+  isInLibrary: (document: StoredDocument) => boolean;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export default function DocumentAttach({
+  documents,
+  attachedIds,
+  onAttachedChange,
+  onUpload,
+  onDelete,
+  onAddToLibrary,
+  isInLibrary,
+}: DocumentAttachProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsUploading(true);
+    setError(null);
+    for (const file of Array.from(files)) {
+      try {
+        await onUpload(file);
+      } catch (error) {
+        console.error("Error uploading document:", error);
+        setError(error instanceof Error ? error.message : `Could not upload ${file.name}`);
+      }
+    }
+    setIsUploading(false);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const toggle = (id: string) =>
+    onAttachedChange(attachedIds.includes(id) ? attachedIds.filter((item) => item !== id) : [...attachedIds, id]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className={`px-2 py-2.5 border rounded-lg text-sm flex items-center gap-1 focus:outline-none ${
+          attachedIds.length > 0 ? "border-gray-900 text-gray-900" : "border-gray-300 text-gray-600"
+        }`}
+        aria-label="Attach documents"
+      >
+        <Paperclip size={14} />
+        <span>Docs{attachedIds.length > 0 ? ` (${attachedIds.length})` : ""}</span>
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 bottom-full mb-2 w-80 bg-white border border-gray-200 rounded-lg shadow-lg z-40 p-4 space-y-3">
+          <p className="text-xs text-gray-500">
+            Attached documents are searched alongside the web. Their contents are never sent to the search provider.
+          </p>
+          {documents.length > 0 && (
+            <ul className="max-h-56 overflow-y-auto space-y-1">
+              {documents.map((doc) => {
+                const attached = attachedIds.includes(doc.id);
+                return (
+                  <li key={doc.id} className="flex items-center gap-2 group">
+                    <label className="flex-1 min-w-0 flex items-center gap-2 text-xs text-gray-700 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={attached}
+                        disabled={!attached && attachedIds.length >= MAX_ATTACHED_DOCUMENTS}
+                        onChange={() => toggle(doc.id)}
+                      />
+                      <FileText size={12} className="flex-shrink-0 text-gray-400" />
+                      <span className="truncate" title={doc.name}>{doc.name}</span>
+                      <span className="flex-shrink-0 text-gray-400">{formatSize(doc.size)}</span>
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => onAddToLibrary(doc).catch((error) => {
+                        console.error("Error adding document to library:", error);
+                        setError(`Could not add ${doc.name} to the library`);
+                      })}
+                      className={isInLibrary(doc) ? "text-gray-900" : "hidden group-hover:block text-gray-400 hover:text-gray-900"}
+                      title={isInLibrary(doc) ? "In your library; click to re-index" : "Add to library"}
+                      aria-label={`Add ${doc.name} to library`}
+                    >
+                      <BookOpen size={12} />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        if (attached) toggle(doc.id);
+                        onDelete(doc).catch((error) => console.error("Error deleting document:", error));
+                      }}
+                      className="hidden group-hover:block text-gray-400 hover:text-red-600"
+                      aria-label={`Delete ${doc.name}`}
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-400">PDF, Word or text, up to 10 MB</span>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+              className="px-3 py-1.5 bg-gray-900 text-white text-xs rounded-lg hover:bg-gray-800 disabled:opacity-50"
+            >
+              {isUploading ? "Uploading..." : "Upload"}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_DOCUMENT_TYPES}
+              multiple
+              onChange={(e) => handleFiles(e.target.files)}
+              className="hidden"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
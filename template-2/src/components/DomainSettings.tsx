@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Globe } from "lucide-react";
+import { normalizeDomain } from "../lib/search/domains";
+
+export interface DomainOptions {
+  includeDomains: string[];
+  excludeDomains: string[];
+  trustedDomains: string[];
+  blockedDomains: string[];
+}
+
+const FIELDS: { key: keyof DomainOptions; label: string; hint: string }[] = [
+  { key: "includeDomains", label: "Only search", hint: "This search only" },
+  { key: "excludeDomains", label: "Leave out", hint: "This search only" },
+  { key: "trustedDomains", label: "Trusted", hint: "Always rated high credibility" },
+  { key: "blockedDomains", label: "Blocked", hint: "Never shown" },
+];
+
+const toDrafts = (value: DomainOptions): Record<keyof DomainOptions, string> => ({
+  includeDomains: value.includeDomains.join("\n"),
+  excludeDomains: value.excludeDomains.join("\n"),
+  trustedDomains: value.trustedDomains.join("\n"),
+  blockedDomains: value.blockedDomains.join("\n"),
+});
+
+const parseDomains = (text: string) =>
+  Array.from(new Set(text.split(/[\s,]+/).map(normalizeDomain).filter(Boolean) as string[]));
+
+interface DomainSettingsProps {
+  value: DomainOptions;
+  onChange: (value: DomainOptions) => void;
+  // Trusted and blocked lists are saved to the user's profile when signed in
+  canSave: boolean;
+}
+
+export default function DomainSettings({ value, onChange, canSave }: DomainSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [drafts, setDrafts] = useState(() => toDrafts(value));
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  // Drafts start from the current lists each time the panel opens
+  const toggleOpen = () => {
+    if (!isOpen) setDrafts(toDrafts(value));
+    setIsOpen(!isOpen);
+  };
+
+  const activeCount = FIELDS.reduce((sum, field) => sum + value[field.key].length, 0);
+
+  const handleApply = () => {
+    onChange({
+      includeDomains: parseDomains(drafts.includeDomains),
+      excludeDomains: parseDomains(drafts.excludeDomains),
+      trustedDomains: parseDomains(drafts.trustedDomains),
+      blockedDomains: parseDomains(drafts.blockedDomains),
+    });
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={toggleOpen}
+        className={`px-2 py-2.5 border rounded-lg text-sm flex items-center gap-1 focus:outline-none ${
+          activeCount > 0 ? "border-gray-900 text-gray-900" : "border-gray-300 text-gray-600"
+        }`}
+        aria-label="Source domains"
+      >
+        <Globe size={14} />
+        <span>Domains{activeCount > 0 ? ` (${activeCount})` : ""}</span>
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 bottom-full mb-2 w-80 bg-white border border-gray-200 rounded-lg shadow-lg z-40 p-4 space-y-3">
+          {FIELDS.map((field) => (
+            <label key={field.key} className="block">
+              <span className="text-xs font-medium text-gray-700">{field.label}</span>
+              <span className="ml-2 text-xs text-gray-400">{field.hint}</span>
+              <textarea
+                value={drafts[field.key]}
+                onChange={(e) => setDrafts((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                rows={2}
+                placeholder="example.com"
+                className="mt-1 w-full px-2 py-1.5 text-xs text-gray-700 border border-gray-200 rounded focus:outline-none focus:border-gray-900"
+              />
+            </label>
+          ))}
+          {!canSave && (
+            <p className="text-xs text-gray-400">Sign in to keep trusted and blocked domains between visits.</p>
+          )}
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={handleApply}
+              className="px-3 py-1.5 bg-gray-900 text-white text-xs rounded-lg hover:bg-gray-800"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
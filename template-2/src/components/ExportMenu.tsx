@@ -0,0 +1,75 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Download } from "lucide-react";
+import { ReportFormat, exportReport } from "../lib/export";
+import { ResearchRecord } from "../lib/research/types";
+
+const FORMATS: { format: ReportFormat; label: string }[] = [
+  { format: "markdown", label: "Markdown (.md)" },
+  { format: "pdf", label: "PDF (.pdf)" },
+  { format: "docx", label: "Word (.docx)" },
+  { format: "print", label: "Print" },
+];
+
+export default function ExportMenu({ record }: { record: ResearchRecord }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [includeReasoning, setIncludeReasoning] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const handleExport = async (format: ReportFormat) => {
+    setIsExporting(true);
+    try {
+      await exportReport(record, format, { includeReasoning });
+      setIsOpen(false);
+    } catch (error) {
+      console.error("Error exporting report:", error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative inline-block">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900"
+      >
+        <Download size={14} />
+        <span>Export</span>
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-56 bg-white border border-gray-200 rounded-lg shadow-lg z-40 py-2">
+          {FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={isExporting}
+              className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {label}
+            </button>
+          ))}
+          <label className="flex items-center gap-2 px-4 pt-2 mt-1 border-t border-gray-100 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={includeReasoning}
+              onChange={(e) => setIncludeReasoning(e.target.checked)}
+            />
+            Include reasoning appendix
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { History, Trash2, X } from "lucide-react";
+import { StoredResearch } from "../lib/firebase/researchHistory";
+
+interface HistorySidebarProps {
+  items: StoredResearch[];
+  isLoading: boolean;
+  activeId?: string;
+  onOpen: (item: StoredResearch) => void;
+  onDelete: (item: StoredResearch) => void;
+  onClose: () => void;
+}
+
+export default function HistorySidebar({
+  items,
+  isLoading,
+  activeId,
+  onOpen,
+  onDelete,
+  onClose,
+}: HistorySidebarProps) {
+  return (
+    <aside className="fixed top-16 left-0 bottom-0 w-80 bg-white border-r border-gray-200 z-40 flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div className="flex items-center gap-2 text-gray-700">
+          <History size={18} />
+          <h2 className="text-sm font-semibold">Research History</h2>
+        </div>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700" aria-label="Close history">
+          <X size={18} />
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto">
+        {isLoading ? (
+          <div className="p-4 space-y-3 animate-pulse">
+            {[1, 2, 3].map((idx) => (
+              <div key={idx} className="h-12 bg-gray-100 rounded-lg" />
+            ))}
+          </div>
+        ) : items.length === 0 ? (
+          <p className="p-4 text-sm text-gray-500">No saved research yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {items.map((item) => (
+              <li
+                key={item.id}
+                className={`group flex items-start gap-2 px-4 py-3 hover:bg-gray-50 ${
+                  item.id === activeId ? "bg-gray-50" : ""
+                }`}
+              >
+                <button onClick={() => onOpen(item)} className="flex-1 text-left min-w-0">
+                  <p className="text-sm text-gray-800 line-clamp-2">{item.query}</p>
+                  <p className="mt-1 text-xs text-gray-400">
+                    {formatDistanceToNow(item.createdAt, { addSuffix: true })} · {item.searchResults.length} sources
+                  </p>
+                </button>
+                <button
+                  onClick={() => onDelete(item)}
+                  className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-600 transition-opacity"
+                  aria-label="Delete research"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </aside>
+  );
+}
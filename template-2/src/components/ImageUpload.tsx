@@ -1,6 +1,9 @@
+"use client";
+
 import React, { useState, useRef } from "react";
 import { Image as ImageIcon, X } from "lucide-react";
 import Image from "next/image";
+import { ACCEPTED_IMAGE_TYPES, MAX_IMAGE_BYTES } from "../lib/research/image";
 
 interface ImageUploadProps {
   onImageChange: (file: File | null) => void;
@@ -8,18 +11,37 @@ interface ImageUploadProps {
 
 export default function ImageUpload({ onImageChange }: ImageUploadProps) {
   const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      onImageChange(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+  const selectImage = (file: File | undefined) => {
+    if (!file) return;
+    if (!ACCEPTED_IMAGE_TYPES.split(",").includes(file.type)) {
+      setError("Use a PNG, JPG, GIF or WebP image");
+      return;
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+      setError("Images must be 5 MB or smaller");
+      return;
     }
+    setError(null);
+    onImageChange(file);
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      setImagePreview(reader.result as string);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    selectImage(e.target.files?.[0]);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    selectImage(e.dataTransfer.files?.[0]);
   };
 
   const removeImage = () => {
@@ -33,18 +55,18 @@ export default function ImageUpload({ onImageChange }: ImageUploadProps) {
   return (
     <div className="flex items-center justify-center w-full">
       {imagePreview ? (
-        <div className="relative w-full h-64">
+        <div className="relative w-full h-40">
           <Image
             src={imagePreview}
             alt="Preview"
-            layout="fill"
-            objectFit="cover"
-            className="rounded-lg"
+            fill
+            className="rounded-lg object-contain bg-gray-50"
           />
           <button
             type="button"
             onClick={removeImage}
             className="absolute top-2 right-2 bg-red-500 text-white p-1 rounded-full"
+            aria-label="Remove image"
           >
             <X size={20} />
           </button>
@@ -52,21 +74,31 @@ export default function ImageUpload({ onImageChange }: ImageUploadProps) {
       ) : (
         <label
           htmlFor="image"
-          className="flex flex-col items-center justify-center w-full h-64 border-2 border-gray-300 border-dashed rounded-lg cursor-pointer bg-gray-50 hover:bg-gray-100"
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`flex flex-col items-center justify-center w-full h-40 border-2 border-dashed rounded-lg cursor-pointer hover:bg-gray-100 ${
+            isDragging ? "border-gray-900 bg-gray-100" : "border-gray-300 bg-gray-50"
+          }`}
         >
           <div className="flex flex-col items-center justify-center pt-5 pb-6">
             <ImageIcon className="w-10 h-10 mb-3 text-gray-400" />
             <p className="mb-2 text-sm text-gray-500">
               <span className="font-semibold">Click to upload</span> or drag and drop
             </p>
-            <p className="text-xs text-gray-500">PNG, JPG or GIF (MAX. 800x400px)</p>
+            <p className={`text-xs ${error ? "text-red-600" : "text-gray-500"}`}>
+              {error || "A chart, screenshot or photo: PNG, JPG, GIF or WebP, up to 5 MB"}
+            </p>
           </div>
         </label>
       )}
       <input
         type="file"
         id="image"
-        accept="image/*"
+        accept={ACCEPTED_IMAGE_TYPES}
         onChange={handleImageChange}
         className="hidden"
         ref={fileInputRef}
@@ -0,0 +1,44 @@
+"use client";
+
+import { useState } from "react";
+import { BookmarkCheck, BookmarkPlus } from "lucide-react";
+
+interface LibraryButtonProps {
+  saved: boolean;
+  onSave: () => Promise<void>;
+  label?: string;
+}
+
+// Adds something to the user's library; saving again re-indexes it
+export default function LibraryButton({ saved, onSave, label = "Save to library" }: LibraryButtonProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState(false);
+
+  const handleClick = async () => {
+    setIsSaving(true);
+    setError(false);
+    try {
+      await onSave();
+    } catch (error) {
+      console.error("Error saving to library:", error);
+      setError(true);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={isSaving}
+      title={error ? "Could not save to the library" : saved ? "In your library; click to update it" : label}
+      className={`flex items-center gap-1 text-sm disabled:opacity-50 ${
+        error ? "text-red-600" : saved ? "text-gray-900" : "text-gray-600 hover:text-gray-900"
+      }`}
+    >
+      {saved ? <BookmarkCheck size={16} /> : <BookmarkPlus size={16} />}
+      <span>{isSaving ? "Saving..." : saved ? "In library" : label}</span>
+    </button>
+  );
+}
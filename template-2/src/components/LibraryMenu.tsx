@@ -0,0 +1,88 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { BookOpen, Bookmark, FileText, ScrollText, Trash2 } from "lucide-react";
+import { LibraryItem } from "../lib/knowledge/types";
+
+const KIND_ICONS = {
+  report: ScrollText,
+  document: FileText,
+  source: Bookmark,
+};
+
+interface LibraryMenuProps {
+  items: LibraryItem[];
+  // Retrieve from the library alongside the web in the next research run
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  onRemove: (item: LibraryItem) => Promise<void>;
+}
+
+export default function LibraryMenu({ items, enabled, onEnabledChange, onRemove }: LibraryMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className={`px-2 py-2.5 border rounded-lg text-sm flex items-center gap-1 focus:outline-none ${
+          enabled ? "border-gray-900 text-gray-900" : "border-gray-300 text-gray-600"
+        }`}
+        aria-label="Library"
+      >
+        <BookOpen size={14} />
+        <span>Library{enabled ? " on" : ""}</span>
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 bottom-full mb-2 w-80 bg-white border border-gray-200 rounded-lg shadow-lg z-40 p-4 space-y-3">
+          <label className="flex items-center gap-2 text-xs font-medium text-gray-700">
+            <input type="checkbox" checked={enabled} onChange={(e) => onEnabledChange(e.target.checked)} />
+            Search our library as well as the web
+          </label>
+          {items.length === 0 ? (
+            <p className="text-xs text-gray-400">
+              Nothing saved yet. Save reports, bookmark sources or add uploaded documents to build the library.
+            </p>
+          ) : (
+            <ul className="max-h-64 overflow-y-auto space-y-1">
+              {items.map((item) => {
+                const Icon = KIND_ICONS[item.kind];
+                return (
+                  <li key={item.id} className="flex items-center gap-2 group text-xs text-gray-700">
+                    <Icon size={12} className="flex-shrink-0 text-gray-400" />
+                    {item.url ? (
+                      <a href={item.url} target="_blank" rel="noopener noreferrer" className="flex-1 truncate hover:underline" title={item.title}>
+                        {item.title}
+                      </a>
+                    ) : (
+                      <span className="flex-1 truncate" title={item.title}>{item.title}</span>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => onRemove(item).catch((error) => console.error("Error removing library item:", error))}
+                      className="hidden group-hover:block text-gray-400 hover:text-red-600"
+                      aria-label={`Remove ${item.title}`}
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Loader2, Square, Volume2 } from "lucide-react";
+import { synthesizeSpeech } from "../lib/voice/client";
+import { splitSpeechChunks, toSpeechText } from "../lib/voice/speech";
+
+interface ReadAloudButtonProps {
+  // The report's markdown
+  content: string;
+  getIdToken: () => Promise<string | undefined>;
+}
+
+interface Playback {
+  abort: AbortController;
+  audio: HTMLAudioElement;
+  urls: string[];
+}
+
+// Reads a report aloud a chunk at a time, fetching the next chunk's audio while the current one plays
+export default function ReadAloudButton({ content, getIdToken }: ReadAloudButtonProps) {
+  const [state, setState] = useState<"idle" | "loading" | "playing">("idle");
+  const [progress, setProgress] = useState({ current: 0, total: 0 });
+  const [error, setError] = useState<string | null>(null);
+  const playbackRef = useRef<Playback | null>(null);
+
+  const stop = () => {
+    const playback = playbackRef.current;
+    if (!playback) return;
+    playbackRef.current = null;
+    playback.abort.abort();
+    playback.audio.pause();
+    playback.urls.forEach((url) => URL.revokeObjectURL(url));
+    setState("idle");
+  };
+
+  // Stop playback when the report goes away
+  useEffect(() => () => {
+    const playback = playbackRef.current;
+    playbackRef.current = null;
+    playback?.abort.abort();
+    playback?.audio.pause();
+    playback?.urls.forEach((url) => URL.revokeObjectURL(url));
+  }, []);
+
+  const play = async () => {
+    const chunks = splitSpeechChunks(toSpeechText(content));
+    if (chunks.length === 0) return;
+
+    const playback: Playback = { abort: new AbortController(), audio: new Audio(), urls: [] };
+    playbackRef.current = playback;
+    const { abort, audio } = playback;
+    setError(null);
+    setState("loading");
+
+    try {
+      const idToken = await getIdToken();
+      const fetchChunk = async (index: number) => {
+        const url = URL.createObjectURL(await synthesizeSpeech(chunks[index], index, idToken, abort.signal));
+        playback.urls.push(url);
+        return url;
+      };
+
+      let next = fetchChunk(0);
+      for (let i = 0; i < chunks.length; i++) {
+        setProgress({ current: i + 1, total: chunks.length });
+        const url = await next;
+        if (abort.signal.aborted) return;
+        if (i + 1 < chunks.length) {
+          next = fetchChunk(i + 1);
+          // Awaited on the next pass; this only keeps an early failure from being reported as unhandled
+          next.catch(() => undefined);
+        }
+
+        setState("playing");
+        audio.src = url;
+        await new Promise<void>((resolve, reject) => {
+          audio.onended = () => resolve();
+          audio.onerror = () => reject(new Error("Could not play the audio"));
+          abort.signal.addEventListener("abort", () => resolve());
+          audio.play().catch(reject);
+        });
+        if (abort.signal.aborted) return;
+        setState("loading");
+      }
+    } catch (error) {
+      if (!abort.signal.aborted) {
+        console.error("Error reading report aloud:", error);
+        setError(error instanceof Error ? error.message : "Could not read the report aloud");
+      }
+    } finally {
+      if (playbackRef.current === playback) stop();
+    }
+  };
+
+  const isActive = state !== "idle";
+  return (
+    <button
+      type="button"
+      onClick={isActive ? stop : play}
+      title={error ?? (isActive ? "Stop reading" : "Read the report aloud")}
+      className={`flex items-center gap-1 text-sm ${error ? "text-red-600" : "text-gray-600 hover:text-gray-900"}`}
+    >
+      {state === "loading" ? (
+        <Loader2 size={16} className="animate-spin" />
+      ) : isActive ? (
+        <Square size={16} />
+      ) : (
+        <Volume2 size={16} />
+      )}
+      <span>
+        {isActive ? `Reading ${progress.current} of ${progress.total}` : "Read aloud"}
+      </span>
+    </button>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Wand2 } from "lucide-react";
+
+interface ReanalyzeMenuProps {
+  // Instructions the report was last re-analyzed with, to start from
+  instructions?: string;
+  onReanalyze: (instructions: string) => void;
+  disabled?: boolean;
+}
+
+// Writes the report again from the same sources, optionally with extra instructions
+export default function ReanalyzeMenu({ instructions = "", onReanalyze, disabled }: ReanalyzeMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState(instructions);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const submit = () => {
+    setIsOpen(false);
+    onReanalyze(draft.trim());
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={disabled}
+        className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+        title="Write the report again from the same sources"
+      >
+        <Wand2 size={16} />
+        <span>Re-analyze</span>
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-80 bg-white border border-gray-200 rounded-lg shadow-lg z-40 p-4 space-y-3">
+          <p className="text-xs text-gray-500">
+            The sources stay the same; only the analysis is written again.
+          </p>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) submit();
+            }}
+            placeholder="e.g. Focus on costs, keep it under 300 words, or write it for a beginner"
+            rows={3}
+            maxLength={1000}
+            className="w-full p-2 text-sm text-gray-900 border border-gray-300 rounded-lg focus:outline-none focus:border-gray-900 resize-none"
+          />
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={submit}
+              className="px-3 py-1.5 bg-gray-900 text-white text-xs rounded-lg hover:bg-gray-800"
+            >
+              Re-analyze
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Check, Copy, Link2 } from "lucide-react";
+import { getShareUrl, publishReport, revokeSharedReport } from "../lib/firebase/sharedReports";
+import { ChatSection } from "../lib/research/types";
+
+interface ShareButtonProps {
+  section: ChatSection;
+  userId: string;
+  onShareChange: (shareId: string | null) => void;
+}
+
+export default function ShareButton({ section, userId, onShareChange }: ShareButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const handlePublish = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      onShareChange(await publishReport(userId, section));
+      setIsOpen(true);
+    } catch (error) {
+      console.error("Error publishing report:", error);
+      setError("Could not create a share link");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!section.shareId) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      await revokeSharedReport(section.shareId);
+      onShareChange(null);
+      setIsOpen(false);
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      setError("Could not revoke the link");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!section.shareId) return;
+    await navigator.clipboard.writeText(getShareUrl(section.shareId));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div ref={menuRef} className="relative inline-block">
+      <button
+        onClick={() => (section.shareId ? setIsOpen((open) => !open) : handlePublish())}
+        disabled={isWorking}
+        className="flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900 disabled:opacity-50"
+      >
+        <Link2 size={14} />
+        <span>{section.shareId ? "Shared" : isWorking ? "Sharing..." : "Share"}</span>
+      </button>
+      {error && !isOpen && <p className="absolute right-0 mt-1 text-xs text-red-600 whitespace-nowrap">{error}</p>}
+      {isOpen && section.shareId && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-gray-200 rounded-lg shadow-lg z-40 p-4 space-y-3">
+          <p className="text-xs text-gray-500">Anyone with this link can view a read-only copy of this report.</p>
+          <div className="flex items-center gap-2">
+            <input
+              readOnly
+              value={getShareUrl(section.shareId)}
+              className="flex-1 min-w-0 px-2 py-1.5 text-xs text-gray-700 bg-gray-50 border border-gray-200 rounded"
+              onFocus={(e) => e.target.select()}
+            />
+            <button onClick={handleCopy} className="text-gray-600 hover:text-gray-900" aria-label="Copy link">
+              {copied ? <Check size={16} /> : <Copy size={16} />}
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <button
+            onClick={handleRevoke}
+            disabled={isWorking}
+            className="text-xs text-red-600 hover:text-red-700 disabled:opacity-50"
+          >
+            Revoke link
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
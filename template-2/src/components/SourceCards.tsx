@@ -0,0 +1,135 @@
+'use client';
+
+import Image from 'next/image';
+import { format } from 'date-fns';
+import { BookOpen, Bookmark, BookmarkCheck, Lock } from 'lucide-react';
+import { getDomain } from '../lib/search/domains';
+import { SearchResult } from '../lib/search/types';
+
+const CREDIBILITY_LABELS = {
+  high: 'High credibility',
+  medium: 'Medium credibility',
+  low: 'Low credibility',
+};
+
+const CREDIBILITY_STYLES = {
+  high: 'text-green-700',
+  medium: 'text-gray-500',
+  low: 'text-amber-700',
+};
+
+interface SourceCardsProps {
+  results: SearchResult[];
+  // Cards get ids `${idPrefix}-N` so citation markers can scroll to them
+  idPrefix: string;
+  // Number of the source card to highlight, if any
+  highlighted?: number;
+  // Bookmark web sources into the user's library; omitted where there's no signed-in user
+  onBookmark?: (result: SearchResult) => void;
+  isBookmarked?: (result: SearchResult) => boolean;
+}
+
+export default function SourceCards({ results, idPrefix, highlighted, onBookmark, isBookmarked }: SourceCardsProps) {
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-4 -mx-4 px-4">
+      {results.map((result, idx) => (
+        <div 
+          key={idx}
+          id={`${idPrefix}-${idx + 1}`}
+          className={`flex-shrink-0 w-[300px] bg-gray-50 border rounded-xl overflow-hidden transition-shadow ${
+            result.credibility?.level === 'low' ? 'opacity-70' : ''
+          } ${
+            highlighted === idx + 1
+              ? 'border-blue-500 ring-2 ring-blue-200'
+              : 'border-gray-200'
+          }`}
+        >
+          <div className="h-40 bg-gray-200 overflow-hidden relative">
+            <span className="absolute top-2 left-2 z-20 px-2 py-0.5 rounded bg-white/90 text-xs font-medium text-gray-700">
+              {idx + 1}
+            </span>
+            {onBookmark && !result.private && (
+              <button
+                type="button"
+                onClick={() => onBookmark(result)}
+                className="absolute top-2 right-2 z-20 p-1 rounded bg-white/90 text-gray-600 hover:text-gray-900"
+                aria-label={isBookmarked?.(result) ? 'Bookmarked in your library' : 'Bookmark to your library'}
+              >
+                {isBookmarked?.(result) ? <BookmarkCheck size={14} /> : <Bookmark size={14} />}
+              </button>
+            )}
+            {result.image ? (
+              <>
+                <div className="absolute inset-0 bg-gray-200 animate-pulse" />
+                <Image 
+                  src={result.image.url} 
+                  alt={result.image.description || result.title}
+                  className="relative z-10"
+                  fill
+                  style={{ objectFit: 'cover', opacity: 0, transition: 'opacity 0.3s' }}
+                  onLoad={(e) => {
+                    const target = e.target as HTMLImageElement;
+                    target.style.opacity = '1';
+                  }}
+                />
+              </>
+            ) : (
+              <div className="w-full h-full flex items-center justify-center">
+                <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+              </div>
+            )}
+          </div>
+          <div className="p-4">
+            {result.private && (
+              <span className="inline-flex items-center gap-1 mb-2 px-2 py-0.5 rounded bg-purple-50 text-purple-700 text-xs font-medium">
+                {result.library ? <BookOpen size={12} /> : <Lock size={12} />}
+                {result.library ? 'Library' : 'Private'}
+              </span>
+            )}
+            <a 
+              href={result.url} 
+              target="_blank" 
+              rel="noopener noreferrer" 
+              className="text-blue-600 hover:underline block mb-2 font-medium line-clamp-2"
+            >
+              {result.title}
+            </a>
+            {result.publishedDate && (
+              <p className="mb-1 text-xs text-gray-400">{format(new Date(result.publishedDate), 'MMM d, yyyy')}</p>
+            )}
+            <p className="text-sm text-gray-600 line-clamp-3">{result.content}</p>
+            {result.alternates && result.alternates.length > 0 && (
+              <p className="mt-2 text-xs text-gray-500 line-clamp-2">
+                Also at{' '}
+                {result.alternates.map((alternate, altIdx) => (
+                  <span key={alternate.url}>
+                    {altIdx > 0 && ', '}
+                    <a
+                      href={alternate.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      title={alternate.title}
+                      className="hover:underline"
+                    >
+                      {getDomain(alternate.url) || alternate.url}
+                    </a>
+                  </span>
+                ))}
+              </p>
+            )}
+            {result.credibility && (
+              <p
+                className={`mt-2 text-xs ${CREDIBILITY_STYLES[result.credibility.level]}`}
+                title={result.credibility.reasons.join('\n')}
+              >
+                {CREDIBILITY_LABELS[result.credibility.level]} · {Math.round(result.credibility.score * 100)}
+              </p>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { linkCitations } from '../lib/research/citations';
+import { formatResponse } from '../lib/research/format';
+import { SearchResult } from '../lib/search/types';
+
+const StructuredResponse = ({
+  content,
+  searchResults,
+  onCitationClick
+}: {
+  content: string,
+  searchResults?: SearchResult[],
+  onCitationClick?: (sourceNumber: number) => void
+}) => {
+  // Ensure content is properly formatted, with [Source N] markers turned into #source-N links
+  const formattedContent = linkCitations(formatResponse(content));
+  
+  // Create a custom components object that includes the section's search results
+  const customComponents = {
+    ...markdownComponents,
+    a: ({ node, ...props }: any) => {
+      const href = props.href || '';
+      const sourceMatch = href.match(/^#source-(\d+)$/);
+      if (sourceMatch) {
+        const sourceNumber = parseInt(sourceMatch[1]);
+        const source = searchResults?.[sourceNumber - 1];
+        if (!source) {
+          return (
+            <sup
+              title={`Source ${sourceNumber} does not exist in the source list`}
+              className="mx-0.5 px-1 rounded bg-red-50 text-red-600 text-xs font-medium line-through"
+            >
+              {sourceNumber}
+            </sup>
+          );
+        }
+        return (
+          <span className="inline-flex items-center group relative">
+            <sup>
+              <button
+                type="button"
+                onClick={() => onCitationClick?.(sourceNumber)}
+                className="mx-0.5 px-1 rounded bg-blue-50 text-blue-700 hover:bg-blue-100 text-xs font-medium"
+              >
+                {sourceNumber}
+              </button>
+            </sup>
+            <div className="absolute bottom-full left-0 mb-2 hidden group-hover:block z-50">
+              <div className="bg-white p-4 rounded-lg shadow-lg border border-gray-200 w-80">
+                <h4 className="font-medium text-gray-900 mb-2">{source.title}</h4>
+                <p className="text-sm text-gray-600 mb-2 line-clamp-4">{source.content}</p>
+                <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-xs text-blue-600 hover:underline">
+                  Visit source →
+                </a>
+              </div>
+            </div>
+          </span>
+        );
+      }
+      return markdownComponents.a({ node, ...props });
+    }
+  };
+  
+  // Split content into sections if it has headings
+  const hasHeadings = /^#{1,6}\s.+/gm.test(formattedContent);
+  
+  if (!hasHeadings) {
+    return (
+      <div className="prose prose-blue max-w-none space-y-4 text-gray-800 [&>ul]:list-disc [&>ul]:pl-6 [&>ol]:list-decimal [&>ol]:pl-6">
+        <ReactMarkdown
+          remarkPlugins={[remarkGfm]}
+          components={customComponents}
+        >
+          {formattedContent}
+        </ReactMarkdown>
+      </div>
+    );
+  }
+  
+  // Split by headings for a more structured display
+  const sections = formattedContent.split(/(?=^#{1,6}\s.+$)/gm).filter(Boolean);
+  
+  return (
+    <div className="space-y-8">
+      {sections.map((section, idx) => (
+        <div key={idx} className="prose prose-blue max-w-none space-y-4 text-gray-800 [&>ul]:list-disc [&>ul]:pl-6 [&>ol]:list-decimal [&>ol]:pl-6">
+          <ReactMarkdown
+            remarkPlugins={[remarkGfm]}
+            components={customComponents}
+          >
+            {section}
+          </ReactMarkdown>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Extract markdown components for reuse
+export const markdownComponents = {
+  // Table components
+  table: ({ node, ...props }: any) => (
+    <div className="my-8 overflow-x-auto rounded-lg border border-gray-200">
+      <table className="w-full text-left border-collapse" {...props} />
+    </div>
+  ),
+  thead: ({ node, ...props }: any) => (
+    <thead className="bg-gray-50" {...props} />
+  ),
+  tbody: ({ node, ...props }: any) => (
+    <tbody className="bg-white divide-y divide-gray-200" {...props} />
+  ),
+  tr: ({ node, ...props }: any) => (
+    <tr className="hover:bg-gray-50 transition-colors" {...props} />
+  ),
+  th: ({ node, ...props }: any) => (
+    <th className="py-3 px-4 font-medium text-sm text-gray-900 border-b border-gray-200" {...props} />
+  ),
+  // Enhanced td cell rendering
+  td: ({ node, ...props }: any) => {
+    // Check if the content includes a markdown link
+    const content = props.children?.toString() || '';
+    if (content.match(/\[.*?\]\(.*?\)/)) {
+      return (
+        <td className="py-3 px-4 text-sm text-gray-500">
+          <ReactMarkdown
+            remarkPlugins={[remarkGfm]}
+            components={{
+              a: ({ node, ...linkProps }: any) => (
+                <a {...linkProps} className="text-blue-600 hover:text-blue-800 hover:underline" target="_blank" rel="noopener noreferrer" />
+              )
+            }}
+          >
+            {content}
+          </ReactMarkdown>
+        </td>
+      );
+    }
+    return (
+      <td className="py-3 px-4 text-sm text-gray-500" {...props} />
+    );
+  },
+  // Better handling of code blocks
+  code: ({ node, inline, className, children, ...props }: any) => {
+    const match = /language-(\w+)/.exec(className || '');
+    return !inline && match ? (
+      <div className="relative">
+        <pre className={`${className} rounded-lg p-4 bg-gray-900 text-white overflow-x-auto`}>
+          <code className={className} {...props}>
+            {String(children).replace(/\n$/, '')}
+          </code>
+        </pre>
+      </div>
+    ) : (
+      <code className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-800 text-sm font-mono" {...props}>
+        {children}
+      </code>
+    );
+  },
+  // Better handling of pre blocks
+  pre: ({ node, children, ...props }: any) => {
+    const content = String(children);
+    if (content.includes('|') && content.includes('\n')) {
+      const rows = content.trim().split('\n');
+      const headers = rows[0].split('|').filter(Boolean).map((h: string) => h.trim());
+      const data = rows.slice(2).map((row: string) => 
+        row.split('|').filter(Boolean).map((cell: string) => cell.trim())
+      );
+
+      return (
+        <div className="my-8 overflow-x-auto">
+          <table className="w-full text-left border-collapse border border-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {headers.map((header: string, i: number) => (
+                  <th key={i} className="py-3 px-4 font-medium text-sm text-gray-900 border-b border-gray-200">
+                    {header}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white">
+              {data.map((row: string[], i: number) => (
+                <tr key={i} className="border-b border-gray-200 hover:bg-gray-50 transition-colors">
+                  {row.map((cell: string, j: number) => (
+                    <td key={j} className="py-3 px-4 text-sm text-gray-500">
+                      {cell}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    }
+    return <pre className="rounded-lg p-4 bg-gray-50 overflow-x-auto" {...props}>{children}</pre>;
+  },
+  // Improved heading rendering
+  h1: ({ node, ...props }: any) => (
+    <h1 className="text-3xl font-bold text-gray-900 mt-8 mb-4" {...props} />
+  ),
+  h2: ({ node, ...props }: any) => (
+    <h2 className="text-2xl font-bold text-gray-900 mt-8 mb-3" {...props} />
+  ),
+  h3: ({ node, ...props }: any) => (
+    <h3 className="text-xl font-bold text-gray-900 mt-6 mb-3" {...props} />
+  ),
+  // Better list rendering
+  ul: ({ node, ...props }: any) => (
+    <ul className="list-disc pl-6 my-4 space-y-2" {...props} />
+  ),
+  ol: ({ node, ...props }: any) => (
+    <ol className="list-decimal pl-6 my-4 space-y-2" {...props} />
+  ),
+  li: ({ node, ...props }: any) => (
+    <li className="text-gray-800" {...props} />
+  ),
+  // Enhanced link handling
+  a: ({ node, ...props }: any) => {
+    return (
+      <a {...props} className="text-blue-600 hover:text-blue-800 hover:underline" target="_blank" rel="noopener noreferrer" />
+    );
+  },
+};
+
+export default StructuredResponse;
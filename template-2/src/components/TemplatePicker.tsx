@@ -0,0 +1,214 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { DEFAULT_TEMPLATE, RESEARCH_TEMPLATES, TEMPLATE_LAYOUTS } from "../lib/research/templates";
+import { ResearchTemplate, TemplateLayout } from "../lib/research/types";
+
+interface TemplatePickerProps {
+  value: ResearchTemplate;
+  onChange: (template: ResearchTemplate) => void;
+  customTemplates: ResearchTemplate[];
+  // Custom templates are only available when signed in, since they're saved to the user's profile
+  onSaveCustom?: (template: ResearchTemplate) => Promise<void>;
+  onDeleteCustom?: (template: ResearchTemplate) => Promise<void>;
+}
+
+interface TemplateDraft {
+  label: string;
+  description: string;
+  searchQuery: string;
+  searchFocus: string;
+  systemPrompt: string;
+  sections: string;
+  layout: TemplateLayout;
+}
+
+const EMPTY_DRAFT: TemplateDraft = {
+  label: "",
+  description: "",
+  searchQuery: "{query}",
+  searchFocus: "",
+  systemPrompt: "",
+  sections: "",
+  layout: "outline",
+};
+
+// One section per line, as "Title: what it should contain"
+const parseSections = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const colon = line.indexOf(":");
+      return colon === -1
+        ? { title: line, description: "" }
+        : { title: line.slice(0, colon).trim(), description: line.slice(colon + 1).trim() };
+    });
+
+export default function TemplatePicker({
+  value,
+  onChange,
+  customTemplates,
+  onSaveCustom,
+  onDeleteCustom,
+}: TemplatePickerProps) {
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!draft || !onSaveCustom) return;
+    if (!draft.label.trim() || !draft.systemPrompt.trim()) {
+      setError("A name and a system prompt are required");
+      return;
+    }
+    const template: ResearchTemplate = {
+      id: `custom-${Date.now().toString(36)}`,
+      label: draft.label.trim(),
+      description: draft.description.trim(),
+      searchQuery: draft.searchQuery.includes("{query}") ? draft.searchQuery.trim() : `{query} ${draft.searchQuery.trim()}`,
+      searchFocus: draft.searchFocus.trim() || DEFAULT_TEMPLATE.searchFocus,
+      systemPrompt: draft.systemPrompt.trim(),
+      sections: parseSections(draft.sections),
+      layout: draft.layout,
+      custom: true,
+    };
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSaveCustom(template);
+      onChange(template);
+      setDraft(null);
+    } catch (error) {
+      console.error("Error saving template:", error);
+      setError("Could not save the template");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderButton = (template: ResearchTemplate) => (
+    <div key={template.id} className="relative group">
+      <button
+        type="button"
+        onClick={() => onChange(value.id === template.id ? DEFAULT_TEMPLATE : template)}
+        title={template.description}
+        className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+          value.id === template.id ? "bg-gray-900 text-white" : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+        }`}
+      >
+        {template.label}
+      </button>
+      {template.custom && onDeleteCustom && (
+        <button
+          type="button"
+          onClick={() => {
+            if (value.id === template.id) onChange(DEFAULT_TEMPLATE);
+            onDeleteCustom(template).catch((error) => console.error("Error deleting template:", error));
+          }}
+          className="absolute -top-1.5 -right-1.5 hidden group-hover:flex w-4 h-4 items-center justify-center rounded-full bg-gray-700 text-white"
+          aria-label={`Delete ${template.label}`}
+        >
+          <X size={10} />
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <>
+      <div className="mt-4 flex flex-wrap gap-2 justify-center">
+        {RESEARCH_TEMPLATES.filter((template) => template.id !== DEFAULT_TEMPLATE.id).map(renderButton)}
+        {customTemplates.map(renderButton)}
+        {onSaveCustom && (
+          <button
+            type="button"
+            onClick={() => {
+              setDraft(EMPTY_DRAFT);
+              setError(null);
+            }}
+            className="px-3 py-2 rounded-lg text-sm text-gray-500 border border-dashed border-gray-300 hover:border-gray-500 flex items-center gap-1"
+          >
+            <Plus size={14} />
+            New template
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg p-6 max-w-2xl w-full max-h-[80vh] overflow-y-auto space-y-4">
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-semibold text-gray-800">New Research Template</h3>
+              <button onClick={() => setDraft(null)} className="text-gray-600 hover:text-gray-700" aria-label="Close">
+                <X size={20} />
+              </button>
+            </div>
+            {(
+              [
+                ["label", "Name", "e.g. Investor Memo", 1],
+                ["description", "Description", "What this template produces", 1],
+                ["searchQuery", "Initial search", "{query} stands for the question, e.g. {query} market size competitors", 1],
+                ["searchFocus", "Follow-up searches should look for", "e.g. funding rounds, pricing and customer reviews", 2],
+                ["systemPrompt", "System prompt", "Who the model is and how it should write", 4],
+                ["sections", "Sections, one per line", "Title: what the section should contain", 5],
+              ] as [Exclude<keyof TemplateDraft, "layout">, string, string, number][]
+            ).map(([key, label, placeholder, rows]) => (
+              <label key={key} className="block">
+                <span className="text-xs font-medium text-gray-700">{label}</span>
+                {rows === 1 ? (
+                  <input
+                    value={draft[key]}
+                    onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                    placeholder={placeholder}
+                    className="mt-1 w-full px-2 py-1.5 text-sm text-gray-700 border border-gray-200 rounded focus:outline-none focus:border-gray-900"
+                  />
+                ) : (
+                  <textarea
+                    value={draft[key]}
+                    onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                    placeholder={placeholder}
+                    rows={rows}
+                    className="mt-1 w-full px-2 py-1.5 text-sm text-gray-700 border border-gray-200 rounded focus:outline-none focus:border-gray-900"
+                  />
+                )}
+              </label>
+            ))}
+            <label className="block">
+              <span className="text-xs font-medium text-gray-700">Layout</span>
+              <select
+                value={draft.layout}
+                onChange={(e) => setDraft({ ...draft, layout: e.target.value as TemplateLayout })}
+                className="mt-1 block px-2 py-1.5 text-sm text-gray-700 border border-gray-200 rounded focus:outline-none focus:border-gray-900"
+              >
+                {TEMPLATE_LAYOUTS.map((layout) => (
+                  <option key={layout.id} value={layout.id}>{layout.label}</option>
+                ))}
+              </select>
+            </label>
+            {error && <p className="text-xs text-red-600">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="px-3 py-1.5 text-sm text-gray-600 rounded-lg hover:bg-gray-100"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={isSaving}
+                className="px-3 py-1.5 bg-gray-900 text-white text-sm rounded-lg hover:bg-gray-800 disabled:opacity-50"
+              >
+                {isSaving ? "Saving..." : "Save template"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
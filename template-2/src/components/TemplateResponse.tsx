@@ -0,0 +1,91 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Copy } from 'lucide-react';
+import StructuredResponse from './StructuredResponse';
+import { splitListItems, splitResponseSections } from '../lib/research/templates';
+import { TemplateLayout } from '../lib/research/types';
+import { SearchResult } from '../lib/search/types';
+
+interface TemplateResponseProps {
+  content: string;
+  layout?: TemplateLayout;
+  searchResults?: SearchResult[];
+  onCitationClick?: (sourceNumber: number) => void;
+}
+
+const CopyButton = ({ text }: { text: string }) => {
+  const [copied, setCopied] = useState(false);
+  return (
+    <button
+      type="button"
+      onClick={() => {
+        navigator.clipboard.writeText(text).then(() => {
+          setCopied(true);
+          setTimeout(() => setCopied(false), 1500);
+        }).catch(error => console.error('Error copying text:', error));
+      }}
+      className="text-gray-400 hover:text-gray-700"
+      aria-label="Copy"
+    >
+      {copied ? <Check size={14} /> : <Copy size={14} />}
+    </button>
+  );
+};
+
+// Render a response in its template's layout. Free-form reports, and responses
+// the model didn't split into sections, fall back to the plain report view.
+export default function TemplateResponse({ content, layout = 'report', searchResults, onCitationClick }: TemplateResponseProps) {
+  const { body, intro, sections, sources } = splitResponseSections(content);
+  const render = (markdown: string) => (
+    <StructuredResponse content={markdown} searchResults={searchResults} onCitationClick={onCitationClick} />
+  );
+
+  if (layout === 'report' || sections.length === 0) return render(content);
+
+  if (layout === 'newsletter') {
+    return (
+      <div>
+        <div className="max-w-2xl mx-auto bg-white border border-gray-200 rounded-xl shadow-sm px-8 py-10 font-serif">
+          {render(body)}
+        </div>
+        {sources && <div className="mt-8">{render(sources)}</div>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {intro && render(intro)}
+      {sections.map((section, index) => {
+        const items = layout === 'cards' ? splitListItems(section.content) : [];
+        return (
+          <section key={index} className="border border-gray-200 rounded-xl p-5">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-lg font-semibold text-gray-900">
+                {layout === 'outline' && <span className="text-gray-400 mr-2">{index + 1}.</span>}
+                {section.title}
+              </h2>
+              <CopyButton text={`## ${section.title}\n\n${section.content}`} />
+            </div>
+            {items.length > 1 ? (
+              <div className="grid gap-3 sm:grid-cols-2">
+                {items.map((item, itemIndex) => (
+                  <div key={itemIndex} className="relative bg-gray-50 border border-gray-200 rounded-lg p-4 pr-8">
+                    <div className="absolute top-3 right-3">
+                      <CopyButton text={item} />
+                    </div>
+                    {render(item)}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              render(section.content)
+            )}
+          </section>
+        );
+      })}
+      {sources && <div className="pt-4">{render(sources)}</div>}
+    </div>
+  );
+}
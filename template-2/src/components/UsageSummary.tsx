@@ -0,0 +1,22 @@
+import { ResearchUsage } from "../lib/research/types";
+
+export const formatCost = (usd: number) =>
+  usd === 0 ? "$0" : usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+
+// One-line breakdown of a research run's tokens, searches and estimated cost
+export default function UsageSummary({ usage }: { usage: ResearchUsage }) {
+  const searches = usage.cachedSearches > 0
+    ? `${usage.searches} searches (${usage.cachedSearches} cached)`
+    : `${usage.searches} searches`;
+
+  return (
+    <p
+      className="mt-4 text-xs text-gray-400"
+      title={`Model ${formatCost(usage.cost.model)} + search ${formatCost(usage.cost.search)}${usage.estimated ? ". Some token counts are estimates." : ""}`}
+    >
+      {usage.promptTokens.toLocaleString()} prompt · {usage.reasoningTokens.toLocaleString()} reasoning ·{" "}
+      {(usage.completionTokens - usage.reasoningTokens).toLocaleString()} answer tokens · {searches} · ~
+      {formatCost(usage.cost.total)} with {usage.model}
+    </p>
+  );
+}
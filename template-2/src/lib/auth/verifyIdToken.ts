@@ -0,0 +1,70 @@
+// Server-side check of the Firebase ID tokens AuthContext's user hands out.
+// Tokens are verified with the Identity Toolkit lookup endpoint, which rejects
+// expired, revoked and forged tokens, so no service account is needed.
+
+export interface VerifiedUser {
+  uid: string;
+  email?: string;
+}
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// Verified tokens are reused for a few minutes instead of looking them up on every request
+const VERIFIED_TTL_MS = 5 * 60 * 1000;
+const verifiedTokens = new Map<string, { user: VerifiedUser; expiresAt: number }>();
+
+// The token's own expiry, read without verifying it; only used to bound the cache
+const getTokenExpiry = (token: string) => {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : 0;
+  } catch {
+    return 0;
+  }
+};
+
+export const getBearerToken = (req: Request) => {
+  const header = req.headers.get('authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+};
+
+export const verifyIdToken = async (token: string): Promise<VerifiedUser> => {
+  const cached = verifiedTokens.get(token);
+  if (cached && cached.expiresAt > Date.now()) return cached.user;
+
+  const apiKey = process.env.NEXT_PUBLIC_FIREBASE_API_KEY;
+  if (!apiKey) {
+    throw new Error('NEXT_PUBLIC_FIREBASE_API_KEY is not set in environment variables');
+  }
+
+  const response = await fetch(`https://identitytoolkit.googleapis.com/v1/accounts:lookup?key=${apiKey}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ idToken: token }),
+  });
+  if (response.status === 400) {
+    throw new AuthError('Invalid or expired sign-in token');
+  }
+  if (!response.ok) {
+    throw new Error(`Token verification failed with status ${response.status}`);
+  }
+
+  const account = (await response.json()).users?.[0];
+  if (!account?.localId) {
+    throw new AuthError('Invalid or expired sign-in token');
+  }
+
+  const user = { uid: account.localId as string, email: account.email as string | undefined };
+  if (verifiedTokens.size > 1000) verifiedTokens.clear();
+  verifiedTokens.set(token, {
+    user,
+    expiresAt: Math.min(Date.now() + VERIFIED_TTL_MS, getTokenExpiry(token) || Infinity),
+  });
+  return user;
+};
@@ -0,0 +1,22 @@
+export interface ExtractedDocument {
+  name: string;
+  format: string;
+  text: string;
+  // The text was cut off at MAX_DOCUMENT_BYTES
+  truncated: boolean;
+}
+
+// Send a file to /api/documents and get its plain text back
+export const extractDocumentText = async (file: File, idToken?: string): Promise<ExtractedDocument> => {
+  const body = new FormData();
+  body.append('file', file);
+  const response = await fetch('/api/documents', {
+    method: 'POST',
+    headers: idToken ? { 'Authorization': `Bearer ${idToken}` } : {},
+    body,
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `Could not read ${file.name}`);
+  return data;
+};
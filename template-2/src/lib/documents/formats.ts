@@ -0,0 +1,15 @@
+export type DocumentFormat = 'pdf' | 'docx' | 'text';
+
+const TEXT_EXTENSIONS = ['txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'vtt', 'srt', 'html', 'htm'];
+
+export const ACCEPTED_DOCUMENT_TYPES = ['.pdf', '.docx', ...TEXT_EXTENSIONS.map(extension => `.${extension}`)].join(',');
+
+export const getDocumentFormat = (name: string, contentType = ''): DocumentFormat | null => {
+  const extension = name.toLowerCase().split('.').pop() ?? '';
+  if (extension === 'pdf' || contentType === 'application/pdf') return 'pdf';
+  if (extension === 'docx' || contentType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
+    return 'docx';
+  }
+  if (TEXT_EXTENSIONS.includes(extension) || contentType.startsWith('text/')) return 'text';
+  return null;
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_DOCUMENT_BYTES, normalizePrivateDocuments, truncateToBytes } from '.';
+
+const byteLength = (text: string) => new TextEncoder().encode(text).length;
+
+describe('truncateToBytes', () => {
+  it('leaves text within the limit alone', () => {
+    expect(truncateToBytes('héllo', 6)).toBe('héllo');
+  });
+
+  it('counts UTF-8 bytes rather than characters', () => {
+    expect(truncateToBytes('abcdef', 4)).toBe('abcd');
+    // Each of these characters takes three bytes
+    expect(truncateToBytes('熱泵熱泵', 6)).toBe('熱泵');
+  });
+
+  it('never splits a character', () => {
+    expect(truncateToBytes('熱泵熱泵', 7)).toBe('熱泵');
+    expect(truncateToBytes('a😀b', 4)).toBe('a');
+    expect(truncateToBytes('😀', 3)).toBe('');
+  });
+});
+
+describe('normalizePrivateDocuments', () => {
+  it('keeps attached text under the Firestore size limit', () => {
+    const [document] = normalizePrivateDocuments([{ name: 'notes.txt', text: '熱泵'.repeat(400_000) }]);
+    expect(byteLength(document.text)).toBeLessThanOrEqual(MAX_DOCUMENT_BYTES);
+    expect(byteLength(document.text)).toBeGreaterThan(MAX_DOCUMENT_BYTES - 3);
+  });
+});
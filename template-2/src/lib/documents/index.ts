@@ -0,0 +1,68 @@
+import { chunkText, selectChunks } from '../extract/chunks';
+import { SearchResult } from '../search/types';
+
+export { ACCEPTED_DOCUMENT_TYPES, getDocumentFormat } from './formats';
+
+// A document the user uploaded, attached to a research request with its extracted text
+export interface PrivateDocument {
+  id: string;
+  name: string;
+  // Download URL of the original in Firebase Storage
+  url: string;
+  text: string;
+}
+
+// Extracted text is stored in a Firestore document, which is capped at 1 MiB
+// including its other fields, and strings count in UTF-8 bytes: 500,000 characters
+// of CJK text would already be about 1.5 MB. Longer text is cut off when it's extracted.
+export const MAX_DOCUMENT_BYTES = 900 * 1024;
+export const MAX_ATTACHED_DOCUMENTS = 5;
+
+// Cut text to at most `maxBytes` of UTF-8 without splitting a character
+export const truncateToBytes = (text: string, maxBytes: number) => {
+  const bytes = new TextEncoder().encode(text);
+  if (bytes.length <= maxBytes) return text;
+  let end = maxBytes;
+  // Continuation bytes look like 10xxxxxx; back up to the start of the character
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+  return new TextDecoder().decode(bytes.subarray(0, end));
+};
+
+const DEFAULT_TOKEN_BUDGET = 6000;
+
+export const normalizePrivateDocuments = (input: unknown): PrivateDocument[] => {
+  if (!Array.isArray(input)) return [];
+  return input
+    .filter(doc => doc && typeof doc.name === 'string' && typeof doc.text === 'string' && doc.text.trim())
+    .slice(0, MAX_ATTACHED_DOCUMENTS)
+    .map((doc, index) => ({
+      id: typeof doc.id === 'string' ? doc.id.slice(0, 100) : `document-${index + 1}`,
+      name: doc.name.slice(0, 200),
+      url: typeof doc.url === 'string' && /^https:\/\//.test(doc.url) ? doc.url : '',
+      text: truncateToBytes(doc.text, MAX_DOCUMENT_BYTES),
+    }));
+};
+
+// The passages of each document most relevant to the query, as search results
+// marked private. They rank above web results so they make it into the prompt.
+export const toPrivateSources = (
+  documents: PrivateDocument[],
+  query: string,
+  tokenBudget = DEFAULT_TOKEN_BUDGET
+): SearchResult[] => {
+  if (documents.length === 0) return [];
+  const perDocumentBudget = Math.floor(tokenBudget / documents.length);
+
+  return documents.flatMap(document => {
+    const passages = selectChunks(chunkText(document.text), query, perDocumentBudget).map(chunk => chunk.text);
+    if (passages.length === 0) return [];
+    return [{
+      title: document.name,
+      url: document.url || `#document-${document.id}`,
+      content: passages.join('\n[...]\n'),
+      snippet: passages[0].slice(0, 150),
+      score: 1,
+      private: true,
+    }];
+  });
+};
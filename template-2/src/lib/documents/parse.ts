@@ -0,0 +1,56 @@
+import { decodeEntities } from '../extract/html';
+import { getDocumentFormat } from './formats';
+
+export class DocumentParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentParseError';
+  }
+}
+
+const parsePdf = async (data: Uint8Array) => {
+  const { extractText, getDocumentProxy } = await import('unpdf');
+  const pdf = await getDocumentProxy(data);
+  const { text } = await extractText(pdf, { mergePages: false });
+  return text.join('\n\n');
+};
+
+// A .docx is a zip; the body text is in the <w:t> runs of word/document.xml
+const parseDocx = async (data: Uint8Array) => {
+  const { default: JSZip } = await import('jszip');
+  const zip = await JSZip.loadAsync(data);
+  const xml = await zip.file('word/document.xml')?.async('string');
+  if (!xml) throw new DocumentParseError('Not a valid Word document');
+  return decodeEntities(
+    xml
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:br\/>|<\/w:p>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+  );
+};
+
+// Extract plain text from an uploaded document
+export const parseDocument = async (data: Uint8Array, name: string, contentType?: string): Promise<string> => {
+  const format = getDocumentFormat(name, contentType);
+  if (!format) throw new DocumentParseError('Unsupported file type. Upload a PDF, Word (.docx) or text file.');
+
+  let text: string;
+  try {
+    text = format === 'pdf'
+      ? await parsePdf(data)
+      : format === 'docx'
+        ? await parseDocx(data)
+        : new TextDecoder().decode(data);
+  } catch (error) {
+    if (error instanceof DocumentParseError) throw error;
+    throw new DocumentParseError(`Could not read ${name}`);
+  }
+
+  text = text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+  if (!text) {
+    throw new DocumentParseError(format === 'pdf'
+      ? `${name} has no text layer; scanned PDFs aren't supported`
+      : `${name} is empty`);
+  }
+  return text;
+};
@@ -0,0 +1,36 @@
+import { EmbeddingProvider } from './types';
+
+const DIMENSIONS = 512;
+
+// 32-bit FNV-1a
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const embedText = (text: string) => {
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+  const words: string[] = text.toLowerCase().match(/[a-z0-9\u00c0-\uffff]+/g) ?? [];
+  // Words and word pairs, each added with a hash-chosen sign so collisions tend to cancel out
+  const features = words.concat(words.slice(1).map((word, i) => `${words[i]} ${word}`));
+  for (const feature of features) {
+    const h = hash(feature);
+    vector[h % DIMENSIONS] += h & 0x80000000 ? -1 : 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map(value => value / norm);
+};
+
+// Feature-hashing vectors: no model or network needed, but only matches shared
+// words, not meaning. Meant for development and offline use.
+export const hashingEmbeddingProvider: EmbeddingProvider = {
+  id: 'hashing',
+  name: 'Hashing',
+  getModel: () => `hashing-${DIMENSIONS}`,
+  isConfigured: () => true,
+  embed: async texts => texts.map(embedText),
+};
@@ -0,0 +1,58 @@
+import { hashingEmbeddingProvider } from './hashing';
+import { createOpenAICompatibleEmbeddings } from './openaiCompatible';
+import { EmbeddingProvider, EmbeddingProviderId } from './types';
+
+export const embeddingProviders: Record<EmbeddingProviderId, EmbeddingProvider> = {
+  openai: createOpenAICompatibleEmbeddings({
+    id: 'openai',
+    name: 'OpenAI',
+    getBaseURL: () => 'https://api.openai.com/v1',
+    getApiKey: () => process.env.OPENAI_API_KEY,
+    requiresApiKey: true,
+    getModel: () => process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
+  }),
+  // Ollama, LM Studio etc.; falls back to the local chat server's URL
+  local: createOpenAICompatibleEmbeddings({
+    id: 'local',
+    name: 'Local',
+    getBaseURL: () => process.env.LOCAL_EMBEDDING_BASE_URL || process.env.LOCAL_LLM_BASE_URL,
+    getApiKey: () => process.env.LOCAL_EMBEDDING_API_KEY || process.env.LOCAL_LLM_API_KEY,
+    requiresApiKey: false,
+    getModel: () => process.env.LOCAL_EMBEDDING_MODEL || 'nomic-embed-text',
+  }),
+  hashing: hashingEmbeddingProvider,
+};
+
+const isEmbeddingProviderId = (id: unknown): id is EmbeddingProviderId =>
+  typeof id === 'string' && id in embeddingProviders;
+
+// EMBEDDING_PROVIDER picks the provider; otherwise the first configured of openai, local and hashing
+export const getEmbeddingProvider = (): EmbeddingProvider => {
+  const id = (process.env.EMBEDDING_PROVIDER || '').toLowerCase();
+  if (isEmbeddingProviderId(id)) return embeddingProviders[id];
+  return [embeddingProviders.openai, embeddingProviders.local].find(provider => provider.isConfigured())
+    ?? hashingEmbeddingProvider;
+};
+
+const BATCH_SIZE = 64;
+
+// Embed in batches, so a long document doesn't exceed the provider's request limits
+export const embedTexts = async (provider: EmbeddingProvider, texts: string[], signal?: AbortSignal) => {
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+    vectors.push(...await provider.embed(texts.slice(i, i + BATCH_SIZE), signal));
+  }
+  return vectors;
+};
+
+export const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
@@ -0,0 +1,48 @@
+import { EmbeddingProvider, EmbeddingProviderId } from './types';
+
+interface OpenAICompatibleEmbeddingConfig {
+  id: EmbeddingProviderId;
+  name: string;
+  getBaseURL: () => string | undefined;
+  getApiKey: () => string | undefined;
+  // Local servers usually run without a key
+  requiresApiKey: boolean;
+  getModel: () => string;
+}
+
+// Provider for any /embeddings endpoint in OpenAI's format
+export const createOpenAICompatibleEmbeddings = (config: OpenAICompatibleEmbeddingConfig): EmbeddingProvider => ({
+  id: config.id,
+  name: config.name,
+  getModel: config.getModel,
+  isConfigured: () => !!config.getBaseURL() && (!config.requiresApiKey || !!config.getApiKey()),
+
+  async embed(texts, signal) {
+    const baseURL = config.getBaseURL();
+    const apiKey = config.getApiKey();
+    if (!baseURL || (config.requiresApiKey && !apiKey)) {
+      throw new Error(`${config.name} embeddings are not configured in environment variables`);
+    }
+
+    const response = await fetch(`${baseURL.replace(/\/+$/, '')}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: config.getModel(), input: texts }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new Error(`${config.name} embeddings error ${response.status}: ${errorText || response.statusText}`);
+    }
+
+    const data: { data?: { index: number; embedding: number[] }[] } = await response.json();
+    if (!data.data || data.data.length !== texts.length) {
+      throw new Error(`${config.name} returned ${data.data?.length ?? 0} embeddings for ${texts.length} texts`);
+    }
+    return [...data.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+  },
+});
@@ -0,0 +1,10 @@
+export type EmbeddingProviderId = 'openai' | 'local' | 'hashing';
+
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId;
+  name: string;
+  // Vectors from different models can't be compared, so stored vectors record the model that made them
+  getModel: () => string;
+  isConfigured: () => boolean;
+  embed: (texts: string[], signal?: AbortSignal) => Promise<number[][]>;
+}
@@ -0,0 +1,112 @@
+import {
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import { isTableDivider, parseInlineMarkdown, splitTableRow } from './markdown';
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+const inlineRuns = (text: string): (TextRun | ExternalHyperlink)[] =>
+  parseInlineMarkdown(text).map(span => span.url
+    ? new ExternalHyperlink({ link: span.url, children: [new TextRun({ text: span.text, style: 'Hyperlink' })] })
+    : new TextRun({
+      text: span.text,
+      bold: span.bold,
+      italics: span.italic,
+      font: span.code ? 'Courier New' : undefined,
+    }));
+
+const buildTable = (lines: string[]) => {
+  const rows = lines.filter(line => !isTableDivider(line)).map(splitTableRow);
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: rows.map((cells, rowIndex) => new TableRow({
+      tableHeader: rowIndex === 0,
+      children: cells.map(cell => new TableCell({
+        children: [new Paragraph({
+          children: rowIndex === 0 ? [new TextRun({ text: cell, bold: true })] : inlineRuns(cell),
+        })],
+      })),
+    })),
+  });
+};
+
+// Line-based conversion of the report's Markdown: headings, lists, tables, code blocks and paragraphs
+const markdownToDocx = (markdown: string): (Paragraph | Table)[] => {
+  const blocks: (Paragraph | Table)[] = [];
+  const lines = markdown.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.trim().startsWith('```')) {
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].trim().startsWith('```'); i++) code.push(lines[i]);
+      code.forEach(codeLine => blocks.push(new Paragraph({
+        children: [new TextRun({ text: codeLine, font: 'Courier New', size: 20 })],
+      })));
+      continue;
+    }
+
+    if (line.trim().startsWith('|')) {
+      const tableLines: string[] = [];
+      for (; i < lines.length && lines[i].trim().startsWith('|'); i++) tableLines.push(lines[i]);
+      i--;
+      blocks.push(buildTable(tableLines));
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      blocks.push(new Paragraph({ heading: HEADING_LEVELS[heading[1].length - 1], children: inlineRuns(heading[2]) }));
+      continue;
+    }
+
+    const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+    if (bullet) {
+      blocks.push(new Paragraph({
+        bullet: { level: Math.min(Math.floor(bullet[1].length / 2), 8) },
+        children: inlineRuns(bullet[2]),
+      }));
+      continue;
+    }
+
+    const numbered = line.match(/^(\s*)(\d+)\.\s+(.*)$/);
+    if (numbered) {
+      blocks.push(new Paragraph({
+        indent: { left: 360 + Math.floor(numbered[1].length / 2) * 360, hanging: 360 },
+        children: [new TextRun(`${numbered[2]}. `), ...inlineRuns(numbered[3])],
+      }));
+      continue;
+    }
+
+    if (/^\s*(-{3,}|\*{3,})\s*$/.test(line) || !line.trim()) continue;
+
+    blocks.push(new Paragraph({ children: inlineRuns(line.replace(/^>\s?/, '')), spacing: { after: 120 } }));
+  }
+
+  return blocks;
+};
+
+export const buildDocxReport = (markdown: string, title: string): Promise<Blob> => {
+  const doc = new Document({
+    title,
+    sections: [{ children: markdownToDocx(markdown) }],
+  });
+  return Packer.toBlob(doc);
+};
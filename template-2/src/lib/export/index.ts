@@ -0,0 +1,43 @@
+import { ResearchRecord } from '../research/types';
+import { buildDocxReport } from './docx';
+import { ReportExportOptions, buildMarkdownReport, reportFilename } from './markdown';
+import { buildPdfReport } from './pdf';
+import { printReport } from './print';
+
+// Printing opens the browser's print dialog instead of downloading a file
+export type ReportFormat = 'markdown' | 'pdf' | 'docx' | 'print';
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// All formats are generated in the browser from the same Markdown report
+export const exportReport = async (
+  record: ResearchRecord,
+  format: ReportFormat,
+  options: ReportExportOptions
+) => {
+  const markdown = buildMarkdownReport(record, options);
+
+  switch (format) {
+    case 'markdown':
+      downloadBlob(new Blob([markdown], { type: 'text/markdown;charset=utf-8' }), reportFilename(record.query, 'md'));
+      break;
+    case 'pdf':
+      downloadBlob(buildPdfReport(markdown, record.query), reportFilename(record.query, 'pdf'));
+      break;
+    case 'docx':
+      downloadBlob(await buildDocxReport(markdown, record.query), reportFilename(record.query, 'docx'));
+      break;
+    case 'print':
+      printReport(markdown, record.query);
+      break;
+  }
+};
@@ -0,0 +1,119 @@
+import { format } from 'date-fns';
+import { formatCitations, stripSourcesTable } from '../research/citations';
+import { ConsensusAnalysis, ConsensusClaim, ResearchRecord } from '../research/types';
+
+export interface ReportExportOptions {
+  includeReasoning: boolean;
+}
+
+const escapeTableCell = (text: string) =>
+  text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ').trim();
+
+export const buildSourcesTable = (record: Pick<ResearchRecord, 'searchResults'>): string =>
+  `| # | Source | Description |\n|---|--------|-------------|\n` +
+  record.searchResults.map((result, index) => {
+    const description = result.snippet || result.content.slice(0, 150);
+    return `| ${index + 1} | [${escapeTableCell(result.title)}](${result.url}) | ${escapeTableCell(description)} |`;
+  }).join('\n');
+
+const CONSENSUS_HEADINGS: [ConsensusClaim['status'], string][] = [
+  ['agreed', 'Sources agree'],
+  ['disputed', 'Sources disagree'],
+  ['uncorroborated', 'Single source only'],
+];
+
+const buildConsensusSection = (consensus: ConsensusAnalysis): string => {
+  const groups = CONSENSUS_HEADINGS
+    .map(([status, heading]) => {
+      const claims = consensus.claims.filter(claim => claim.status === status);
+      if (claims.length === 0) return '';
+      const items = claims.map(claim => {
+        const against = claim.contradicting.length ? `; contradicted by ${claim.contradicting.map(n => `[${n}]`).join('')}` : '';
+        return `- ${claim.claim} (${claim.supporting.map(n => `[${n}]`).join('') || 'no support'}${against})`;
+      });
+      return `### ${heading}\n\n${items.join('\n')}`;
+    })
+    .filter(Boolean);
+  return groups.length ? `## Consensus & Disputes\n\n${groups.join('\n\n')}` : '';
+};
+
+// Standalone Markdown report: the answer with [N] citations, a rebuilt sources table and optionally the reasoning trace
+export const buildMarkdownReport = (record: ResearchRecord, { includeReasoning }: ReportExportOptions): string => {
+  const body = formatCitations(stripSourcesTable(record.response), n => `[${n}]`);
+
+  const parts = [
+    `# ${record.query}`,
+    `_Researched ${format(record.createdAt, 'PPP p')}_`,
+    body,
+  ];
+
+  const consensus = record.consensus ? buildConsensusSection(record.consensus) : '';
+  if (consensus) parts.push(consensus);
+  parts.push(`## Sources\n\n${buildSourcesTable(record)}`);
+
+  if (includeReasoning && record.reasoning) {
+    parts.push(`## Appendix: Reasoning\n\n${record.reasoning.trim()}`);
+  }
+
+  return parts.join('\n\n') + '\n';
+};
+
+// A run of inline text with its Markdown formatting resolved
+export interface InlineSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  // Only http(s) links; others keep just their text
+  url?: string;
+}
+
+// Links, bold, italics and inline code
+const INLINE_PATTERN = /\[([^\]]+)\]\(([^)\s]+)\)|\*\*([^*]+)\*\*|__([^_]+)__|\*([^*]+)\*|_([^_]+)_|`([^`]+)`/g;
+
+// Split a line into spans for the docx and PDF exports
+export const parseInlineMarkdown = (text: string): InlineSpan[] => {
+  const spans: InlineSpan[] = [];
+  let last = 0;
+
+  for (const match of Array.from(text.matchAll(INLINE_PATTERN))) {
+    const index = match.index ?? 0;
+    if (index > last) spans.push({ text: text.slice(last, index) });
+
+    const [, linkText, url, bold, boldAlt, italic, italicAlt, code] = match;
+    if (linkText) {
+      spans.push(/^https?:\/\//.test(url) ? { text: linkText, url } : { text: linkText });
+    } else if (bold || boldAlt) {
+      spans.push({ text: bold || boldAlt, bold: true });
+    } else if (italic || italicAlt) {
+      spans.push({ text: italic || italicAlt, italic: true });
+    } else if (code) {
+      spans.push({ text: code, code: true });
+    }
+    last = index + match[0].length;
+  }
+
+  if (last < text.length) spans.push({ text: text.slice(last) });
+  return spans;
+};
+
+// Cells of a Markdown table row, with escaped pipes restored
+export const splitTableRow = (line: string) =>
+  line
+    .trim()
+    .replace(/^\||\|$/g, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.replace(/\\\|/g, '|').trim());
+
+// The |---|---| line under a table's header
+export const isTableDivider = (line: string) => /^\s*\|?\s*:?-{2,}/.test(line);
+
+// File name derived from the query, e.g. "ai-chip-export-controls"
+export const reportFilename = (query: string, extension: string) => {
+  const slug = query
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${slug || 'research-report'}.${extension}`;
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { buildPdfReport } from './pdf';
+
+const report = `# Heat pumps in cold climates
+
+_Researched July 1st, 2024_
+
+Modern heat pumps keep working **well below freezing** [1] – even at –25 °C.
+
+## Running costs
+- Depend on [electricity prices](https://example.com/prices) [2]
+  - Nested detail
+1. Insulate first
+2. Size the unit with \`heat loss\` figures
+
+\`\`\`
+cop = heat / electricity
+\`\`\`
+
+---
+
+## Sources
+
+| # | Source | Description |
+|---|--------|-------------|
+| 1 | [Guide](https://example.com/guide) | A guide to heat pumps \\| costs |
+`;
+
+// jsPDF leaves page streams uncompressed, so the drawn text can be read back
+const readPdf = async (blob: Blob) => Buffer.from(await blob.arrayBuffer()).toString('latin1');
+
+describe('buildPdfReport', () => {
+  it('draws the report as a PDF with its title, text and links', async () => {
+    const blob = buildPdfReport(report, 'Heat pumps in cold climates');
+    const pdf = await readPdf(blob);
+
+    expect(blob.type).toBe('application/pdf');
+    expect(pdf.startsWith('%PDF-')).toBe(true);
+    expect(pdf).toContain('/Title (Heat pumps in cold climates)');
+    for (const text of ['(Running) Tj', '(freezing) Tj', '(Insulate) Tj', '(cop = heat / electricity) Tj', '(costs) Tj']) {
+      expect(pdf).toContain(text);
+    }
+    expect(pdf).toContain('/URI (https://example.com/prices)');
+    expect(pdf).toContain('/URI (https://example.com/guide)');
+    expect(pdf).not.toContain('**');
+  });
+
+  it('starts new pages as the report grows', async () => {
+    const long = Array.from({ length: 200 }, (_, index) => `Paragraph ${index + 1} about heat pumps.`).join('\n\n');
+    const pdf = await readPdf(buildPdfReport(long, 'Long report'));
+
+    expect(pdf).toMatch(/\/Type \/Pages\n\/Kids \[[^\]]+\]\n\/Count ([2-9]|\d\d)/);
+    expect(pdf).toContain('(200) Tj');
+  });
+});
@@ -0,0 +1,207 @@
+import { jsPDF } from 'jspdf';
+import { InlineSpan, isTableDivider, parseInlineMarkdown, splitTableRow } from './markdown';
+
+// Sizes are in points
+const PAGE_MARGIN = 56;
+const BODY_SIZE = 11;
+const HEADING_SIZES = [20, 15, 12.5, 11.5, 11, 11];
+const TABLE_SIZE = 9;
+const CODE_SIZE = 9;
+const LINE_HEIGHT = 1.4;
+const CELL_PADDING = 4;
+const LIST_INDENT = 18;
+
+const TEXT_COLOR = '#111827';
+const LINK_COLOR = '#1d4ed8';
+const RULE_COLOR = '#d1d5db';
+
+// A piece of text placed on a line, `x` points from the line's start
+interface Fragment {
+  text: string;
+  x: number;
+  span: InlineSpan;
+}
+
+const setSpanFont = (doc: jsPDF, span: InlineSpan, bold: boolean) => {
+  const isBold = bold || span.bold;
+  const style = isBold && span.italic ? 'bolditalic' : isBold ? 'bold' : span.italic ? 'italic' : 'normal';
+  doc.setFont(span.code ? 'courier' : 'helvetica', style);
+};
+
+// Word-wrap spans to `width`, measuring each word in its own font. Words wider
+// than a whole line are broken up.
+const wrapSpans = (doc: jsPDF, spans: InlineSpan[], width: number, size: number, bold = false): Fragment[][] => {
+  doc.setFontSize(size);
+  const lines: Fragment[][] = [[]];
+  let x = 0;
+
+  for (const span of spans) {
+    setSpanFont(doc, span, bold);
+    for (const word of span.text.split(/(\s+)/)) {
+      if (!word) continue;
+      if (/^\s+$/.test(word)) {
+        if (lines[lines.length - 1].length) x += doc.getTextWidth(' ');
+        continue;
+      }
+      const pieces: string[] = doc.getTextWidth(word) > width ? doc.splitTextToSize(word, width) : [word];
+      for (const piece of pieces) {
+        const pieceWidth = doc.getTextWidth(piece);
+        if (lines[lines.length - 1].length && x + pieceWidth > width) {
+          lines.push([]);
+          x = 0;
+        }
+        lines[lines.length - 1].push({ text: piece, x, span });
+        x += pieceWidth;
+      }
+    }
+  }
+
+  return lines;
+};
+
+// Line-based conversion of the report's Markdown, like the docx export: headings,
+// lists, tables, code blocks and paragraphs. The built-in fonts only cover Latin
+// characters, so other scripts don't render.
+const renderMarkdown = (doc: jsPDF, markdown: string) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - 2 * PAGE_MARGIN;
+  let y = PAGE_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN && y > PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  const drawLine = (line: Fragment[], left: number, top: number, size: number, bold = false) => {
+    doc.setFontSize(size);
+    for (const { text, x, span } of line) {
+      setSpanFont(doc, span, bold);
+      doc.setTextColor(span.url ? LINK_COLOR : TEXT_COLOR);
+      if (span.url) {
+        doc.textWithLink(text, left + x, top + size, { url: span.url });
+      } else {
+        doc.text(text, left + x, top + size);
+      }
+    }
+  };
+
+  const writeLines = (lines: Fragment[][], left: number, size: number, bold = false) => {
+    for (const line of lines) {
+      ensureSpace(size * LINE_HEIGHT);
+      drawLine(line, left, y, size, bold);
+      y += size * LINE_HEIGHT;
+    }
+  };
+
+  const writeTable = (tableLines: string[]) => {
+    const rows = tableLines.filter(line => !isTableDivider(line)).map(splitTableRow);
+    const columns = Math.max(...rows.map(row => row.length));
+    // Columns share the width by their longest cell, so a "#" column stays narrow
+    const weights = Array.from({ length: columns }, (_, column) =>
+      Math.min(Math.max(...rows.map(row => (row[column] ?? '').length), 3), 60));
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    const widths = weights.map(weight => contentWidth * weight / total);
+
+    doc.setDrawColor(RULE_COLOR);
+    doc.setLineWidth(0.5);
+    rows.forEach((cells, rowIndex) => {
+      const cellLines = widths.map((width, column) => wrapSpans(
+        doc,
+        rowIndex === 0 ? [{ text: cells[column] ?? '', bold: true }] : parseInlineMarkdown(cells[column] ?? ''),
+        width - 2 * CELL_PADDING,
+        TABLE_SIZE
+      ));
+      const height = Math.max(...cellLines.map(lines => lines.length)) * TABLE_SIZE * LINE_HEIGHT + 2 * CELL_PADDING;
+      ensureSpace(height);
+
+      let left = PAGE_MARGIN;
+      cellLines.forEach((lines, column) => {
+        doc.rect(left, y, widths[column], height);
+        lines.forEach((line, index) =>
+          drawLine(line, left + CELL_PADDING, y + CELL_PADDING + index * TABLE_SIZE * LINE_HEIGHT, TABLE_SIZE));
+        left += widths[column];
+      });
+      y += height;
+    });
+    y += BODY_SIZE * 0.6;
+  };
+
+  const lines = markdown.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.trim().startsWith('```')) {
+      for (i++; i < lines.length && !lines[i].trim().startsWith('```'); i++) {
+        doc.setFont('courier', 'normal');
+        doc.setFontSize(CODE_SIZE);
+        const wrapped: string[] = doc.splitTextToSize(lines[i] || ' ', contentWidth);
+        writeLines(wrapped.map(text => [{ text, x: 0, span: { text, code: true } }]), PAGE_MARGIN, CODE_SIZE);
+      }
+      y += BODY_SIZE * 0.6;
+      continue;
+    }
+
+    if (line.trim().startsWith('|')) {
+      const tableLines: string[] = [];
+      for (; i < lines.length && lines[i].trim().startsWith('|'); i++) tableLines.push(lines[i]);
+      i--;
+      writeTable(tableLines);
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      const size = HEADING_SIZES[heading[1].length - 1];
+      const wrapped = wrapSpans(doc, parseInlineMarkdown(heading[2]), contentWidth, size, true);
+      if (y > PAGE_MARGIN) y += size * 0.6;
+      // Keep a heading on the same page as the first line after it
+      ensureSpace((wrapped.length + 1) * size * LINE_HEIGHT);
+      writeLines(wrapped, PAGE_MARGIN, size, true);
+      y += size * 0.2;
+      continue;
+    }
+
+    const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+    const numbered = line.match(/^(\s*)(\d+)\.\s+(.*)$/);
+    if (bullet || numbered) {
+      const [indent, marker, text] = bullet ? [bullet[1], '', bullet[2]] : [numbered![1], `${numbered![2]}.`, numbered![3]];
+      const left = PAGE_MARGIN + Math.min(Math.floor(indent.length / 2), 8) * LIST_INDENT;
+      const wrapped = wrapSpans(doc, parseInlineMarkdown(text), contentWidth - (left - PAGE_MARGIN) - LIST_INDENT, BODY_SIZE);
+      ensureSpace(BODY_SIZE * LINE_HEIGHT);
+      if (marker) {
+        doc.setFont('helvetica', 'normal');
+        doc.setTextColor(TEXT_COLOR);
+        doc.text(marker, left, y + BODY_SIZE);
+      } else {
+        doc.setFillColor(TEXT_COLOR);
+        doc.circle(left + 3, y + BODY_SIZE * 0.65, 1.5, 'F');
+      }
+      writeLines(wrapped, left + LIST_INDENT, BODY_SIZE);
+      y += BODY_SIZE * 0.2;
+      continue;
+    }
+
+    if (/^\s*(-{3,}|\*{3,})\s*$/.test(line)) {
+      ensureSpace(BODY_SIZE);
+      doc.setDrawColor(RULE_COLOR);
+      doc.line(PAGE_MARGIN, y + BODY_SIZE / 2, pageWidth - PAGE_MARGIN, y + BODY_SIZE / 2);
+      y += BODY_SIZE;
+      continue;
+    }
+
+    if (!line.trim()) continue;
+
+    writeLines(wrapSpans(doc, parseInlineMarkdown(line.replace(/^>\s?/, '')), contentWidth, BODY_SIZE), PAGE_MARGIN, BODY_SIZE);
+    y += BODY_SIZE * 0.6;
+  }
+};
+
+export const buildPdfReport = (markdown: string, title: string): Blob => {
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  doc.setProperties({ title });
+  renderMarkdown(doc, markdown);
+  return doc.output('blob');
+};
@@ -0,0 +1,53 @@
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+
+const PRINT_STYLES = `
+  @page { margin: 2cm; }
+  body { font-family: Georgia, 'Times New Roman', serif; font-size: 11pt; line-height: 1.55; color: #111827; }
+  h1 { font-size: 22pt; margin: 0 0 4pt; }
+  h2 { font-size: 15pt; margin: 18pt 0 6pt; }
+  h3 { font-size: 12.5pt; margin: 14pt 0 4pt; }
+  h2, h3 { page-break-after: avoid; }
+  a { color: #1d4ed8; text-decoration: none; }
+  table { width: 100%; border-collapse: collapse; margin: 10pt 0; font-size: 9.5pt; }
+  th, td { border: 1px solid #d1d5db; padding: 4pt 6pt; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  tr { page-break-inside: avoid; }
+  code, pre { font-family: 'Courier New', monospace; font-size: 9.5pt; }
+  pre { background: #f3f4f6; padding: 8pt; white-space: pre-wrap; }
+`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Render the report into a hidden iframe and open the browser's print dialog,
+// where it can be saved as PDF. Nothing leaves the browser.
+export const printReport = (markdown: string, title: string) => {
+  const body = renderToStaticMarkup(
+    <ReactMarkdown remarkPlugins={[remarkGfm]}>{markdown}</ReactMarkdown>
+  );
+
+  const iframe = document.createElement('iframe');
+  iframe.setAttribute('aria-hidden', 'true');
+  iframe.style.position = 'fixed';
+  iframe.style.width = '0';
+  iframe.style.height = '0';
+  iframe.style.border = '0';
+  document.body.appendChild(iframe);
+
+  const printWindow = iframe.contentWindow;
+  const doc = iframe.contentDocument;
+  if (!printWindow || !doc) {
+    iframe.remove();
+    throw new Error('Unable to open print view');
+  }
+
+  doc.open();
+  doc.write(`<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>${PRINT_STYLES}</style></head><body>${body}</body></html>`);
+  doc.close();
+
+  printWindow.addEventListener('afterprint', () => iframe.remove());
+  printWindow.focus();
+  printWindow.print();
+};
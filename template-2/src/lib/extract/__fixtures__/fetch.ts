@@ -0,0 +1,28 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { HostLookup } from '../address';
+
+export const readFixture = (name: string) => readFileSync(join(__dirname, name), 'utf8');
+
+export interface FixtureResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+// A fetch that answers from a table of URLs and records every request; unknown URLs get a 404
+export const createFixtureFetch = (routes: Record<string, FixtureResponse>) => {
+  const requests: { url: string; init?: RequestInit }[] = [];
+  const fixtureFetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = input.toString();
+    requests.push({ url, init });
+    const route = routes[url];
+    if (!route) return new Response('Not found', { status: 404 });
+    return new Response(route.body ?? null, { status: route.status ?? 200, headers: route.headers });
+  };
+  return { fetch: fixtureFetch as typeof fetch, requests };
+};
+
+// Hosts resolve to a public documentation address unless listed, so fixtures never touch DNS
+export const createFixtureLookup = (addresses: Record<string, string[]> = {}): HostLookup =>
+  async hostname => addresses[hostname] ?? ['93.184.215.14'];
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { isPublicAddress, isPublicHost } from './address';
+
+describe('isPublicAddress', () => {
+  it.each([
+    '0.0.0.0', '10.0.0.1', '100.64.0.1', '127.0.0.1', '169.254.169.254', '172.16.0.1', '172.31.255.255',
+    '192.0.0.8', '192.168.1.1', '198.18.0.1', '224.0.0.1', '255.255.255.255',
+    '::', '::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe', '64:ff9b::10.0.0.1', 'fc00::1', 'fd00:ec2::254',
+    'fe80::1', 'ff02::1',
+  ])('rejects %s', address => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it.each(['8.8.8.8', '93.184.215.14', '172.32.0.1', '2606:4700:4700::1111', '::ffff:8.8.8.8'])('accepts %s', address => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+
+  it('rejects anything that is not an IP address', () => {
+    expect(isPublicAddress('example.com')).toBe(false);
+  });
+});
+
+describe('isPublicHost', () => {
+  const lookup = async (hostname: string) => {
+    if (hostname === 'nowhere.test') throw new Error('ENOTFOUND');
+    return hostname === 'internal.test' ? ['10.0.0.2'] : ['93.184.215.14'];
+  };
+
+  it('resolves names and requires every address to be public', async () => {
+    expect(await isPublicHost('example.test', lookup)).toBe(true);
+    expect(await isPublicHost('internal.test', lookup)).toBe(false);
+    expect(await isPublicHost('nowhere.test', lookup)).toBe(false);
+  });
+
+  it('rejects localhost and internal names without resolving them', async () => {
+    for (const host of ['localhost', 'api.localhost', 'localhost.', 'metadata.google.internal']) {
+      expect(await isPublicHost(host, lookup), host).toBe(false);
+    }
+  });
+
+  it('accepts bracketed IPv6 hosts from URLs', async () => {
+    expect(await isPublicHost('[2606:4700:4700::1111]', lookup)).toBe(true);
+    expect(await isPublicHost('[::1]', lookup)).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+// Resolves a hostname to every address it points at
+export type HostLookup = (hostname: string) => Promise<string[]>;
+
+export const lookupHost: HostLookup = async hostname =>
+  (await lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+
+const parseIPv4 = (address: string) => address.split('.').map(Number);
+
+// Loopback, private, shared, link-local (cloud metadata lives at 169.254.169.254),
+// benchmarking, multicast and reserved ranges
+const isPrivateIPv4 = (address: string) => {
+  const [a, b, c] = parseIPv4(address);
+  return a === 0
+    || a === 10
+    || a === 127
+    || a === 100 && b >= 64 && b <= 127
+    || a === 169 && b === 254
+    || a === 172 && b >= 16 && b <= 31
+    || a === 192 && b === 168
+    || a === 192 && b === 0 && c === 0
+    || a === 198 && (b === 18 || b === 19)
+    || a >= 224;
+};
+
+// Expand "::" so the address is always eight 16-bit groups
+const toIPv6Groups = (address: string): number[] => {
+  let text = address.toLowerCase();
+  // An embedded IPv4 tail ("::ffff:127.0.0.1") becomes two groups
+  const v4 = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4) {
+    const [a, b, c, d] = parseIPv4(v4[1]);
+    text = text.slice(0, -v4[1].length) + `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const missing = tail === undefined ? 0 : 8 - headGroups.length - tailGroups.length;
+  return [...headGroups, ...Array(missing).fill('0'), ...tailGroups].map(group => parseInt(group, 16));
+};
+
+const isPrivateIPv6 = (address: string) => {
+  const groups = toIPv6Groups(address);
+  const embeddedV4 = `${groups[6] >> 8}.${groups[6] & 255}.${groups[7] >> 8}.${groups[7] & 255}`;
+  const leadingZeros = groups.slice(0, 5).every(group => group === 0);
+
+  // Unspecified and loopback
+  if (groups.slice(0, 7).every(group => group === 0) && groups[7] <= 1) return true;
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) carry an IPv4 address
+  if (leadingZeros && groups[5] === 0xffff) return isPrivateIPv4(embeddedV4);
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return isPrivateIPv4(embeddedV4);
+  }
+  // Unique local (fc00::/7), link-local (fe80::/10) and multicast (ff00::/8)
+  return (groups[0] & 0xfe00) === 0xfc00 || (groups[0] & 0xffc0) === 0xfe80 || (groups[0] & 0xff00) === 0xff00;
+};
+
+export const isPublicAddress = (address: string): boolean => {
+  const version = isIP(address);
+  if (version === 4) return !isPrivateIPv4(address);
+  if (version === 6) return !isPrivateIPv6(address);
+  return false;
+};
+
+// True when the host and every address it resolves to are on the public internet.
+// URL hostnames keep IPv6 addresses in brackets, and WHATWG URL parsing has
+// already turned shorthand like "0x7f.1" into dotted IPv4.
+export const isPublicHost = async (hostname: string, resolve: HostLookup = lookupHost): Promise<boolean> => {
+  const host = hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+  if (!host || host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) return false;
+  if (isIP(host)) return isPublicAddress(host);
+
+  try {
+    const addresses = await resolve(host);
+    return addresses.length > 0 && addresses.every(isPublicAddress);
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,80 @@
+import { estimateTokens } from '../llm/tokens';
+
+export interface TextChunk {
+  text: string;
+  // Position of the chunk within its page
+  index: number;
+}
+
+
+// Split text into chunks of roughly `maxTokens`, breaking on paragraphs and
+// then sentences, with `overlapTokens` of the previous chunk repeated for context
+export const chunkText = (text: string, maxTokens = 300, overlapTokens = 40): TextChunk[] => {
+  const maxChars = maxTokens * 4;
+  const overlapChars = overlapTokens * 4;
+  const pieces = text
+    .split(/\n+/)
+    .flatMap(paragraph => paragraph.length <= maxChars
+      ? [paragraph]
+      : paragraph.match(new RegExp(`[^.!?]{1,${maxChars}}(?:[.!?]+\\s*|$)`, 'g')) ?? [])
+    .map(piece => piece.trim())
+    .filter(Boolean);
+
+  const chunks: TextChunk[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 1 > maxChars) {
+      chunks.push({ text: current, index: chunks.length });
+      const tail = current.slice(-overlapChars);
+      current = overlapChars > 0 ? tail.slice(tail.indexOf(' ') + 1) : '';
+    }
+    current = current ? `${current}\n${piece}` : piece;
+  }
+  if (current) chunks.push({ text: current, index: chunks.length });
+  return chunks;
+};
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'with', 'what', 'how', 'why', 'when', 'who',
+  'which', 'this', 'that', 'from', 'was', 'were', 'has', 'have', 'does', 'did', 'its', 'into', 'about',
+]);
+
+const terms = (text: string) =>
+  (text.toLowerCase().match(/[a-z0-9\u00c0-\uffff]+/g) ?? []).filter(term => term.length > 2 && !STOP_WORDS.has(term));
+
+// Score chunks against the query by term frequency, weighted by how rare each
+// term is across the chunks and normalised for chunk length
+export const rankChunks = (chunks: TextChunk[], query: string): { chunk: TextChunk; score: number }[] => {
+  const queryTerms = Array.from(new Set(terms(query)));
+  const chunkTerms = chunks.map(chunk => terms(chunk.text));
+
+  const idf = new Map(queryTerms.map(term => {
+    const containing = chunkTerms.filter(list => list.includes(term)).length;
+    return [term, Math.log(1 + chunks.length / (1 + containing))];
+  }));
+
+  return chunks
+    .map((chunk, i) => {
+      const list = chunkTerms[i];
+      const score = queryTerms.reduce((sum, term) => {
+        const count = list.filter(word => word === term).length;
+        return sum + (count > 0 ? (1 + Math.log(count)) * (idf.get(term) ?? 0) : 0);
+      }, 0) / Math.sqrt(Math.max(list.length, 1) / 50 + 1);
+      return { chunk, score };
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
+// The best-scoring chunks that fit in the budget, returned in page order
+export const selectChunks = (chunks: TextChunk[], query: string, tokenBudget: number): TextChunk[] => {
+  const selected: TextChunk[] = [];
+  let used = 0;
+  for (const { chunk, score } of rankChunks(chunks, query)) {
+    if (score <= 0 && selected.length > 0) break;
+    const tokens = estimateTokens(chunk.text);
+    if (used + tokens > tokenBudget) continue;
+    selected.push(chunk);
+    used += tokens;
+  }
+  return selected.sort((a, b) => a.index - b.index);
+};
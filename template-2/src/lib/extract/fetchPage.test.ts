@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { createFixtureFetch, createFixtureLookup, readFixture } from './__fixtures__/fetch';
+import { FetchPageOptions, PageFetchError, fetchPage } from './fetchPage';
+
+const html = { headers: { 'content-type': 'text/html; charset=utf-8' }, body: readFixture('article.html') };
+const robots = { headers: { 'content-type': 'text/plain' }, body: readFixture('robots.txt') };
+
+// robots.txt is cached per origin for the whole process, so each test uses its own host
+const withFixtures = (routes: Parameters<typeof createFixtureFetch>[0], options: FetchPageOptions = {}) => {
+  const fixtures = createFixtureFetch(routes);
+  return { ...fixtures, options: { fetch: fixtures.fetch, lookup: createFixtureLookup(), ...options } };
+};
+
+const fetchError = (promise: Promise<unknown>) => promise.then(
+  () => { throw new Error('Expected the fetch to fail'); },
+  (error: unknown) => error as PageFetchError
+);
+
+describe('fetchPage', () => {
+  it('reduces an HTML fixture to its title and article text', async () => {
+    const { options } = withFixtures({ 'https://article.test/heat-pumps': html });
+    const page = await fetchPage('https://article.test/heat-pumps', options);
+
+    expect(page.title).toBe('Heat Pumps in Cold Climates & What to Expect');
+    expect(page.text.split('\n')).toEqual([
+      'Modern air-source heat pumps keep working well below freezing, and cold-climate models are rated down to about -25 °C.',
+      'Efficiency drops as the outdoor temperature falls, so most installations in very cold regions keep a backup heat source for the coldest days.',
+      'Running costs depend mostly on local electricity prices compared with gas or oil prices.',
+    ]);
+  });
+
+  it('returns plain text as is and rejects other content types', async () => {
+    const { options } = withFixtures({
+      'https://plain.test/notes.txt': { headers: { 'content-type': 'text/plain' }, body: '  Plain notes.\n' },
+      'https://plain.test/data.json': { headers: { 'content-type': 'application/json' }, body: '{}' },
+    });
+
+    expect(await fetchPage('https://plain.test/notes.txt', options)).toEqual({ title: '', text: 'Plain notes.' });
+    expect((await fetchError(fetchPage('https://plain.test/data.json', options))).reason).toBe('content-type');
+  });
+
+  it('follows the robots.txt group for its own user agent', async () => {
+    const { options } = withFixtures({
+      'https://robots.test/robots.txt': robots,
+      'https://robots.test/drafts/published': html,
+      'https://robots.test/private/report': html,
+    });
+
+    expect((await fetchError(fetchPage('https://robots.test/drafts/new', options))).reason).toBe('robots');
+    expect((await fetchError(fetchPage('https://robots.test/files/report.pdf', options))).reason).toBe('robots');
+    await expect(fetchPage('https://robots.test/drafts/published', options)).resolves.toHaveProperty('title');
+    // The "*" group doesn't apply once a group names us
+    await expect(fetchPage('https://robots.test/private/report', options)).resolves.toHaveProperty('title');
+  });
+
+  it('fetches robots.txt once per origin', async () => {
+    const { options, requests } = withFixtures({
+      'https://cached.test/robots.txt': robots,
+      'https://cached.test/a': html,
+      'https://cached.test/b': html,
+    });
+
+    await Promise.all([fetchPage('https://cached.test/a', options), fetchPage('https://cached.test/b', options)]);
+    expect(requests.filter(request => request.url.endsWith('/robots.txt'))).toHaveLength(1);
+  });
+
+  it('treats a forbidden robots.txt as disallowing everything', async () => {
+    const { options, requests } = withFixtures({
+      'https://forbidden.test/robots.txt': { status: 403 },
+      'https://forbidden.test/page': html,
+    });
+
+    expect((await fetchError(fetchPage('https://forbidden.test/page', options))).reason).toBe('robots');
+    expect(requests.map(request => request.url)).toEqual(['https://forbidden.test/robots.txt']);
+  });
+
+  it('refuses loopback, private, link-local and metadata hosts without requesting them', async () => {
+    const { options, requests } = withFixtures({}, {
+      lookup: createFixtureLookup({ 'intranet.test': ['10.1.2.3'], 'mixed.test': ['93.184.215.14', '192.168.0.10'] }),
+    });
+
+    for (const url of [
+      'http://127.0.0.1/',
+      'http://localhost:3000/api/research',
+      'http://[::1]/',
+      'http://[::ffff:127.0.0.1]/',
+      'http://0x7f.1/',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://metadata.google.internal/computeMetadata/v1/',
+      'http://[fd00:ec2::254]/',
+      'http://172.20.0.1/',
+      'http://intranet.test/',
+      'http://mixed.test/',
+    ]) {
+      expect((await fetchError(fetchPage(url, options))).reason, url).toBe('address');
+    }
+    expect(requests).toEqual([]);
+  });
+
+  it('checks every redirect hop before requesting it', async () => {
+    const { options, requests } = withFixtures({
+      'https://redirect.test/start': { status: 302, headers: { location: '/next' } },
+      'https://redirect.test/next': { status: 301, headers: { location: 'http://169.254.169.254/latest/meta-data/' } },
+    });
+
+    expect((await fetchError(fetchPage('https://redirect.test/start', options))).reason).toBe('address');
+    expect(requests.map(request => request.url)).toEqual([
+      'https://redirect.test/robots.txt',
+      'https://redirect.test/start',
+      'https://redirect.test/next',
+    ]);
+    expect(requests.every(request => request.init?.redirect === 'manual')).toBe(true);
+  });
+
+  it('follows redirects to public hosts and applies their robots.txt', async () => {
+    const { options } = withFixtures({
+      'https://old.test/article': { status: 301, headers: { location: 'https://new.test/article' } },
+      'https://old.test/draft': { status: 301, headers: { location: 'https://new.test/drafts/article' } },
+      'https://new.test/robots.txt': robots,
+      'https://new.test/article': html,
+    });
+
+    await expect(fetchPage('https://old.test/article', options)).resolves.toHaveProperty('title');
+    expect((await fetchError(fetchPage('https://old.test/draft', options))).reason).toBe('robots');
+  });
+
+  it('gives up after too many redirects', async () => {
+    const routes: Parameters<typeof createFixtureFetch>[0] = {};
+    for (let hop = 0; hop < 10; hop++) {
+      routes[`https://loop.test/${hop}`] = { status: 302, headers: { location: `/${hop + 1}` } };
+    }
+    const { options } = withFixtures(routes);
+
+    const error = await fetchError(fetchPage('https://loop.test/0', options));
+    expect(error.reason).toBe('network');
+    expect(error.message).toBe('Too many redirects');
+  });
+});
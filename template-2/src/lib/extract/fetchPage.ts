@@ -0,0 +1,168 @@
+import { HostLookup, isPublicHost } from './address';
+import { ExtractedPage, extractReadableText } from './html';
+import { createRobotsCache, isPathAllowed, parseRobotsTxt } from './robots';
+
+export const USER_AGENT = 'DeepSearchBot/1.0 (+https://github.com/The-entity-55/yapsearch)';
+
+export interface FetchPageOptions {
+  // Per-request timeout, robots.txt included
+  timeoutMs?: number;
+  // Bytes read from the body before the rest is discarded
+  maxBytes?: number;
+  signal?: AbortSignal;
+  // Swappable for fixtures
+  fetch?: typeof fetch;
+  lookup?: HostLookup;
+}
+
+export class PageFetchError extends Error {
+  constructor(message: string, public readonly reason: 'robots' | 'address' | 'status' | 'content-type' | 'timeout' | 'network') {
+    super(message);
+    this.name = 'PageFetchError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024;
+const ROBOTS_MAX_BYTES = 512 * 1024;
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+// An unreachable robots.txt is tried again soon rather than trusted for a day
+const ROBOTS_FAILURE_TTL_MS = 5 * 60 * 1000;
+const MAX_REDIRECTS = 5;
+
+const robotsCache = createRobotsCache(500);
+
+// Abort when the caller aborts or the timeout passes, whichever comes first
+const withTimeout = (timeoutMs: number, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new PageFetchError('Timed out', 'timeout')), timeoutMs);
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) onAbort();
+  signal?.addEventListener('abort', onAbort);
+
+  return {
+    signal: controller.signal,
+    done: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+};
+
+// Read at most maxBytes of the body, then cancel the rest
+const readLimited = async (response: Response, maxBytes: number) => {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let received = 0;
+
+  try {
+    while (received < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = value.byteLength + received > maxBytes ? value.subarray(0, maxBytes - received) : value;
+      received += chunk.byteLength;
+      text += decoder.decode(chunk, { stream: true });
+    }
+    return text + decoder.decode();
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+};
+
+// Only http(s) URLs on public hosts are fetched, so a search result (or a
+// redirect) can't point the server at itself, its network or cloud metadata
+const assertFetchable = async (url: URL, options: FetchPageOptions) => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new PageFetchError(`Unsupported protocol ${url.protocol}`, 'network');
+  }
+  if (!await isPublicHost(url.hostname, options.lookup)) {
+    throw new PageFetchError(`Refusing to fetch private or unresolvable host ${url.hostname}`, 'address');
+  }
+};
+
+// Follow redirects by hand so every hop is checked before it is requested
+const fetchPublic = async (
+  url: URL,
+  init: RequestInit,
+  options: FetchPageOptions,
+  beforeHop?: (url: URL) => Promise<void>
+) => {
+  const fetchImpl = options.fetch ?? fetch;
+  let current = url;
+  for (let hop = 0; ; hop++) {
+    await assertFetchable(current, options);
+    if (beforeHop) await beforeHop(current);
+
+    const response = await fetchImpl(current.toString(), { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+
+    response.body?.cancel().catch(() => {});
+    if (hop === MAX_REDIRECTS) throw new PageFetchError('Too many redirects', 'network');
+    current = new URL(location, current);
+  }
+};
+
+const loadRobotsRules = (origin: string, options: FetchPageOptions) => {
+  let rules = robotsCache.get(origin);
+  if (!rules) {
+    const { signal, done } = withTimeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    const failed = () => {
+      robotsCache.set(origin, Promise.resolve([]), ROBOTS_FAILURE_TTL_MS);
+      return [];
+    };
+    // A missing or unreachable robots.txt means no restrictions; 401/403 mean everything is off limits
+    rules = fetchPublic(new URL('/robots.txt', origin), { headers: { 'User-Agent': USER_AGENT }, signal }, options)
+      .then(async response => {
+        if (response.status === 401 || response.status === 403) return [{ allow: false, pattern: '/' }];
+        if (response.status >= 500) return failed();
+        if (!response.ok) return [];
+        return parseRobotsTxt(await readLimited(response, ROBOTS_MAX_BYTES), USER_AGENT);
+      })
+      .catch(failed)
+      .finally(done);
+    robotsCache.set(origin, rules, ROBOTS_TTL_MS);
+  }
+  return rules;
+};
+
+const assertRobotsAllowed = async (url: URL, options: FetchPageOptions) => {
+  const rules = await loadRobotsRules(url.origin, options);
+  if (!isPathAllowed(rules, url.pathname + url.search)) {
+    throw new PageFetchError('Disallowed by robots.txt', 'robots');
+  }
+};
+
+// Download a page, honouring robots.txt, and reduce it to readable text
+export const fetchPage = async (url: string, options: FetchPageOptions = {}): Promise<ExtractedPage> => {
+  const { signal, done } = withTimeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS, options.signal);
+  try {
+    // robots.txt is checked for the page and for wherever it redirects
+    const response = await fetchPublic(new URL(url), {
+      headers: { 'User-Agent': USER_AGENT, 'Accept': 'text/html,application/xhtml+xml,text/plain;q=0.9' },
+      signal,
+    }, options, hop => assertRobotsAllowed(hop, options));
+    if (!response.ok) {
+      throw new PageFetchError(`Request failed with status ${response.status}`, 'status');
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    const isHtml = /html/i.test(contentType);
+    if (!isHtml && !/^text\/plain/i.test(contentType)) {
+      response.body?.cancel().catch(() => {});
+      throw new PageFetchError(`Unsupported content type ${contentType || 'unknown'}`, 'content-type');
+    }
+
+    const body = await readLimited(response, options.maxBytes ?? DEFAULT_MAX_BYTES);
+    return isHtml ? extractReadableText(body) : { title: '', text: body.trim() };
+  } catch (error) {
+    if (error instanceof PageFetchError) throw error;
+    if (signal.reason instanceof PageFetchError) throw signal.reason;
+    if (options.signal?.aborted) throw error;
+    throw new PageFetchError(error instanceof Error ? error.message : 'Fetch failed', 'network');
+  } finally {
+    done();
+  }
+};
@@ -0,0 +1,76 @@
+export interface ExtractedPage {
+  title: string;
+  text: string;
+}
+
+// Elements that never hold article text
+const BOILERPLATE_TAGS = [
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'form',
+  'nav', 'header', 'footer', 'aside', 'menu', 'button', 'select', 'figure',
+];
+
+// Class or id fragments that mark cookie banners, share bars, comment threads and the like
+const BOILERPLATE_ATTRIBUTE = /\b(?:class|id)\s*=\s*["'][^"']*\b(?:cookie|consent|banner|share|social|newsletter|subscribe|comment|related|sidebar|breadcrumb|advert|promo|popup|modal)[^"']*["']/i;
+
+const BLOCK_TAGS = /<\/?(?:p|div|section|article|main|br|hr|h[1-6]|li|ul|ol|dl|dt|dd|tr|table|blockquote|pre)\b[^>]*>/gi;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  mdash: '—', ndash: '–', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+};
+
+export const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) && value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+const removeElements = (html: string, tag: string) =>
+  html.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}\\s*>`, 'gi'), ' ');
+
+// Drop block elements whose class or id says they are page chrome. Only the
+// element's own opening tag is checked, and nesting isn't tracked, so this
+// removes up to the first matching close tag.
+const removeBoilerplateBlocks = (html: string) =>
+  html.replace(/<(div|section|ul|ol)\b([^>]*)>([\s\S]*?)<\/\1\s*>/gi, (match, _tag, attributes: string) =>
+    BOILERPLATE_ATTRIBUTE.test(attributes) ? ' ' : match
+  );
+
+// The largest <article>, else <main>, else the body
+const pickMainContent = (html: string) => {
+  for (const tag of ['article', 'main']) {
+    const candidates = Array.from(html.matchAll(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}\\s*>`, 'gi')))
+      .map(match => match[1]);
+    if (candidates.length > 0) {
+      return candidates.reduce((longest, candidate) => candidate.length > longest.length ? candidate : longest);
+    }
+  }
+  return html.match(/<body\b[^>]*>([\s\S]*)<\/body\s*>/i)?.[1] ?? html;
+};
+
+// Reduce an HTML page to its title and readable text, one paragraph per line.
+// Short lines left over from menus and link lists are dropped.
+export const extractReadableText = (html: string): ExtractedPage => {
+  const title = decodeEntities(html.match(/<title\b[^>]*>([\s\S]*?)<\/title\s*>/i)?.[1] ?? '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  let content = html.replace(/<!--[\s\S]*?-->/g, ' ');
+  content = BOILERPLATE_TAGS.reduce(removeElements, content);
+  content = removeBoilerplateBlocks(pickMainContent(content));
+
+  const text = decodeEntities(
+    content
+      .replace(BLOCK_TAGS, '\n')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line.length >= 40 || /[.!?:]$/.test(line) && line.split(' ').length >= 4)
+    .join('\n');
+
+  return { title, text };
+};
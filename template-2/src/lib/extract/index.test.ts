@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { SearchResult } from '../search/types';
+import { createFixtureFetch, createFixtureLookup, readFixture } from './__fixtures__/fetch';
+import { addPageContent } from '.';
+
+const html = { headers: { 'content-type': 'text/html' }, body: readFixture('article.html') };
+
+const result = (url: string, extra: Partial<SearchResult> = {}): SearchResult => ({
+  title: url,
+  content: `Snippet for ${url}`,
+  url,
+  ...extra,
+});
+
+describe('addPageContent', () => {
+  it('attaches the most relevant passages of each fetched page', async () => {
+    const { fetch, requests } = createFixtureFetch({
+      'https://pages.test/robots.txt': { body: readFixture('robots.txt') },
+      'https://pages.test/heat-pumps': html,
+    });
+    const results = [
+      result('https://pages.test/heat-pumps'),
+      result('https://pages.test/missing'),
+      result('https://pages.test/drafts/plan'),
+      result('upload://notes.pdf', { private: true }),
+      result('https://pages.test/not-fetched'),
+    ];
+
+    const { results: enriched, report } = await addPageContent(results, 'heat pump running costs electricity', {
+      maxPages: 3,
+      fetch,
+      lookup: createFixtureLookup(),
+    });
+
+    expect(enriched[0].extracts?.join('\n')).toContain('Running costs depend mostly on local electricity prices');
+    expect(enriched.slice(1).every(item => item.extracts === undefined)).toBe(true);
+    expect(enriched[1].content).toBe('Snippet for https://pages.test/missing');
+    expect(report).toEqual([
+      { url: 'https://pages.test/heat-pumps', ok: true, chunks: 1 },
+      { url: 'https://pages.test/missing', ok: false, error: 'Request failed with status 404' },
+      { url: 'https://pages.test/drafts/plan', ok: false, error: 'Disallowed by robots.txt' },
+    ]);
+    // Private results and those past maxPages are never requested
+    expect(requests.map(request => request.url)).not.toContain('https://pages.test/not-fetched');
+  });
+
+  it('leaves results whose host is private untouched', async () => {
+    const results = [result('http://10.0.0.8/admin'), result('https://internal.test/wiki')];
+    const { fetch, requests } = createFixtureFetch({});
+
+    const { results: enriched, report } = await addPageContent(results, 'admin', {
+      maxPages: 2,
+      fetch,
+      lookup: createFixtureLookup({ 'internal.test': ['192.168.1.20'] }),
+    });
+
+    expect(enriched).toEqual(results);
+    expect(report.map(page => page.ok)).toEqual([false, false]);
+    expect(requests).toEqual([]);
+  });
+});
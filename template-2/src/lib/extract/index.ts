@@ -0,0 +1,62 @@
+import { SearchResult } from '../search/types';
+import { chunkText, selectChunks } from './chunks';
+import { FetchPageOptions, fetchPage } from './fetchPage';
+
+export { PageFetchError, fetchPage } from './fetchPage';
+
+export interface PageContentOptions extends FetchPageOptions {
+  // How many of the top results to download
+  maxPages: number;
+  // Tokens of page text shared across all fetched pages
+  tokenBudget?: number;
+}
+
+export interface PageContentReport {
+  url: string;
+  ok: boolean;
+  error?: string;
+  chunks?: number;
+}
+
+const DEFAULT_TOKEN_BUDGET = 6000;
+
+// Download the top results, keep the chunks of each page most relevant to the
+// query and attach them as `extracts`. Pages that fail keep their snippet.
+export const addPageContent = async (
+  results: SearchResult[],
+  query: string,
+  { maxPages, tokenBudget = DEFAULT_TOKEN_BUDGET, ...fetchOptions }: PageContentOptions
+): Promise<{ results: SearchResult[]; report: PageContentReport[] }> => {
+  const targets = results
+    .map((result, index) => ({ result, index }))
+    .filter(({ result }) => !result.private && /^https?:\/\//i.test(result.url))
+    .slice(0, maxPages);
+  if (targets.length === 0) return { results, report: [] };
+
+  const pages = await Promise.all(targets.map(async ({ result, index }) => {
+    try {
+      const page = await fetchPage(result.url, fetchOptions);
+      return { index, url: result.url, chunks: chunkText(page.text) };
+    } catch (error) {
+      if (fetchOptions.signal?.aborted) throw error;
+      return { index, url: result.url, error: error instanceof Error ? error.message : 'Fetch failed' };
+    }
+  }));
+
+  const fetched = pages.filter(page => page.chunks && page.chunks.length > 0);
+  const perPageBudget = fetched.length > 0 ? Math.floor(tokenBudget / fetched.length) : 0;
+  const enriched = [...results];
+  for (const page of fetched) {
+    const selected = selectChunks(page.chunks!, query, perPageBudget);
+    if (selected.length > 0) {
+      enriched[page.index] = { ...enriched[page.index], extracts: selected.map(chunk => chunk.text) };
+    }
+  }
+
+  return {
+    results: enriched,
+    report: pages.map(page => page.error
+      ? { url: page.url, ok: false, error: page.error }
+      : { url: page.url, ok: (page.chunks?.length ?? 0) > 0, chunks: page.chunks?.length ?? 0 }),
+  };
+};
@@ -0,0 +1,86 @@
+// Minimal robots.txt support: the group for our user agent (or "*"), with the
+// longest matching Allow/Disallow rule winning and "*" / "$" wildcards.
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+export const parseRobotsTxt = (text: string, userAgent: string): RobotsRule[] => {
+  const agent = userAgent.toLowerCase();
+  const groups: { agents: string[]; rules: RobotsRule[] }[] = [];
+  let current: { agents: string[]; rules: RobotsRule[] } | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    const field = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || current.rules.length > 0) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+    } else if (current && (field === 'allow' || field === 'disallow')) {
+      // An empty Disallow allows everything
+      if (value) current.rules.push({ allow: field === 'allow', pattern: value });
+    }
+  }
+
+  const specific = groups.filter(group => group.agents.some(name => name !== '*' && agent.includes(name)));
+  const matching = specific.length > 0 ? specific : groups.filter(group => group.agents.includes('*'));
+  return matching.flatMap(group => group.rules);
+};
+
+const ruleMatches = (pattern: string, path: string) => {
+  const anchored = pattern.endsWith('$');
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+};
+
+export const isPathAllowed = (rules: RobotsRule[], path: string): boolean => {
+  let best: RobotsRule | null = null;
+  for (const rule of rules) {
+    if (!ruleMatches(rule.pattern, path)) continue;
+    // Longest pattern wins; on a tie Allow wins
+    if (!best || rule.pattern.length > best.pattern.length || rule.pattern.length === best.pattern.length && rule.allow) {
+      best = rule;
+    }
+  }
+  return best ? best.allow : true;
+};
+
+// robots.txt rules per origin. Entries expire, and the oldest are dropped once
+// the cache is full, so a long-running server doesn't keep every site it saw.
+export const createRobotsCache = (maxEntries: number) => {
+  const entries = new Map<string, { rules: Promise<RobotsRule[]>; expiresAt: number }>();
+
+  const get = (origin: string) => {
+    const entry = entries.get(origin);
+    if (!entry) return undefined;
+    entries.delete(origin);
+    if (entry.expiresAt <= Date.now()) return undefined;
+    // Re-inserting keeps recently used origins at the back of the eviction order
+    entries.set(origin, entry);
+    return entry.rules;
+  };
+
+  const set = (origin: string, rules: Promise<RobotsRule[]>, ttlMs: number) => {
+    entries.delete(origin);
+    entries.set(origin, { rules, expiresAt: Date.now() + ttlMs });
+    while (entries.size > maxEntries) {
+      const oldest = entries.keys().next();
+      if (oldest.done) break;
+      entries.delete(oldest.value);
+    }
+  };
+
+  return { get, set };
+};
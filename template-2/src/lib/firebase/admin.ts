@@ -0,0 +1,20 @@
+import { applicationDefault, cert, getApp, getApps, initializeApp } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
+
+// Server-only Firebase signed in as a service account. Admin credentials bypass
+// the security rules, so data only the server writes (quota counts, the search
+// cache, library embeddings) can be closed to clients in firestore.rules.
+//
+// FIREBASE_SERVICE_ACCOUNT_KEY holds the service account's JSON key; without it
+// GOOGLE_APPLICATION_CREDENTIALS or the platform's default account is used.
+const getCredential = () => {
+  const key = process.env.FIREBASE_SERVICE_ACCOUNT_KEY;
+  return key ? cert(JSON.parse(key)) : applicationDefault();
+};
+
+const getAdminApp = () =>
+  getApps().length
+    ? getApp()
+    : initializeApp({ credential: getCredential(), projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID });
+
+export const getAdminDb = () => getFirestore(getAdminApp());
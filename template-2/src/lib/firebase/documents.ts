@@ -0,0 +1,42 @@
+import { deleteDocument, deleteFile, getDocuments, setDocument, uploadFile } from "./firebaseUtils";
+import { PrivateDocument } from "../documents";
+
+export interface StoredDocument extends PrivateDocument {
+  contentType: string;
+  size: number;
+  storagePath: string;
+  createdAt: number;
+}
+
+const documentsCollection = (userId: string) => `users/${userId}/documents`;
+
+// Keep the original in Storage and its extracted text in Firestore, so it can be attached again without re-parsing
+export const savePrivateDocument = async (userId: string, file: File, text: string): Promise<StoredDocument> => {
+  const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  const storagePath = `users/${userId}/documents/${id}/${file.name}`;
+  const url = await uploadFile(file, storagePath);
+  const stored: StoredDocument = {
+    id,
+    name: file.name,
+    url,
+    text,
+    contentType: file.type,
+    size: file.size,
+    storagePath,
+    createdAt: Date.now(),
+  };
+  const { id: _id, ...data } = stored;
+  await setDocument(documentsCollection(userId), id, data);
+  return stored;
+};
+
+// Newest first
+export const getPrivateDocuments = async (userId: string): Promise<StoredDocument[]> => {
+  const documents = (await getDocuments(documentsCollection(userId))) as StoredDocument[];
+  return documents.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deletePrivateDocument = async (userId: string, document: StoredDocument) => {
+  await deleteDocument(documentsCollection(userId), document.id);
+  await deleteFile(document.storagePath).catch((error) => console.error("Error deleting stored file:", error));
+};
@@ -8,11 +8,13 @@ import {
   collection,
   addDoc,
   getDocs,
+  getDoc,
+  setDoc,
   doc,
   updateDoc,
   deleteDoc,
 } from "firebase/firestore";
-import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
+import { ref, uploadBytes, getDownloadURL, deleteObject } from "firebase/storage";
 
 // Auth functions
 export const logoutUser = () => signOut(auth);
@@ -40,6 +42,14 @@ export const getDocuments = async (collectionName: string) => {
   }));
 };
 
+export const getDocument = async (collectionName: string, id: string) => {
+  const docSnap = await getDoc(doc(db, collectionName, id));
+  return docSnap.exists() ? { id: docSnap.id, ...docSnap.data() } : null;
+};
+
+export const setDocument = (collectionName: string, id: string, data: any, merge = false) =>
+  setDoc(doc(db, collectionName, id), data, { merge });
+
 export const updateDocument = (collectionName: string, id: string, data: any) =>
   updateDoc(doc(db, collectionName, id), data);
 
@@ -52,3 +62,5 @@ export const uploadFile = async (file: File, path: string) => {
   await uploadBytes(storageRef, file);
   return getDownloadURL(storageRef);
 };
+
+export const deleteFile = (path: string) => deleteObject(ref(storage, path));
@@ -0,0 +1,50 @@
+import { FieldPath } from "firebase-admin/firestore";
+import { getAdminDb } from "./admin";
+import { KnowledgeStore, LibraryChunk, LibraryItem } from "../knowledge/types";
+
+// Items at users/{uid}/library; each chunk is its own document, since a long
+// document's vectors wouldn't fit in Firestore's 1 MiB document limit. Only the
+// server writes either, with its service account, after embedding the text.
+const itemsCollection = (userId: string) => getAdminDb().collection(`users/${userId}/library`);
+const chunksCollection = (userId: string) => getAdminDb().collection(`users/${userId}/libraryChunks`);
+const chunkId = (itemId: string, index: number) => `${itemId}-${index}`;
+
+const deleteChunks = (userId: string, itemId: string, count: number) =>
+  Promise.all(Array.from({ length: count }, (_, index) => chunksCollection(userId).doc(chunkId(itemId, index)).delete()));
+
+export const firestoreKnowledgeStore: KnowledgeStore = {
+  async listItems(userId) {
+    const snapshot = await itemsCollection(userId).get();
+    const items = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as LibraryItem);
+    return items.sort((a, b) => b.createdAt - a.createdAt);
+  },
+
+  async saveItem(userId, item, chunks) {
+    const previous = (await itemsCollection(userId).doc(item.id).get()).data() as LibraryItem | undefined;
+    if (previous) await deleteChunks(userId, item.id, previous.chunkCount);
+    await Promise.all(chunks.map((chunk) =>
+      chunksCollection(userId).doc(chunkId(item.id, chunk.index)).set({ ...chunk, model: item.model })
+    ));
+    const { id, ...data } = item;
+    await itemsCollection(userId).doc(id).set(JSON.parse(JSON.stringify(data)));
+  },
+
+  async deleteItem(userId, itemId) {
+    const item = (await itemsCollection(userId).doc(itemId).get()).data() as LibraryItem | undefined;
+    if (!item) return;
+    await itemsCollection(userId).doc(itemId).delete();
+    await deleteChunks(userId, itemId, item.chunkCount);
+  },
+
+  // Paged by document id; the cursor is the last id read
+  async getChunks(userId, model, { limit, cursor }) {
+    let query = chunksCollection(userId).where("model", "==", model).orderBy(FieldPath.documentId()).limit(limit);
+    if (cursor) query = query.startAfter(cursor);
+    const snapshot = await query.get();
+    const chunks = snapshot.docs.map((doc) => {
+      const { itemId, index, text, vector } = doc.data() as LibraryChunk;
+      return { itemId, index, text, vector };
+    });
+    return { chunks, cursor: snapshot.size === limit ? snapshot.docs[snapshot.size - 1].id : undefined };
+  },
+};
@@ -0,0 +1,52 @@
+import { deleteField } from "firebase/firestore";
+import { addDocument, deleteDocument, getDocuments, setDocument, updateDocument } from "./firebaseUtils";
+import { ChatSection, ResearchRecord } from "../research/types";
+
+export interface StoredResearch extends ResearchRecord {
+  id: string;
+}
+
+const historyCollection = (userId: string) => `users/${userId}/research`;
+
+// Keep only the persisted fields; Firestore also rejects undefined values
+export const toResearchRecord = (section: ChatSection): ResearchRecord =>
+  JSON.parse(JSON.stringify({
+    query: section.query,
+    searchQuery: section.searchQuery,
+    searchResults: section.searchResults,
+    steps: section.steps,
+    reasoningInput: section.reasoningInput,
+    context: section.context,
+    reasoning: section.reasoning,
+    response: section.response,
+    citations: section.citations,
+    consensus: section.consensus,
+    usage: section.usage,
+    template: section.template,
+    image: section.image,
+    instructions: section.instructions,
+    createdAt: section.createdAt,
+    completedAt: section.completedAt,
+    shareId: section.shareId,
+  }));
+
+export const saveResearch = async (userId: string, section: ChatSection) => {
+  const docRef = await addDocument(historyCollection(userId), toResearchRecord(section));
+  return docRef.id;
+};
+
+// Replace a saved run after it was regenerated or re-analyzed
+export const updateResearch = (userId: string, id: string, section: ChatSection) =>
+  setDocument(historyCollection(userId), id, toResearchRecord(section));
+
+// Newest first
+export const getResearchHistory = async (userId: string): Promise<StoredResearch[]> => {
+  const documents = (await getDocuments(historyCollection(userId))) as StoredResearch[];
+  return documents.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteResearch = (userId: string, id: string) =>
+  deleteDocument(historyCollection(userId), id);
+
+export const setResearchShareId = (userId: string, id: string, shareId: string | null) =>
+  updateDocument(historyCollection(userId), id, { shareId: shareId ?? deleteField() });
@@ -0,0 +1,5 @@
+import { uploadFile } from "./firebaseUtils";
+
+// Images attached to questions are kept with the user's research; the returned download URL is what the server sees
+export const uploadResearchImage = (userId: string, file: File) =>
+  uploadFile(file, `users/${userId}/images/${Date.now()}-${file.name}`);
@@ -0,0 +1,19 @@
+import { deleteDocument, getDocuments, setDocument } from "./firebaseUtils";
+import { ResearchTemplate } from "../research/types";
+
+const templatesCollection = (userId: string) => `users/${userId}/templates`;
+
+export const getCustomTemplates = async (userId: string): Promise<ResearchTemplate[]> => {
+  const documents = (await getDocuments(templatesCollection(userId))) as ResearchTemplate[];
+  return documents
+    .map((template) => ({ ...template, custom: true }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+};
+
+export const saveCustomTemplate = (userId: string, template: ResearchTemplate) => {
+  const { id, ...data } = template;
+  return setDocument(templatesCollection(userId), id, JSON.parse(JSON.stringify({ ...data, custom: true })));
+};
+
+export const deleteCustomTemplate = (userId: string, templateId: string) =>
+  deleteDocument(templatesCollection(userId), templateId);
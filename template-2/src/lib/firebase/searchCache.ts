@@ -0,0 +1,30 @@
+import { getAdminDb } from "./admin";
+import { SearchCacheBackend, SearchCacheEntry } from "../search/cache";
+
+// Shared across server instances, so a question asked by one user is reused for the next.
+// Written with the server's service account; clients can neither read nor write it.
+const SEARCH_CACHE = "searchCache";
+
+// Cache keys can be long and contain "/", so documents are stored under a hash of the key
+const hashKey = async (key: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+export const firestoreCacheBackend: SearchCacheBackend = {
+  async get(key) {
+    const snapshot = await getAdminDb().collection(SEARCH_CACHE).doc(await hashKey(key)).get();
+    const data = snapshot.data() as { response: string; cachedAt: number; expiresAt: number } | undefined;
+    if (!data || data.expiresAt <= Date.now()) return null;
+    return { response: JSON.parse(data.response), cachedAt: data.cachedAt, expiresAt: data.expiresAt };
+  },
+
+  async set(key, entry: SearchCacheEntry) {
+    // Stored as a JSON string; Firestore rejects the undefined fields responses may carry
+    await getAdminDb().collection(SEARCH_CACHE).doc(await hashKey(key)).set({
+      response: JSON.stringify(entry.response),
+      cachedAt: entry.cachedAt,
+      expiresAt: entry.expiresAt,
+    });
+  },
+};
@@ -0,0 +1,35 @@
+import { addDocument, deleteDocument, getDocument } from "./firebaseUtils";
+import { toResearchRecord } from "./researchHistory";
+import { ChatSection, ResearchRecord } from "../research/types";
+
+// Public snapshots are readable by anyone with the id; only the owner may delete them
+const SHARED_REPORTS = "sharedReports";
+
+export interface SharedReport extends Omit<ResearchRecord, "reasoning"> {
+  id: string;
+  ownerId: string;
+  sharedAt: number;
+}
+
+export const publishReport = async (userId: string, section: ChatSection) => {
+  // The assembled prompt, the model's reasoning trace, costs and share id aren't part of the
+  // public snapshot; nor is an attached image, which stays as private as an uploaded document
+  const { reasoningInput, context, reasoning, usage, shareId, image, ...record } = toResearchRecord(section);
+  const docRef = await addDocument(SHARED_REPORTS, {
+    ...record,
+    // Uploaded documents keep their place so citations still line up, but not their name, link or text
+    searchResults: record.searchResults.map(result =>
+      result.private ? { title: "Private document", url: "#", content: "", private: true } : result
+    ),
+    ownerId: userId,
+    sharedAt: Date.now(),
+  });
+  return docRef.id;
+};
+
+export const getSharedReport = async (id: string) =>
+  (await getDocument(SHARED_REPORTS, id)) as SharedReport | null;
+
+export const revokeSharedReport = (id: string) => deleteDocument(SHARED_REPORTS, id);
+
+export const getShareUrl = (id: string) => `${window.location.origin}/r/${id}`;
@@ -0,0 +1,19 @@
+import { getDocument, setDocument } from "./firebaseUtils";
+
+export interface SourcePreferences {
+  trustedDomains: string[];
+  blockedDomains: string[];
+}
+
+const settingsCollection = (userId: string) => `users/${userId}/settings`;
+
+export const getSourcePreferences = async (userId: string): Promise<SourcePreferences> => {
+  const data = (await getDocument(settingsCollection(userId), "sources")) as Partial<SourcePreferences> | null;
+  return {
+    trustedDomains: data?.trustedDomains ?? [],
+    blockedDomains: data?.blockedDomains ?? [],
+  };
+};
+
+export const saveSourcePreferences = (userId: string, preferences: SourcePreferences) =>
+  setDocument(settingsCollection(userId), "sources", preferences, true);
@@ -0,0 +1,27 @@
+import { addDocument, getDocuments } from "./firebaseUtils";
+import { ChatSection, ResearchUsage } from "../research/types";
+
+// One entry per finished research run. Kept apart from history so deleting a
+// report doesn't remove what it cost.
+export interface ResearchUsageEntry extends ResearchUsage {
+  id: string;
+  query: string;
+  createdAt: number;
+}
+
+const researchUsageCollection = (userId: string) => `users/${userId}/researchUsage`;
+
+export const logResearchUsage = async (userId: string, section: ChatSection) => {
+  if (!section.usage) return;
+  await addDocument(researchUsageCollection(userId), {
+    ...section.usage,
+    query: section.query,
+    createdAt: section.createdAt,
+  });
+};
+
+// Oldest first
+export const getResearchUsage = async (userId: string): Promise<ResearchUsageEntry[]> => {
+  const entries = (await getDocuments(researchUsageCollection(userId))) as ResearchUsageEntry[];
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+};
@@ -0,0 +1,25 @@
+import { FieldValue } from "firebase-admin/firestore";
+import { getAdminDb } from "./admin";
+import { DailyUsage, UsageStore } from "../quota";
+
+// One document per user per UTC day, e.g. users/{uid}/usage/2024-05-01. Only the
+// server writes these; users can read their own counts but not change them.
+const usageDoc = (userId: string, day: string) => getAdminDb().doc(`users/${userId}/usage/${day}`);
+
+export const firestoreUsageStore: UsageStore = {
+  async get(userId, day) {
+    const data = (await usageDoc(userId, day).get()).data() as Partial<DailyUsage> | undefined;
+    return { requests: data?.requests ?? 0, tokens: data?.tokens ?? 0 };
+  },
+
+  async add(userId, day, usage) {
+    await usageDoc(userId, day).set(
+      {
+        requests: FieldValue.increment(usage.requests ?? 0),
+        tokens: FieldValue.increment(usage.tokens ?? 0),
+        updatedAt: Date.now(),
+      },
+      { merge: true }
+    );
+  },
+};
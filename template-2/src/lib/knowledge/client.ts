@@ -0,0 +1,23 @@
+import { LibraryInput, LibraryItem } from './types';
+
+const request = async <T>(path: string, init: RequestInit, idToken?: string): Promise<T> => {
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      ...(idToken ? { 'Authorization': `Bearer ${idToken}` } : {}),
+    },
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Library request failed');
+  return data;
+};
+
+export const getLibraryItems = async (idToken?: string) =>
+  (await request<{ items: LibraryItem[] }>('/api/knowledge', { method: 'GET' }, idToken)).items;
+
+export const addLibraryItem = async (input: LibraryInput, idToken?: string) =>
+  (await request<{ item: LibraryItem }>('/api/knowledge', { method: 'POST', body: JSON.stringify(input) }, idToken)).item;
+
+export const removeLibraryItem = (id: string, idToken?: string) =>
+  request<{ ok: boolean }>(`/api/knowledge?id=${encodeURIComponent(id)}`, { method: 'DELETE' }, idToken);
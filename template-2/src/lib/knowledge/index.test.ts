@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { LibraryChunk, LibraryItem, createMemoryKnowledgeStore } from '.';
+
+const item = (id: string, model: string, chunkCount: number): LibraryItem =>
+  ({ id, kind: 'document', title: id, model, chunkCount, createdAt: 0 });
+
+const chunks = (itemId: string, count: number): LibraryChunk[] =>
+  Array.from({ length: count }, (_, index) => ({ itemId, index, text: `${itemId} ${index}`, vector: [index] }));
+
+describe('createMemoryKnowledgeStore', () => {
+  it('pages through the chunks indexed with one model', async () => {
+    const store = createMemoryKnowledgeStore();
+    await store.saveItem('u1', item('a', 'openai:small', 3), chunks('a', 3));
+    await store.saveItem('u1', item('b', 'local:nomic', 2), chunks('b', 2));
+    await store.saveItem('u1', item('c', 'openai:small', 2), chunks('c', 2));
+
+    const first = await store.getChunks('u1', 'openai:small', { limit: 4 });
+    expect(first.chunks.map(chunk => chunk.text)).toEqual(['a 0', 'a 1', 'a 2', 'c 0']);
+    expect(first.cursor).toBeDefined();
+
+    const second = await store.getChunks('u1', 'openai:small', { limit: 4, cursor: first.cursor });
+    expect(second.chunks.map(chunk => chunk.text)).toEqual(['c 1']);
+    expect(second.cursor).toBeUndefined();
+  });
+
+  it('keeps each user apart', async () => {
+    const store = createMemoryKnowledgeStore();
+    await store.saveItem('u1', item('a', 'openai:small', 1), chunks('a', 1));
+
+    expect(await store.listItems('u2')).toEqual([]);
+    expect(await store.getChunks('u2', 'openai:small', { limit: 10 })).toEqual({ chunks: [], cursor: undefined });
+  });
+});
@@ -0,0 +1,160 @@
+import { cosineSimilarity, embedTexts, getEmbeddingProvider } from '../embeddings';
+import { chunkText } from '../extract/chunks';
+import { SearchResult } from '../search/types';
+import { KnowledgeStore, LibraryChunk, LibraryInput, LibraryItem, LibraryItemKind, LibraryMatch } from './types';
+
+export * from './types';
+
+// Per-process store, lost on restart
+export const createMemoryKnowledgeStore = (): KnowledgeStore => {
+  const items = new Map<string, Map<string, { item: LibraryItem; chunks: LibraryChunk[] }>>();
+  const forUser = (userId: string) => {
+    if (!items.has(userId)) items.set(userId, new Map());
+    return items.get(userId)!;
+  };
+
+  return {
+    async listItems(userId) {
+      return Array.from(forUser(userId).values(), entry => entry.item).sort((a, b) => b.createdAt - a.createdAt);
+    },
+    async saveItem(userId, item, chunks) {
+      forUser(userId).set(item.id, { item, chunks });
+    },
+    async deleteItem(userId, itemId) {
+      forUser(userId).delete(itemId);
+    },
+    async getChunks(userId, model, { limit, cursor }) {
+      const chunks = Array.from(forUser(userId).values())
+        .filter(entry => entry.item.model === model)
+        .flatMap(entry => entry.chunks);
+      const start = cursor ? parseInt(cursor, 10) : 0;
+      const end = start + limit;
+      return { chunks: chunks.slice(start, end), cursor: end < chunks.length ? String(end) : undefined };
+    },
+  };
+};
+
+let defaultStore: Promise<KnowledgeStore> | null = null;
+
+// KNOWLEDGE_STORE picks the backend: "memory" (default), "sqlite" (a file at
+// KNOWLEDGE_SQLITE_PATH, for development) or "firestore", which needs a service
+// account (see lib/firebase/admin)
+export const getKnowledgeStore = () => {
+  if (!defaultStore) {
+    const kind = (process.env.KNOWLEDGE_STORE || 'memory').toLowerCase();
+    defaultStore = kind === 'firestore'
+      ? import('../firebase/knowledge').then(module => module.firestoreKnowledgeStore)
+      : kind === 'sqlite'
+        ? import('./sqlite').then(module =>
+          module.createSqliteKnowledgeStore(process.env.KNOWLEDGE_SQLITE_PATH || '.data/knowledge.sqlite'))
+        : Promise.resolve(createMemoryKnowledgeStore());
+  }
+  return defaultStore;
+};
+
+const LIBRARY_ITEM_KINDS: LibraryItemKind[] = ['report', 'document', 'source'];
+const MAX_TEXT_CHARS = 500000;
+const MAX_CHUNKS_PER_ITEM = 200;
+
+export const normalizeLibraryInput = (input: Partial<LibraryInput> | null | undefined): LibraryInput | null => {
+  if (!input || typeof input !== 'object') return null;
+  if (!LIBRARY_ITEM_KINDS.includes(input.kind as LibraryItemKind)) return null;
+  if (typeof input.id !== 'string' || !/^[\w-]{1,100}$/.test(input.id)) return null;
+  if (typeof input.text !== 'string' || !input.text.trim()) return null;
+
+  return {
+    id: input.id,
+    kind: input.kind as LibraryItemKind,
+    title: typeof input.title === 'string' && input.title.trim() ? input.title.trim().slice(0, 300) : 'Untitled',
+    url: typeof input.url === 'string' && /^https?:\/\//.test(input.url) ? input.url : undefined,
+    text: input.text.slice(0, MAX_TEXT_CHARS),
+  };
+};
+
+// Chunk, embed and store an item, replacing any earlier version with the same id
+export const addToLibrary = async (userId: string, input: LibraryInput, signal?: AbortSignal): Promise<LibraryItem> => {
+  const provider = getEmbeddingProvider();
+  const chunks = chunkText(input.text).slice(0, MAX_CHUNKS_PER_ITEM);
+  // The title goes into each chunk's embedding so passages keep their context
+  const vectors = await embedTexts(provider, chunks.map(chunk => `${input.title}\n${chunk.text}`), signal);
+
+  const item: LibraryItem = {
+    id: input.id,
+    kind: input.kind,
+    title: input.title,
+    url: input.url,
+    model: `${provider.id}:${provider.getModel()}`,
+    chunkCount: chunks.length,
+    createdAt: Date.now(),
+  };
+  await (await getKnowledgeStore()).saveItem(
+    userId,
+    item,
+    chunks.map((chunk, i) => ({ itemId: item.id, index: chunk.index, text: chunk.text, vector: vectors[i] }))
+  );
+  return item;
+};
+
+const CHUNK_PAGE_SIZE = 500;
+// Bounds the reads and comparisons one search makes in a very large library
+const MAX_SEARCHED_CHUNKS = 10000;
+
+// The library chunks closest to the query. Items indexed with a different
+// embedding model than the current one can't be compared and are skipped.
+// Chunks are read a page at a time and only the best `topK` are kept.
+export const searchLibrary = async (
+  userId: string,
+  query: string,
+  { topK = 8, minScore = 0.2, signal }: { topK?: number; minScore?: number; signal?: AbortSignal } = {}
+): Promise<LibraryMatch[]> => {
+  const store = await getKnowledgeStore();
+  const items = await store.listItems(userId);
+  if (items.length === 0) return [];
+
+  const provider = getEmbeddingProvider();
+  const model = `${provider.id}:${provider.getModel()}`;
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  let queryVector: number[] | null = null;
+  let matches: LibraryMatch[] = [];
+  let cursor: string | undefined;
+  let searched = 0;
+
+  do {
+    const page = await store.getChunks(userId, model, { limit: CHUNK_PAGE_SIZE, cursor });
+    if (page.chunks.length === 0) break;
+    // Only embedded once there is something to compare against
+    if (!queryVector) [queryVector] = await provider.embed([query], signal);
+
+    const vector = queryVector;
+    const pageMatches = page.chunks
+      .map(chunk => ({ item: itemsById.get(chunk.itemId), chunk, score: cosineSimilarity(vector, chunk.vector) }))
+      .filter((match): match is LibraryMatch => !!match.item && match.score >= minScore);
+    matches = [...matches, ...pageMatches].sort((a, b) => b.score - a.score).slice(0, topK);
+    searched += page.chunks.length;
+    cursor = page.cursor;
+  } while (cursor && searched < MAX_SEARCHED_CHUNKS);
+
+  return matches;
+};
+
+// One private search result per library item, holding its matching passages in document order
+export const toLibrarySources = (matches: LibraryMatch[]): SearchResult[] => {
+  const byItem = new Map<string, LibraryMatch[]>();
+  for (const match of matches) {
+    byItem.set(match.item.id, [...(byItem.get(match.item.id) ?? []), match]);
+  }
+
+  return Array.from(byItem.values(), itemMatches => {
+    const { item } = itemMatches[0];
+    const passages = [...itemMatches].sort((a, b) => a.chunk.index - b.chunk.index).map(match => match.chunk.text);
+    return {
+      title: item.title,
+      url: item.url || `#library-${item.id}`,
+      content: passages.join('\n[...]\n'),
+      snippet: passages[0].slice(0, 150),
+      score: itemMatches[0].score,
+      private: true,
+      library: true,
+    };
+  });
+};
@@ -0,0 +1,101 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import initSqlJs from 'sql.js';
+import { KnowledgeStore, LibraryItem } from './types';
+
+// A file-backed store for development, using SQLite compiled to WebAssembly so
+// there's nothing native to build. The whole database is rewritten on each save.
+export const createSqliteKnowledgeStore = async (path: string): Promise<KnowledgeStore> => {
+  const SQL = await initSqlJs({ locateFile: file => join(process.cwd(), 'node_modules/sql.js/dist', file) });
+  const db = existsSync(path) ? new SQL.Database(readFileSync(path)) : new SQL.Database();
+  db.run(`
+    CREATE TABLE IF NOT EXISTS items (
+      user_id TEXT NOT NULL, id TEXT NOT NULL, kind TEXT NOT NULL, title TEXT NOT NULL, url TEXT,
+      model TEXT NOT NULL, chunk_count INTEGER NOT NULL, created_at INTEGER NOT NULL,
+      PRIMARY KEY (user_id, id)
+    );
+    CREATE TABLE IF NOT EXISTS chunks (
+      user_id TEXT NOT NULL, item_id TEXT NOT NULL, idx INTEGER NOT NULL, text TEXT NOT NULL,
+      model TEXT NOT NULL, vector BLOB NOT NULL,
+      PRIMARY KEY (user_id, item_id, idx)
+    );
+  `);
+
+  const persist = () => {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, db.export());
+  };
+
+  const select = <T>(sql: string, params: (string | number)[]): T[] => {
+    const statement = db.prepare(sql);
+    statement.bind(params);
+    const rows: T[] = [];
+    while (statement.step()) rows.push(statement.getAsObject() as T);
+    statement.free();
+    return rows;
+  };
+
+  return {
+    async listItems(userId) {
+      return select<{
+        id: string; kind: LibraryItem['kind']; title: string; url: string | null;
+        model: string; chunk_count: number; created_at: number;
+      }>('SELECT * FROM items WHERE user_id = ? ORDER BY created_at DESC', [userId])
+        .map(row => ({
+          id: row.id,
+          kind: row.kind,
+          title: row.title,
+          url: row.url ?? undefined,
+          model: row.model,
+          chunkCount: row.chunk_count,
+          createdAt: row.created_at,
+        }));
+    },
+
+    async saveItem(userId, item, chunks) {
+      db.run('BEGIN');
+      try {
+        db.run('DELETE FROM chunks WHERE user_id = ? AND item_id = ?', [userId, item.id]);
+        db.run(
+          'INSERT OR REPLACE INTO items VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+          [userId, item.id, item.kind, item.title, item.url ?? null, item.model, item.chunkCount, item.createdAt]
+        );
+        for (const chunk of chunks) {
+          db.run(
+            'INSERT INTO chunks VALUES (?, ?, ?, ?, ?, ?)',
+            [userId, item.id, chunk.index, chunk.text, item.model, new Uint8Array(new Float32Array(chunk.vector).buffer)]
+          );
+        }
+        db.run('COMMIT');
+      } catch (error) {
+        db.run('ROLLBACK');
+        throw error;
+      }
+      persist();
+    },
+
+    async deleteItem(userId, itemId) {
+      db.run('DELETE FROM chunks WHERE user_id = ? AND item_id = ?', [userId, itemId]);
+      db.run('DELETE FROM items WHERE user_id = ? AND id = ?', [userId, itemId]);
+      persist();
+    },
+
+    async getChunks(userId, model, { limit, cursor }) {
+      const offset = cursor ? parseInt(cursor, 10) : 0;
+      // One extra row says whether there is another page
+      const rows = select<{ item_id: string; idx: number; text: string; vector: Uint8Array }>(
+        'SELECT item_id, idx, text, vector FROM chunks WHERE user_id = ? AND model = ? ORDER BY item_id, idx LIMIT ? OFFSET ?',
+        [userId, model, limit + 1, offset]
+      );
+      return {
+        chunks: rows.slice(0, limit).map(row => ({
+          itemId: row.item_id,
+          index: row.idx,
+          text: row.text,
+          vector: Array.from(new Float32Array(row.vector.slice().buffer)),
+        })),
+        cursor: rows.length > limit ? String(offset + limit) : undefined,
+      };
+    },
+  };
+};
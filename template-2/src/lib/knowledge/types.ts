@@ -0,0 +1,61 @@
+export type LibraryItemKind = 'report' | 'document' | 'source';
+
+// Something saved to the user's library: a past report, an uploaded document or a bookmarked source
+export interface LibraryItem {
+  id: string;
+  kind: LibraryItemKind;
+  title: string;
+  url?: string;
+  // Embedding model the chunks were indexed with
+  model: string;
+  chunkCount: number;
+  createdAt: number;
+}
+
+export interface LibraryChunk {
+  itemId: string;
+  index: number;
+  text: string;
+  vector: number[];
+}
+
+export interface LibraryMatch {
+  item: LibraryItem;
+  chunk: LibraryChunk;
+  score: number;
+}
+
+// What the client sends to add something to the library
+export interface LibraryInput {
+  id: string;
+  kind: LibraryItemKind;
+  title: string;
+  url?: string;
+  text: string;
+}
+
+// One page of chunks; pass `cursor` back to read the next, it is absent on the last page
+export interface LibraryChunkPage {
+  chunks: LibraryChunk[];
+  cursor?: string;
+}
+
+// Storage for library items and their vectors, per user
+export interface KnowledgeStore {
+  listItems: (userId: string) => Promise<LibraryItem[]>;
+  // Replaces the item and any chunks it was indexed with before
+  saveItem: (userId: string, item: LibraryItem, chunks: LibraryChunk[]) => Promise<void>;
+  deleteItem: (userId: string, itemId: string) => Promise<void>;
+  // Chunks indexed with `model`, `limit` at a time in a stable order; similarity is computed by the caller
+  getChunks: (userId: string, model: string, page: { limit: number; cursor?: string }) => Promise<LibraryChunkPage>;
+}
+
+// Stable ids, so saving the same report or bookmarking the same URL twice replaces the entry
+export const getLibraryItemId = (kind: LibraryItemKind, key: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return `${kind}-${(h >>> 0).toString(36)}`;
+};
@@ -0,0 +1,83 @@
+import { CoreMessage, LanguageModel, streamText } from 'ai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createOpenAI } from '@ai-sdk/openai';
+import { createThinkTagSplitter } from './thinkTags';
+import { ChatMessage, LLMProvider, LLMProviderId } from './types';
+
+interface AiSdkProviderConfig {
+  id: LLMProviderId;
+  name: string;
+  apiKeyEnv: string;
+  getApiKey: () => string | undefined;
+  defaultModel: string;
+  createModel: (apiKey: string, model: string) => LanguageModel;
+}
+
+// Data URLs are sent inline; anything else is fetched by the provider
+const toImagePart = (url: string) => {
+  const match = url.match(/^data:([^;,]+);base64,(.*)$/);
+  return match
+    ? { type: 'image' as const, image: match[2], mimeType: match[1] }
+    : { type: 'image' as const, image: new URL(url) };
+};
+
+const toCoreMessage = ({ role, content, images }: ChatMessage): CoreMessage =>
+  role === 'user' && images?.length
+    ? { role, content: [{ type: 'text', text: content }, ...images.map(toImagePart)] }
+    : { role, content };
+
+// Provider backed by a Vercel AI SDK model. These models don't expose a
+// separate reasoning stream, so reasoning only comes from <think> tags.
+const createAiSdkProvider = (config: AiSdkProviderConfig): LLMProvider => ({
+  id: config.id,
+  name: config.name,
+  defaultModel: config.defaultModel,
+  isConfigured: () => !!config.getApiKey(),
+
+  async *streamChat(messages, { model, temperature, maxTokens }, signal) {
+    const apiKey = config.getApiKey();
+    if (!apiKey) {
+      throw new Error(`${config.apiKeyEnv} is not set in environment variables`);
+    }
+
+    const result = await streamText({
+      model: config.createModel(apiKey, model),
+      messages: messages.map(toCoreMessage),
+      temperature,
+      maxTokens,
+      abortSignal: signal,
+    });
+
+    const splitter = createThinkTagSplitter();
+    for await (const part of result.fullStream) {
+      if (part.type === 'text-delta') {
+        const split = splitter.push(part.textDelta);
+        if (split.reasoning || split.content) yield split;
+      } else if (part.type === 'finish') {
+        const rest = splitter.flush();
+        if (rest.reasoning || rest.content) yield rest;
+        yield { usage: part.usage };
+      } else if (part.type === 'error') {
+        throw part.error instanceof Error ? part.error : new Error(`${config.name} stream failed`);
+      }
+    }
+  },
+});
+
+export const openaiProvider = createAiSdkProvider({
+  id: 'openai',
+  name: 'OpenAI',
+  apiKeyEnv: 'OPENAI_API_KEY',
+  getApiKey: () => process.env.OPENAI_API_KEY,
+  defaultModel: 'gpt-4o',
+  createModel: (apiKey, model) => createOpenAI({ apiKey })(model),
+});
+
+export const anthropicProvider = createAiSdkProvider({
+  id: 'anthropic',
+  name: 'Anthropic',
+  apiKeyEnv: 'ANTHROPIC_API_KEY',
+  getApiKey: () => process.env.ANTHROPIC_API_KEY,
+  defaultModel: 'claude-3-5-sonnet-20240620',
+  createModel: (apiKey, model) => createAnthropic({ apiKey })(model),
+});
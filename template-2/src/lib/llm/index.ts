@@ -0,0 +1,161 @@
+import { anthropicProvider, openaiProvider } from './aiSdk';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import { estimateTokens } from './tokens';
+import { ChatDelta, ChatMessage, LLMProvider, LLMProviderId, ModelOptions, TokenUsage } from './types';
+
+export const deepseekProvider = createOpenAICompatibleProvider({
+  id: 'deepseek',
+  name: 'DeepSeek',
+  getBaseURL: () => 'https://api.deepseek.com',
+  getApiKey: () => process.env.DEEPSEEK_API_KEY,
+  requiresApiKey: true,
+  defaultModel: 'deepseek-reasoner',
+});
+
+// Ollama, LM Studio, vLLM etc., e.g. LOCAL_LLM_BASE_URL=http://localhost:11434/v1
+export const localProvider = createOpenAICompatibleProvider({
+  id: 'local',
+  name: 'Local (OpenAI-compatible)',
+  getBaseURL: () => process.env.LOCAL_LLM_BASE_URL,
+  getApiKey: () => process.env.LOCAL_LLM_API_KEY,
+  requiresApiKey: false,
+  defaultModel: process.env.LOCAL_LLM_MODEL || 'deepseek-r1',
+});
+
+export const llmProviders: Record<LLMProviderId, LLMProvider> = {
+  deepseek: deepseekProvider,
+  openai: openaiProvider,
+  anthropic: anthropicProvider,
+  local: localProvider,
+};
+
+export const DEFAULT_MODEL_OPTIONS = {
+  provider: 'deepseek' as LLMProviderId,
+  temperature: 0.7,
+  maxTokens: 4000,
+};
+
+// Context windows by model name prefix, more specific prefixes first; unknown models get the fallback
+const CONTEXT_WINDOWS: [string, number][] = [
+  ['deepseek-', 64000],
+  ['gpt-4o', 128000],
+  ['gpt-4-turbo', 128000],
+  ['gpt-4', 8192],
+  ['gpt-3.5', 16385],
+  ['o1', 128000],
+  ['o3', 200000],
+  ['claude-', 200000],
+];
+const FALLBACK_CONTEXT_WINDOW = 8192;
+
+// Models that accept images, by name prefix. Local models are assumed not to unless VISION_MODEL names them.
+const VISION_MODELS = ['gpt-4o', 'gpt-4-turbo', 'o1', 'o3', 'claude-3', 'claude-sonnet', 'claude-opus'];
+
+// Upper bound on research context regardless of window; more sources past this rarely help
+const MAX_CONTEXT_TOKENS = 24000;
+
+export const isLLMProviderId = (id: unknown): id is LLMProviderId =>
+  typeof id === 'string' && id in llmProviders;
+
+// Validate caller-supplied model options and fill in defaults
+export const resolveModelOptions = (options: ModelOptions = {}) => {
+  const provider = isLLMProviderId(options.provider) ? options.provider : DEFAULT_MODEL_OPTIONS.provider;
+  const temperature = typeof options.temperature === 'number'
+    ? Math.min(Math.max(options.temperature, 0), 2)
+    : DEFAULT_MODEL_OPTIONS.temperature;
+  const maxTokens = typeof options.maxTokens === 'number' && options.maxTokens > 0
+    ? Math.min(Math.floor(options.maxTokens), 32000)
+    : DEFAULT_MODEL_OPTIONS.maxTokens;
+
+  return {
+    provider,
+    model: typeof options.model === 'string' && options.model ? options.model : llmProviders[provider].defaultModel,
+    temperature,
+    maxTokens,
+  };
+};
+
+// Providers that don't report usage get an estimate, so every stream ends with exactly one usage delta
+async function* withUsage(deltas: AsyncGenerator<ChatDelta>, messages: ChatMessage[]): AsyncGenerator<ChatDelta> {
+  let usage: TokenUsage | undefined;
+  let output = 0;
+  for await (const delta of deltas) {
+    output += (delta.reasoning?.length || 0) + (delta.content?.length || 0);
+    // Providers report usage in a delta of its own, held back until the end
+    if (delta.usage) usage = delta.usage;
+    else yield delta;
+  }
+
+  if (!usage) {
+    const promptTokens = messages.reduce((sum, message) => sum + estimateTokens(message.content) + 4, 0);
+    const completionTokens = Math.ceil(output / 4);
+    usage = { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true };
+  }
+  yield { usage };
+}
+
+export function streamChat(
+  messages: ChatMessage[],
+  options: ModelOptions = {},
+  signal?: AbortSignal
+): AsyncGenerator<ChatDelta> {
+  const { provider, ...modelOptions } = resolveModelOptions(options);
+  const llm = llmProviders[provider];
+  if (!llm.isConfigured()) {
+    throw new Error(`${llm.name} is not configured in environment variables`);
+  }
+  return withUsage(llm.streamChat(messages, modelOptions, signal), messages);
+}
+
+// Collect a whole completion, ignoring the reasoning trace
+export async function completeChat(
+  messages: ChatMessage[],
+  options: ModelOptions = {},
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+): Promise<string> {
+  let content = '';
+  for await (const delta of streamChat(messages, options, signal)) {
+    content += delta.content || '';
+    if (delta.usage) onUsage?.(delta.usage);
+  }
+  return content;
+}
+
+export const getContextWindow = (options: ModelOptions = {}) => {
+  const { provider, model } = resolveModelOptions(options);
+  if (provider === 'local') {
+    const configured = parseInt(process.env.LOCAL_LLM_CONTEXT_WINDOW || '', 10);
+    if (configured > 0) return configured;
+  }
+  return CONTEXT_WINDOWS.find(([prefix]) => model.startsWith(prefix))?.[1] ?? FALLBACK_CONTEXT_WINDOW;
+};
+
+export const supportsVision = (options: ModelOptions = {}) => {
+  const { provider, model } = resolveModelOptions(options);
+  if (process.env.VISION_MODEL && model === process.env.VISION_MODEL) return true;
+  return provider !== 'local' && VISION_MODELS.some(prefix => model.startsWith(prefix));
+};
+
+// The model used to look at attached images: VISION_PROVIDER/VISION_MODEL when set,
+// otherwise a small OpenAI or Anthropic model, whichever is configured
+export const getVisionModelOptions = (): ModelOptions | null => {
+  if (isLLMProviderId(process.env.VISION_PROVIDER)) {
+    const provider = process.env.VISION_PROVIDER;
+    return llmProviders[provider].isConfigured()
+      ? { provider, model: process.env.VISION_MODEL || llmProviders[provider].defaultModel, temperature: 0.2 }
+      : null;
+  }
+  if (openaiProvider.isConfigured()) return { provider: 'openai', model: 'gpt-4o-mini', temperature: 0.2 };
+  if (anthropicProvider.isConfigured()) return { provider: 'anthropic', model: 'claude-3-5-sonnet-20240620', temperature: 0.2 };
+  return null;
+};
+
+// Tokens left for research context once the reply and the other prompt messages are accounted for
+export const getContextBudget = (options: ModelOptions = {}, otherMessages: ChatMessage[] = []) => {
+  const { maxTokens } = resolveModelOptions(options);
+  const overhead = otherMessages.reduce((sum, message) => sum + estimateTokens(message.content) + 4, 0);
+  // Token counts are estimates, so leave some headroom
+  const available = Math.floor((getContextWindow(options) - maxTokens - overhead) * 0.9);
+  return Math.max(Math.min(available, MAX_CONTEXT_TOKENS), 1000);
+};
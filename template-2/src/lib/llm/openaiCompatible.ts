@@ -0,0 +1,110 @@
+import { readJSONStream } from '../sse';
+import { createThinkTagSplitter } from './thinkTags';
+import { ChatMessage, LLMProvider, LLMProviderId, TokenUsage } from './types';
+
+// A streamed chunk in the OpenAI chat.completion.chunk shape
+export interface ChatCompletionChunk {
+  choices?: {
+    delta?: {
+      content?: string | null;
+      reasoning_content?: string | null;
+      // Used instead of reasoning_content by some OpenAI-compatible servers
+      reasoning?: string | null;
+    };
+  }[];
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+    completion_tokens_details?: { reasoning_tokens?: number };
+  } | null;
+}
+
+const toTokenUsage = (usage: NonNullable<ChatCompletionChunk['usage']>): TokenUsage => ({
+  promptTokens: usage.prompt_tokens || 0,
+  completionTokens: usage.completion_tokens || 0,
+  reasoningTokens: usage.completion_tokens_details?.reasoning_tokens,
+  totalTokens: usage.total_tokens || 0,
+});
+
+// Images go in as image_url content parts, which vision models on these servers accept
+const toRequestMessage = ({ role, content, images }: ChatMessage) =>
+  role === 'user' && images?.length
+    ? {
+      role,
+      content: [
+        { type: 'text', text: content },
+        ...images.map(url => ({ type: 'image_url', image_url: { url } })),
+      ],
+    }
+    : { role, content };
+
+interface OpenAICompatibleConfig {
+  id: LLMProviderId;
+  name: string;
+  getBaseURL: () => string | undefined;
+  getApiKey: () => string | undefined;
+  // Local servers usually run without a key
+  requiresApiKey: boolean;
+  defaultModel: string;
+}
+
+// Provider for any /chat/completions endpoint that streams in OpenAI's format
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): LLMProvider => ({
+  id: config.id,
+  name: config.name,
+  defaultModel: config.defaultModel,
+  isConfigured: () => !!config.getBaseURL() && (!config.requiresApiKey || !!config.getApiKey()),
+
+  async *streamChat(messages, { model, temperature, maxTokens }, signal) {
+    const baseURL = config.getBaseURL();
+    const apiKey = config.getApiKey();
+    if (!baseURL || (config.requiresApiKey && !apiKey)) {
+      throw new Error(`${config.name} is not configured in environment variables`);
+    }
+
+    const response = await fetch(`${baseURL.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: messages.map(toRequestMessage),
+        stream: true,
+        max_tokens: maxTokens,
+        temperature,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error?.message || error.message || `Failed to get response from ${config.name}`);
+    }
+
+    if (!response.body) {
+      throw new Error('No response body available');
+    }
+
+    const splitter = createThinkTagSplitter();
+    for await (const chunk of readJSONStream<ChatCompletionChunk>(response.body)) {
+      const delta = chunk.choices?.[0]?.delta;
+      const reasoning = delta?.reasoning_content || delta?.reasoning;
+      if (reasoning) {
+        yield { reasoning };
+      }
+      if (delta?.content) {
+        const split = splitter.push(delta.content);
+        if (split.reasoning || split.content) yield split;
+      }
+      if (chunk.usage) {
+        yield { usage: toTokenUsage(chunk.usage) };
+      }
+    }
+
+    const rest = splitter.flush();
+    if (rest.reasoning || rest.content) yield rest;
+  },
+});
@@ -0,0 +1,54 @@
+import { SearchProviderId } from '../search/types';
+import { LLMProviderId, TokenUsage } from './types';
+
+// USD per million tokens. Reasoning tokens are billed as completion tokens.
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface PriceTable {
+  // Keyed by model name prefix; more specific prefixes first
+  models: [string, ModelPrice][];
+  // USD per search request
+  searches: Partial<Record<SearchProviderId, number>>;
+}
+
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  models: [
+    ['deepseek-reasoner', { input: 0.55, output: 2.19 }],
+    ['deepseek-chat', { input: 0.27, output: 1.1 }],
+    ['gpt-4o-mini', { input: 0.15, output: 0.6 }],
+    ['gpt-4o', { input: 2.5, output: 10 }],
+    ['claude-3-5-haiku', { input: 0.8, output: 4 }],
+    ['claude-3-5-sonnet', { input: 3, output: 15 }],
+  ],
+  // Tavily's advanced search uses two credits
+  searches: { tavily: 0.016, brave: 0.005, bing: 0.015, searxng: 0 },
+};
+
+// PRICE_TABLE (JSON, e.g. {"models": {"gpt-4o": {"input": 2.5, "output": 10}}, "searches": {"tavily": 0.008}})
+// overrides entries of the default table
+export const getPriceTable = (): PriceTable => {
+  if (!process.env.PRICE_TABLE) return DEFAULT_PRICE_TABLE;
+  try {
+    const overrides = JSON.parse(process.env.PRICE_TABLE);
+    const models: [string, ModelPrice][] = Object.entries(overrides.models || {});
+    return {
+      models: [...models, ...DEFAULT_PRICE_TABLE.models.filter(([prefix]) => !(prefix in (overrides.models || {})))],
+      searches: { ...DEFAULT_PRICE_TABLE.searches, ...overrides.searches },
+    };
+  } catch (error) {
+    console.error('Invalid PRICE_TABLE, using defaults:', error);
+    return DEFAULT_PRICE_TABLE;
+  }
+};
+
+// Local models cost nothing; unknown hosted models are priced at 0 rather than guessed
+export const getModelPrice = (provider: LLMProviderId, model: string, table = getPriceTable()): ModelPrice =>
+  provider === 'local'
+    ? { input: 0, output: 0 }
+    : table.models.find(([prefix]) => model.startsWith(prefix))?.[1] ?? { input: 0, output: 0 };
+
+export const getTokenCost = (usage: TokenUsage, price: ModelPrice) =>
+  (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1e6;
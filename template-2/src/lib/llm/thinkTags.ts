@@ -0,0 +1,54 @@
+import { ChatDelta } from './types';
+
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+// Length of the longest suffix of text that could be the start of tag
+const partialTagLength = (text: string, tag: string): number => {
+  for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+    if (text.endsWith(tag.slice(0, length))) return length;
+  }
+  return 0;
+};
+
+// Open-weight reasoning models (R1 distills, QwQ) served through local endpoints
+// put their trace inside <think>...</think> in the content. Split it back out,
+// holding back text that may be a tag cut in half by a chunk boundary.
+export const createThinkTagSplitter = () => {
+  let buffer = '';
+  let inThink = false;
+
+  const push = (text: string, final = false): ChatDelta => {
+    buffer += text;
+    let reasoning = '';
+    let content = '';
+
+    while (buffer) {
+      const tag = inThink ? CLOSE_TAG : OPEN_TAG;
+      const index = buffer.indexOf(tag);
+      if (index === -1) {
+        const keep = final ? 0 : partialTagLength(buffer, tag);
+        const emitted = buffer.slice(0, buffer.length - keep);
+        if (inThink) reasoning += emitted;
+        else content += emitted;
+        buffer = buffer.slice(buffer.length - keep);
+        break;
+      }
+
+      if (inThink) reasoning += buffer.slice(0, index);
+      else content += buffer.slice(0, index);
+      buffer = buffer.slice(index + tag.length);
+      inThink = !inThink;
+    }
+
+    return {
+      ...(reasoning ? { reasoning } : {}),
+      ...(content ? { content } : {}),
+    };
+  };
+
+  return {
+    push: (text: string) => push(text),
+    flush: () => push('', true),
+  };
+};
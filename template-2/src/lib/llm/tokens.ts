@@ -0,0 +1,2 @@
+// Rough token estimate for budgeting; about four characters per token for English text
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
@@ -0,0 +1,44 @@
+export type LLMProviderId = 'deepseek' | 'openai' | 'anthropic' | 'local';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  // Image URLs (https or data:) shown to vision-capable models alongside a user message
+  images?: string[];
+}
+
+export interface ModelOptions {
+  provider?: LLMProviderId;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  // Part of completionTokens spent on the reasoning trace, when the provider reports it
+  reasoningTokens?: number;
+  totalTokens: number;
+  // Estimated from text length because the provider didn't report usage
+  estimated?: boolean;
+}
+
+// Normalized stream output; reasoning is filled the same way for every provider
+export interface ChatDelta {
+  reasoning?: string;
+  content?: string;
+  usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  name: string;
+  defaultModel: string;
+  isConfigured: () => boolean;
+  streamChat: (
+    messages: ChatMessage[],
+    options: Required<Omit<ModelOptions, 'provider'>>,
+    signal?: AbortSignal
+  ) => AsyncGenerator<ChatDelta>;
+}
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuthorizedRequest, authorizeRequest } from './guard';
+
+const request = () => new Request('http://localhost/api/search', { method: 'POST' });
+
+// Anonymous callers all share one user, so each test runs on its own day
+// (the memory store forgets other days' counts)
+const useDay = (iso: string) => vi.setSystemTime(Date.parse(iso));
+
+describe('authorizeRequest', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.stubEnv('ALLOW_ANONYMOUS_API', 'true');
+    vi.stubEnv('QUOTA_DAILY_REQUESTS', '');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('answers the 201st request of the day with 429 and when to retry', async () => {
+    useDay('2024-07-01T23:00:00Z');
+    for (let i = 1; i <= 200; i++) {
+      const authorized = await authorizeRequest(request()) as AuthorizedRequest;
+      expect(authorized.quota.requests.used).toBe(i);
+    }
+
+    const response = await authorizeRequest(request()) as Response;
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('3600');
+    expect(response.headers.get('X-Quota-Requests-Remaining')).toBe('0');
+    expect(response.headers.get('X-Quota-Reset')).toBe('2024-07-02T00:00:00.000Z');
+    expect(await response.json()).toMatchObject({ code: 'quota_exceeded', kind: 'requests' });
+
+    useDay('2024-07-02T00:00:01Z');
+    expect(await authorizeRequest(request())).toMatchObject({ userId: 'anonymous', quota: { day: '2024-07-02' } });
+  });
+
+  it('checks without counting when asked not to', async () => {
+    useDay('2024-07-03T12:00:00Z');
+    await authorizeRequest(request());
+    const followUp = await authorizeRequest(request(), { countRequest: false }) as AuthorizedRequest;
+    expect(followUp.quota.requests.used).toBe(1);
+  });
+
+  it('requires a token unless anonymous use is allowed', async () => {
+    vi.stubEnv('ALLOW_ANONYMOUS_API', '');
+    const response = await authorizeRequest(request()) as Response;
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { AuthError, getBearerToken, verifyIdToken } from '../auth/verifyIdToken';
+import { QuotaExceededError, QuotaStatus, checkQuota, consumeRequest } from '.';
+
+export interface AuthorizedRequest {
+  userId: string;
+  quota: QuotaStatus;
+}
+
+// Shared by every request without a token when ALLOW_ANONYMOUS_API=true (local development)
+const ANONYMOUS_USER = 'anonymous';
+
+export const quotaHeaders = (quota: QuotaStatus): Record<string, string> => ({
+  'X-Quota-Requests-Remaining': String(quota.requests.remaining ?? 'unlimited'),
+  'X-Quota-Tokens-Remaining': String(quota.tokens.remaining ?? 'unlimited'),
+  'X-Quota-Reset': new Date(quota.resetAt).toISOString(),
+});
+
+// Verify the caller's Firebase ID token and count the request against their
+// daily quota. Returns the error response to send if either check fails.
+// With `countRequest: false` the quota is still checked but nothing is counted,
+// for follow-up calls that belong to a request already counted.
+export const authorizeRequest = async (
+  req: Request,
+  { countRequest = true }: { countRequest?: boolean } = {}
+): Promise<AuthorizedRequest | Response> => {
+  let userId: string;
+  try {
+    const token = getBearerToken(req);
+    if (token) {
+      userId = (await verifyIdToken(token)).uid;
+    } else if (process.env.ALLOW_ANONYMOUS_API === 'true') {
+      userId = ANONYMOUS_USER;
+    } else {
+      return NextResponse.json(
+        { error: 'Sign in to use this API', code: 'unauthenticated' },
+        { status: 401 }
+      );
+    }
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message, code: 'unauthenticated' }, { status: 401 });
+    }
+    console.error('Token verification error:', error);
+    return NextResponse.json({ error: 'Could not verify sign-in' }, { status: 503 });
+  }
+
+  try {
+    return { userId, quota: await (countRequest ? consumeRequest(userId) : checkQuota(userId)) };
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return NextResponse.json(
+        { error: error.message, code: 'quota_exceeded', kind: error.kind, quota: error.quota },
+        {
+          status: 429,
+          headers: {
+            ...quotaHeaders(error.quota),
+            'Retry-After': String(Math.ceil((error.quota.resetAt - Date.now()) / 1000)),
+          },
+        }
+      );
+    }
+    throw error;
+  }
+};
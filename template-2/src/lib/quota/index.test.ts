@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { QuotaExceededError, consumeRequest, createMemoryUsageStore, getQuotaStatus, recordTokens } from '.';
+
+// The default memory store lives for the whole file, so each test uses its own user
+const useUp = async (userId: string, requests: number) => {
+  for (let i = 0; i < requests; i++) await consumeRequest(userId);
+};
+
+const quotaError = (promise: Promise<unknown>) => promise.then(
+  () => { throw new Error('Expected the quota to be exceeded'); },
+  (error: unknown) => error as QuotaExceededError
+);
+
+describe('consumeRequest', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.parse('2024-07-01T12:00:00Z'));
+    vi.stubEnv('QUOTA_DAILY_REQUESTS', '');
+    vi.stubEnv('QUOTA_DAILY_TOKENS', '');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('allows the 200th request of the day and refuses the 201st', async () => {
+    await useUp('limit', 199);
+    const last = await consumeRequest('limit');
+    expect(last.requests).toEqual({ used: 200, limit: 200, remaining: 0 });
+
+    const error = await quotaError(consumeRequest('limit'));
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error.kind).toBe('requests');
+    expect(error.quota.resetAt).toBe(Date.parse('2024-07-02T00:00:00Z'));
+    // Refused requests aren't counted
+    expect((await getQuotaStatus('limit')).requests.used).toBe(200);
+  });
+
+  it('starts over at midnight UTC', async () => {
+    vi.setSystemTime(Date.parse('2024-07-01T23:59:59Z'));
+    await useUp('rollover', 200);
+    await expect(consumeRequest('rollover')).rejects.toThrow('Daily request limit of 200 reached');
+
+    vi.setSystemTime(Date.parse('2024-07-02T00:00:00Z'));
+    const status = await consumeRequest('rollover');
+    expect(status.day).toBe('2024-07-02');
+    expect(status.requests.used).toBe(1);
+    expect(status.resetAt).toBe(Date.parse('2024-07-03T00:00:00Z'));
+  });
+
+  it('refuses requests once the token quota is used up', async () => {
+    vi.stubEnv('QUOTA_DAILY_TOKENS', '1000');
+    await consumeRequest('tokens');
+    await recordTokens('tokens', 1200);
+
+    const error = await quotaError(consumeRequest('tokens'));
+    expect(error.kind).toBe('tokens');
+    expect(error.quota.tokens).toEqual({ used: 1200, limit: 1000, remaining: 0 });
+  });
+
+  it('never refuses when the limit is 0', async () => {
+    vi.stubEnv('QUOTA_DAILY_REQUESTS', '0');
+    await useUp('unlimited', 250);
+    expect((await consumeRequest('unlimited')).requests).toEqual({ used: 251, limit: 0, remaining: null });
+  });
+});
+
+describe('createMemoryUsageStore', () => {
+  it('keeps counts per user and day and forgets earlier days', async () => {
+    const store = createMemoryUsageStore();
+    await store.add('a', '2024-07-01', { requests: 1, tokens: 10 });
+    await store.add('a', '2024-07-01', { tokens: 5 });
+    await store.add('b', '2024-07-01', { requests: 1 });
+    expect(await store.get('a', '2024-07-01')).toEqual({ requests: 1, tokens: 15 });
+    expect(await store.get('b', '2024-07-01')).toEqual({ requests: 1, tokens: 0 });
+
+    await store.add('a', '2024-07-02', { requests: 1 });
+    expect(await store.get('a', '2024-07-01')).toEqual({ requests: 0, tokens: 0 });
+    expect(await store.get('b', '2024-07-01')).toEqual({ requests: 0, tokens: 0 });
+  });
+});
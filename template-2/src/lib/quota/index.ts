@@ -0,0 +1,139 @@
+// Per-user daily request and token quotas for the API routes. Days are UTC.
+
+export interface DailyUsage {
+  requests: number;
+  tokens: number;
+}
+
+export interface QuotaLimit {
+  used: number;
+  // 0 means unlimited
+  limit: number;
+  // null when unlimited
+  remaining: number | null;
+}
+
+export interface QuotaStatus {
+  // UTC day the counts belong to, as YYYY-MM-DD
+  day: string;
+  requests: QuotaLimit;
+  tokens: QuotaLimit;
+  // When the counts start over (ms since epoch)
+  resetAt: number;
+}
+
+// Where daily counts live. `add` increments atomically where the backend allows it.
+export interface UsageStore {
+  get: (userId: string, day: string) => Promise<DailyUsage>;
+  add: (userId: string, day: string, usage: Partial<DailyUsage>) => Promise<void>;
+}
+
+export class QuotaExceededError extends Error {
+  constructor(public readonly kind: keyof DailyUsage, public readonly quota: QuotaStatus) {
+    super(kind === 'requests'
+      ? `Daily request limit of ${quota.requests.limit} reached`
+      : `Daily token limit of ${quota.tokens.limit.toLocaleString()} reached`);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+// Per-process counts, for development and single-server deployments: every API
+// route runs on Node so they share it, but each serverless instance or restart
+// starts from zero. Use the Firestore store in production.
+export const createMemoryUsageStore = (): UsageStore => {
+  const counts = new Map<string, DailyUsage>();
+
+  return {
+    async get(userId, day) {
+      return counts.get(`${userId}/${day}`) ?? { requests: 0, tokens: 0 };
+    },
+
+    async add(userId, day, usage) {
+      const key = `${userId}/${day}`;
+      // Yesterday's counts are no longer needed
+      counts.forEach((_, existing) => {
+        if (!existing.endsWith(`/${day}`)) counts.delete(existing);
+      });
+      const current = counts.get(key) ?? { requests: 0, tokens: 0 };
+      counts.set(key, {
+        requests: current.requests + (usage.requests ?? 0),
+        tokens: current.tokens + (usage.tokens ?? 0),
+      });
+    },
+  };
+};
+
+const DEFAULT_DAILY_REQUESTS = 200;
+const DEFAULT_DAILY_TOKENS = 500000;
+
+const readLimit = (value: string | undefined, fallback: number) => {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// QUOTA_DAILY_REQUESTS and QUOTA_DAILY_TOKENS set the limits; 0 means unlimited
+export const getQuotaLimits = (): DailyUsage => ({
+  requests: readLimit(process.env.QUOTA_DAILY_REQUESTS, DEFAULT_DAILY_REQUESTS),
+  tokens: readLimit(process.env.QUOTA_DAILY_TOKENS, DEFAULT_DAILY_TOKENS),
+});
+
+export const getQuotaDay = (now = Date.now()) => new Date(now).toISOString().slice(0, 10);
+
+let defaultStore: Promise<UsageStore> | null = null;
+
+// QUOTA_STORE picks the backend: "memory" (default) or "firestore", which needs
+// a service account (see lib/firebase/admin)
+export const getUsageStore = () => {
+  if (!defaultStore) {
+    defaultStore = (process.env.QUOTA_STORE || '').toLowerCase() === 'firestore'
+      ? import('../firebase/usageStore').then(module => module.firestoreUsageStore)
+      : Promise.resolve(createMemoryUsageStore());
+  }
+  return defaultStore;
+};
+
+const toLimit = (used: number, limit: number): QuotaLimit => ({
+  used,
+  limit,
+  remaining: limit === 0 ? null : Math.max(limit - used, 0),
+});
+
+export const getQuotaStatus = async (userId: string): Promise<QuotaStatus> => {
+  const now = Date.now();
+  const day = getQuotaDay(now);
+  const usage = await (await getUsageStore()).get(userId, day);
+  const limits = getQuotaLimits();
+  const tomorrow = new Date(now);
+  tomorrow.setUTCHours(24, 0, 0, 0);
+
+  return {
+    day,
+    requests: toLimit(usage.requests, limits.requests),
+    tokens: toLimit(usage.tokens, limits.tokens),
+    resetAt: tomorrow.getTime(),
+  };
+};
+
+// Throw if either quota is used up, otherwise return the current status
+export const checkQuota = async (userId: string): Promise<QuotaStatus> => {
+  const status = await getQuotaStatus(userId);
+  if (status.requests.remaining === 0) throw new QuotaExceededError('requests', status);
+  if (status.tokens.remaining === 0) throw new QuotaExceededError('tokens', status);
+  return status;
+};
+
+// Throw if either quota is used up, otherwise count the request and return the updated status
+export const consumeRequest = async (userId: string): Promise<QuotaStatus> => {
+  const status = await checkQuota(userId);
+  await (await getUsageStore()).add(userId, status.day, { requests: 1 });
+  return {
+    ...status,
+    requests: toLimit(status.requests.used + 1, status.requests.limit),
+  };
+};
+
+// Tokens are only known once a response has finished, so they are counted afterwards
+export const recordTokens = async (userId: string, tokens: number) => {
+  if (tokens <= 0) return;
+  await (await getUsageStore()).add(userId, getQuotaDay(), { tokens });
+};
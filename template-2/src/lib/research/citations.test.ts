@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { parseCitations, stripSourcesTable } from './citations';
+
+const response = `Heat pumps work below freezing [Source 1]. Costs depend on power prices [Source 2, 4].
+- Backup heat is common [Sources 3-5]
+
+## Sources
+| 1 | Example |`;
+
+describe('parseCitations', () => {
+  it('splits the answer into cited claims', () => {
+    const citations = parseCitations(response, 5);
+    expect(citations.claims).toEqual([
+      { text: 'Heat pumps work below freezing.', sources: [1] },
+      { text: 'Costs depend on power prices.', sources: [2, 4] },
+      { text: 'Backup heat is common', sources: [3, 4, 5] },
+    ]);
+    expect(citations.citedSources).toEqual([1, 2, 3, 4, 5]);
+    expect(citations.invalidSources).toEqual([]);
+  });
+
+  it('flags numbers past the last source', () => {
+    expect(parseCitations(response, 3).invalidSources).toEqual([4, 5]);
+  });
+
+  it('flags sources that were left out of the prompt', () => {
+    const citations = parseCitations(response, 5, [1, 2, 3]);
+    expect(citations.invalidSources).toEqual([4, 5]);
+    expect(citations.citedSources).toEqual([1, 2, 3]);
+    expect(citations.claims[1]).toEqual({ text: 'Costs depend on power prices.', sources: [2], invalidSources: [4] });
+  });
+});
+
+describe('stripSourcesTable', () => {
+  it('drops the trailing sources table', () => {
+    expect(stripSourcesTable(response)).toBe(response.slice(0, response.indexOf('\n\n## Sources')));
+    expect(stripSourcesTable('Answer.\n\n### sources:\n| 1 | Example |')).toBe('Answer.');
+    expect(stripSourcesTable('Answer.\n\n## Sources')).toBe('Answer.');
+  });
+
+  it('keeps sections whose heading only starts with "Sources"', () => {
+    const report = `Intro.
+
+## Sources of funding
+Most projects are publicly funded [Source 1].
+
+## Sources
+| 1 | Example |`;
+    expect(stripSourcesTable(report)).toBe('Intro.\n\n## Sources of funding\nMost projects are publicly funded [Source 1].');
+    expect(parseCitations(report, 1).claims).toEqual([{ text: 'Most projects are publicly funded.', sources: [1] }]);
+  });
+});
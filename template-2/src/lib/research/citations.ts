@@ -0,0 +1,74 @@
+import { CitationAnalysis, Claim } from './types';
+
+// Matches [Source 3], [Source 1, 4], [Sources 2-3] and [Source 1][Source 2]
+const CITATION_PATTERN = /\[Sources? (\d+(?:\s*(?:,|-|–|and)\s*(?:Source )?\d+)*)\]/gi;
+
+const parseIndices = (list: string): number[] => {
+  const indices: number[] = [];
+  for (const part of list.split(/\s*(?:,|and)\s*/i)) {
+    const range = part.replace(/Source /i, '').split(/\s*[-–]\s*/).map(n => parseInt(n, 10));
+    if (range.some(isNaN)) continue;
+    if (range.length === 2 && range[1] >= range[0] && range[1] - range[0] < 20) {
+      for (let n = range[0]; n <= range[1]; n++) indices.push(n);
+    } else {
+      indices.push(...range);
+    }
+  }
+  return Array.from(new Set(indices));
+};
+
+// The report ends with a copy of the sources table, which isn't part of the answer.
+// Only a heading that is exactly "Sources" starts it, not e.g. "## Sources of funding".
+export const stripSourcesTable = (response: string) =>
+  response.replace(/\n#{1,6}[ \t]*Sources:?[ \t]*(?:\n[\s\S]*)?$/i, '').trim();
+
+// Split the answer into claims: the sentences or list items that carry citation markers.
+// When the prompt held only some of the sources, citing one it left out is as
+// invalid as citing a number past the end.
+export const parseCitations = (response: string, sourceCount: number, includedSources?: number[]): CitationAnalysis => {
+  const isValid = (n: number) => n >= 1 && n <= sourceCount && (!includedSources || includedSources.includes(n));
+  const claims: Claim[] = [];
+  const invalidSources = new Set<number>();
+  const citedSources = new Set<number>();
+
+  const segments = stripSourcesTable(response)
+    .split(/\n+/)
+    .flatMap(line => line.split(/(?<=[.!?](?:\s*\[Sources? [^\]]+\])*)\s+(?=[A-Z])/));
+
+  for (const segment of segments) {
+    const matches = Array.from(segment.matchAll(CITATION_PATTERN));
+    if (matches.length === 0) continue;
+
+    const sources = Array.from(new Set(matches.flatMap(match => parseIndices(match[1]))));
+    const invalid = sources.filter(n => !isValid(n));
+    invalid.forEach(n => invalidSources.add(n));
+    sources.filter(n => !invalid.includes(n)).forEach(n => citedSources.add(n));
+
+    const text = segment
+      .replace(CITATION_PATTERN, '')
+      .replace(/^\s*(?:[-*+]|\d+\.|#{1,6})\s+/, '')
+      .replace(/\s+([.,;:!?])/g, '$1')
+      .trim();
+    if (!text) continue;
+
+    claims.push({
+      text,
+      sources: sources.filter(n => !invalid.includes(n)),
+      ...(invalid.length ? { invalidSources: invalid } : {}),
+    });
+  }
+
+  return {
+    claims,
+    citedSources: Array.from(citedSources).sort((a, b) => a - b),
+    invalidSources: Array.from(invalidSources).sort((a, b) => a - b),
+  };
+};
+
+// Replace each citation marker with one rendering per cited source number
+export const formatCitations = (content: string, format: (sourceNumber: number) => string): string =>
+  content.replace(CITATION_PATTERN, (_, list: string) => parseIndices(list).map(format).join(''));
+
+// Rewrite citation markers into markdown links (#source-N) the report renderer turns into numbered markers
+export const linkCitations = (content: string): string =>
+  formatCitations(content, n => `[${n}](#source-${n})`);
@@ -0,0 +1,104 @@
+import { ChatDelta, ChatMessage, LLMProviderId, ModelOptions } from '../llm/types';
+import { QuotaStatus } from '../quota';
+import { readJSONStream } from '../sse';
+import { ResearchEvent, ResearchRequest } from './types';
+
+// A rejected research request; quota errors carry the caller's quota so the UI can show when it resets
+export class ResearchRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code?: string,
+    public readonly quota?: QuotaStatus
+  ) {
+    super(message);
+    this.name = 'ResearchRequestError';
+  }
+}
+
+// Call /api/research and yield its events as they arrive
+export async function* streamResearch(
+  request: ResearchRequest,
+  signal?: AbortSignal,
+  idToken?: string
+): AsyncGenerator<ResearchEvent> {
+  const response = await fetch('/api/research', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(idToken ? { 'Authorization': `Bearer ${idToken}` } : {}),
+    },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new ResearchRequestError(
+      data.error || 'Failed to start research. Please try again.',
+      response.status,
+      data.code,
+      data.quota
+    );
+  }
+
+  if (!response.body) throw new Error('No reader available');
+
+  yield* readJSONStream<ResearchEvent>(response.body);
+}
+
+// A chunk from /api/chat; the usage chunk names the model that ran and what it cost
+interface ChatChunk {
+  choices?: { delta?: { reasoning_content?: string; content?: string } }[];
+  usage?: ChatDelta['usage'];
+  cost?: number;
+  provider?: LLMProviderId;
+  model?: string;
+}
+
+export interface ChatStreamDelta extends ChatDelta {
+  cost?: number;
+  provider?: LLMProviderId;
+  model?: string;
+}
+
+// Call /api/chat and yield its deltas. Aborting the signal also stops the upstream model call.
+export async function* streamChatCompletion(
+  request: ModelOptions & { messages: ChatMessage[] },
+  signal?: AbortSignal,
+  idToken?: string
+): AsyncGenerator<ChatStreamDelta> {
+  const response = await fetch('/api/chat', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(idToken ? { 'Authorization': `Bearer ${idToken}` } : {}),
+    },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new ResearchRequestError(
+      data.error || 'Failed to get a response. Please try again.',
+      response.status,
+      data.code,
+      data.quota
+    );
+  }
+
+  if (!response.body) throw new Error('No reader available');
+
+  for await (const chunk of readJSONStream<ChatChunk>(response.body)) {
+    const delta = chunk.choices?.[0]?.delta;
+    yield {
+      reasoning: delta?.reasoning_content,
+      content: delta?.content,
+      usage: chunk.usage,
+      cost: chunk.cost,
+      provider: chunk.provider,
+      model: chunk.model,
+    };
+  }
+}
@@ -0,0 +1,97 @@
+import { completeChat } from '../llm';
+import { ModelOptions, TokenUsage } from '../llm/types';
+import { SearchResult } from '../search/types';
+import { ConsensusAnalysis, ConsensusClaim } from './types';
+
+// Enough of each source to find its claims without resending the whole report context
+const SOURCE_CHARS = 800;
+const MAX_SOURCES = 20;
+const MAX_CLAIMS = 12;
+
+export const buildConsensusPrompt = (query: string, sources: { number: number; result: SearchResult }[]): string => {
+  const excerpts = sources
+    .map(({ number, result }) => {
+      const text = [result.content, ...(result.extracts ?? [])].join('\n').slice(0, SOURCE_CHARS);
+      return `[${number}] ${result.title}\n${text}`;
+    })
+    .join('\n\n');
+
+  return `You are comparing what different sources say about a research question.
+
+Question: "${query}"
+
+Sources:
+${excerpts}
+
+Pick out up to ${MAX_CLAIMS} key factual claims these sources make that matter for the question. For each claim, list which sources support it and which contradict it, then classify it:
+- "agreed": two or more sources support it and none contradict it
+- "disputed": at least one source contradicts it
+- "uncorroborated": only one source makes it and none contradict it
+
+Respond with only JSON in exactly this shape, and nothing else:
+{"claims": [{"claim": "short statement", "status": "agreed", "supporting": [1, 3], "contradicting": [], "note": "optional: how the sources differ"}]}`;
+};
+
+const toSourceList = (value: unknown, sourceNumbers: Set<number>) =>
+  Array.isArray(value)
+    ? Array.from(new Set(value.map(Number).filter(n => sourceNumbers.has(n))))
+    : [];
+
+// Pull the claims out of the model's answer. Source numbers that weren't in the
+// prompt are dropped, and the status is derived from the sources listed rather
+// than trusted from the model.
+export const parseConsensusResponse = (text: string, sourceNumbers: number[]): ConsensusAnalysis | null => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1));
+    if (!Array.isArray(parsed.claims)) return null;
+
+    const known = new Set(sourceNumbers);
+    const claims: ConsensusClaim[] = [];
+    for (const item of parsed.claims.slice(0, MAX_CLAIMS)) {
+      const claim = typeof item?.claim === 'string' ? item.claim.trim() : '';
+      const supporting = toSourceList(item?.supporting, known);
+      const contradicting = toSourceList(item?.contradicting, known).filter(n => !supporting.includes(n));
+      if (!claim || supporting.length + contradicting.length === 0) continue;
+
+      claims.push({
+        claim,
+        status: contradicting.length > 0 ? 'disputed' : supporting.length > 1 ? 'agreed' : 'uncorroborated',
+        supporting,
+        contradicting,
+        ...(typeof item.note === 'string' && item.note.trim() ? { note: item.note.trim() } : {}),
+      });
+    }
+    return { claims };
+  } catch (e) {
+    console.error('Error parsing consensus response:', e);
+    return null;
+  }
+};
+
+// Ask the model which claims the sources agree and disagree on
+export const analyzeConsensus = async (
+  query: string,
+  results: SearchResult[],
+  sourceNumbers: number[],
+  model?: ModelOptions,
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+): Promise<ConsensusAnalysis | null> => {
+  const sources = sourceNumbers
+    .slice(0, MAX_SOURCES)
+    .map(number => ({ number, result: results[number - 1] }))
+    .filter(source => source.result);
+  if (sources.length < 2) return null;
+
+  const answer = await completeChat(
+    [{ role: 'user', content: buildConsensusPrompt(query, sources) }],
+    model,
+    signal,
+    onUsage
+  );
+  return parseConsensusResponse(answer, sources.map(source => source.number));
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { estimateTokens } from '../llm/tokens';
+import { SearchResult } from '../search/types';
+import { buildReasoningInput, buildResearchContext } from './context';
+
+// About 900 tokens in full and a little over 200 once trimmed
+const result = (number: number, extra: Partial<SearchResult> = {}): SearchResult => ({
+  title: `Source ${number}`,
+  url: `https://example.com/${number}`,
+  content: `Finding ${number}. `.repeat(300),
+  ...extra,
+});
+
+// Ranked 3 (private), 2, 1, then 4 (low credibility, despite its score)
+const results = [
+  result(1, { score: 0.2 }),
+  result(2, { score: 0.9 }),
+  result(3, { private: true }),
+  result(4, { score: 1, credibility: { score: 0.2, level: 'low', reasons: ['Unknown domain'] } }),
+];
+
+const query = 'solid-state batteries';
+const overhead = estimateTokens(buildReasoningInput(query, []));
+const build = (budget: number) => buildResearchContext({ query, results, tokenBudget: overhead + budget });
+
+describe('buildResearchContext', () => {
+  it('includes every source when the budget allows, but always trims low-credibility ones', () => {
+    const { report } = build(100_000);
+    expect(report.includedSources).toEqual([1, 2, 3, 4]);
+    expect(report.trimmedSources).toEqual([4]);
+    expect(report.excludedSources).toEqual([]);
+  });
+
+  it('trims, then leaves out, the lowest-ranked sources first', () => {
+    const { reasoningInput, report } = build(2200);
+    expect(report.includedSources).toEqual([1, 2, 3]);
+    expect(report.trimmedSources).toEqual([1]);
+    expect(report.excludedSources).toEqual([
+      { source: 4, title: 'Source 4', url: 'https://example.com/4', estimatedTokens: expect.any(Number) },
+    ]);
+    expect(report.estimatedTokens).toBeLessThanOrEqual(report.tokenBudget);
+
+    // Included sources keep their numbers and search order in the prompt
+    const positions = [1, 2, 3].map(number => reasoningInput.indexOf(`[Source ${number}]`));
+    expect(positions).toEqual([...positions].sort((a, b) => a - b));
+    expect(reasoningInput).not.toContain('[Source 4]');
+  });
+
+  it('reports excluded sources by number with the tokens they would have needed', () => {
+    const { report } = build(1200);
+    expect(report.includedSources).toEqual([2, 3]);
+    expect(report.trimmedSources).toEqual([2]);
+    expect(report.excludedSources.map(source => source.source)).toEqual([1, 4]);
+    for (const source of report.excludedSources) {
+      expect(source.estimatedTokens).toBeGreaterThan(200);
+      expect(source.estimatedTokens).toBeLessThan(300);
+    }
+  });
+
+  it('leaves out everything when the budget only covers the prompt itself', () => {
+    const { reasoningInput, report } = build(0);
+    expect(report.includedSources).toEqual([]);
+    expect(report.excludedSources.map(source => source.source)).toEqual([1, 2, 3, 4]);
+    expect(reasoningInput).toBe(buildReasoningInput(query, []));
+  });
+});
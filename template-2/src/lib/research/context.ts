@@ -0,0 +1,146 @@
+import { estimateTokens } from '../llm/tokens';
+import { getDomain } from '../search/domains';
+import { SearchResult } from '../search/types';
+import { ContextReport, ExcludedSource } from './types';
+
+// Longest a source's text may be once it has been trimmed to fit
+const TRIMMED_CONTENT_CHARS = 600;
+
+interface NumberedSource {
+  number: number;
+  result: SearchResult;
+  trimmed: boolean;
+}
+
+const isLowCredibility = (result: SearchResult) => result.credibility?.level === 'low';
+
+const renderSource = ({ number, result, trimmed }: NumberedSource) => {
+  const content = trimmed && result.content.length > TRIMMED_CONTENT_CHARS
+    ? `${result.content.slice(0, TRIMMED_CONTENT_CHARS)}...`
+    : result.content;
+  const extracts = !trimmed && result.extracts?.length
+    ? `Excerpts from the full page:\n${result.extracts.join('\n[...]\n')}\n`
+    : '';
+  const caution = result.library
+    ? " (from the user's library)"
+    : result.private
+      ? ' (private document uploaded by the user)'
+      : isLowCredibility(result)
+        ? ` (low credibility: ${result.credibility!.reasons.join('; ')})`
+        : '';
+  // Copies of the same article aren't independent confirmation
+  const alternates = result.alternates?.length
+    ? `Also published at: ${result.alternates.map(alternate => getDomain(alternate.url) || alternate.url).join(', ')}\n`
+    : '';
+  const published = result.publishedDate ? `Published: ${result.publishedDate.slice(0, 10)}\n` : '';
+  return `[Source ${number}]${caution}: ${result.title}\n${content}\n${extracts}URL: ${result.url}\n${published}${alternates}`;
+};
+
+const renderTableRow = ({ number, result }: NumberedSource) =>
+  `| ${number} | [${result.title}](${result.url}) | ${result.snippet || result.content.slice(0, 150)}${result.content.length > 150 ? '...' : ''} |`;
+
+// Everything in the reasoning prompt besides the question and the sources
+interface ReasoningNotes {
+  answer?: string;
+  searchQuery?: string;
+  dateFilter?: string;
+  // Output format requested by the research template
+  instructions?: string;
+  // What the vision model saw in the image attached to the question
+  imageDescription?: string;
+}
+
+export const buildReasoningInput = (
+  query: string,
+  sources: NumberedSource[],
+  { answer, searchQuery, dateFilter, instructions, imageDescription }: ReasoningNotes = {}
+): string => {
+  const searchContext = sources.map(renderSource).join('\n\n');
+
+  const directAnswer = answer
+    ? `\nSearch Engine's Direct Answer: ${answer}\n\n`
+    : '';
+
+  const credibilityNote = sources.some(source => isLowCredibility(source.result))
+    ? ' Sources marked low credibility should only support claims that other sources corroborate.'
+    : '';
+
+  const followUpNote = searchQuery && searchQuery !== query
+    ? ` (a follow-up in this conversation, searched as "${searchQuery}")`
+    : '';
+
+  // Models don't know today's date, and need it to judge how current a source is
+  const dateNote = ` Today's date is ${new Date().toISOString().slice(0, 10)}.` +
+    (dateFilter ? ` The search was limited to sources ${dateFilter}; say so if that leaves the question only partly answered.` : '');
+
+  const imageNote = imageDescription
+    ? `\n\nThe user attached an image to the question. A vision model described it as follows:\n${imageDescription}\n`
+    : '';
+
+  // Add sources table at the end
+  const sourcesTable = `\n\n## Sources\n| Number | Source | Description |\n|---------|---------|-------------|\n` +
+    sources.map(renderTableRow).join('\n');
+
+  return `Here is the research data:${directAnswer}\n${searchContext}${imageNote}\n\nPlease analyze this information and create a detailed report addressing the original query: "${query}"${followUpNote}. Cite sources inline as [Source N] directly after the statement they support, using only the source numbers listed above. If the sources contain any potential biases or conflicting information, please note that in your analysis.${credibilityNote}${dateNote}${instructions ? `\n\n${instructions}` : ''}\n\nIMPORTANT: Always end your response with a sources table listing all references used. Format it exactly as shown below:\n${sourcesTable}`;
+};
+
+// Fit as many sources as the budget allows, best-ranked first. A source that
+// doesn't fit in full is tried again without page excerpts and with its text
+// shortened; if that still doesn't fit it is left out and reported.
+// Low-credibility sources rank last and are always shortened.
+export const buildResearchContext = ({
+  query,
+  results,
+  tokenBudget,
+  ...notes
+}: ReasoningNotes & {
+  query: string;
+  results: SearchResult[];
+  tokenBudget: number;
+}): { reasoningInput: string; report: ContextReport } => {
+  let used = estimateTokens(buildReasoningInput(query, [], notes));
+
+  // The user's own documents come first, then providers' relevance scores decide; ties keep the search order
+  const ranked = results
+    .map((result, index) => ({ result, number: index + 1 }))
+    .sort((a, b) =>
+      Number(isLowCredibility(a.result)) - Number(isLowCredibility(b.result)) ||
+      Number(!!b.result.private) - Number(!!a.result.private) ||
+      (b.result.score ?? 0) - (a.result.score ?? 0) ||
+      a.number - b.number
+    );
+
+  const included: NumberedSource[] = [];
+  const excluded: ExcludedSource[] = [];
+  for (const { result, number } of ranked) {
+    const full = { number, result, trimmed: false };
+    const short = { number, result, trimmed: true };
+    const fullTokens = estimateTokens(renderSource(full) + renderTableRow(full));
+    const shortTokens = estimateTokens(renderSource(short) + renderTableRow(short));
+
+    if (used + fullTokens <= tokenBudget && !isLowCredibility(result)) {
+      included.push(full);
+      used += fullTokens;
+    } else if (used + shortTokens <= tokenBudget) {
+      included.push(short);
+      used += shortTokens;
+    } else {
+      excluded.push({ source: number, title: result.title, url: result.url, estimatedTokens: shortTokens });
+    }
+  }
+
+  // Sources keep their original numbers, so citations still point at the right source cards
+  included.sort((a, b) => a.number - b.number);
+  const reasoningInput = buildReasoningInput(query, included, notes);
+
+  return {
+    reasoningInput,
+    report: {
+      tokenBudget,
+      estimatedTokens: estimateTokens(reasoningInput),
+      includedSources: included.map(source => source.number),
+      trimmedSources: included.filter(source => source.trimmed).map(source => source.number),
+      excludedSources: excluded.sort((a, b) => a.source - b.source),
+    },
+  };
+};
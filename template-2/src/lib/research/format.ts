@@ -0,0 +1,23 @@
+// Normalize the model's markdown so headings, lists, code blocks and tables render cleanly
+export const formatResponse = (content: string): string => {
+  if (!content) return '';
+  
+  // Ensure content has proper markdown structure
+  let formattedContent = content;
+  
+  // Ensure headings have space after #
+  formattedContent = formattedContent.replace(/^(#{1,6})([^#\s])/gm, '$1 $2');
+  
+  // Ensure lists have proper spacing
+  formattedContent = formattedContent.replace(/^([*-])([^\s])/gm, '$1 $2');
+  
+  // Ensure code blocks are properly formatted - without using 's' flag
+  formattedContent = formattedContent.replace(/```([^`\n]*)\n([\s\S]*?)```/g, '```$1\n$2\n```');
+  
+  // Ensure tables have proper formatting
+  if (formattedContent.includes('|') && !formattedContent.includes('| --')) {
+    formattedContent = formattedContent.replace(/\|([^|\n]*)\|([^|\n]*)\|/g, '| $1 | $2 |');
+  }
+  
+  return formattedContent;
+};
@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { normalizeResearchImage } from './image';
+
+const BUCKET = 'deep-search.appspot.com';
+const imageUrl = (bucket = BUCKET) =>
+  `https://firebasestorage.googleapis.com/v0/b/${bucket}/o/users%2Fu1%2Fimages%2Fchart.png?alt=media&token=abc`;
+
+describe('normalizeResearchImage', () => {
+  beforeEach(() => {
+    vi.stubEnv('NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET', BUCKET);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('accepts images in the app bucket', () => {
+    expect(normalizeResearchImage({ url: imageUrl() })).toEqual({ url: imageUrl() });
+  });
+
+  it('refuses other buckets, hosts and protocols', () => {
+    for (const url of [
+      imageUrl('someone-else.appspot.com'),
+      imageUrl(`${BUCKET}.evil`),
+      `https://firebasestorage.googleapis.com/v0/b/${BUCKET}`,
+      imageUrl().replace('https:', 'http:'),
+      imageUrl().replace('firebasestorage.googleapis.com', 'example.com'),
+      'http://169.254.169.254/latest/meta-data/',
+      'data:image/png;base64,AAAA',
+      'not a url',
+    ]) {
+      expect(normalizeResearchImage({ url }), url).toBeNull();
+    }
+    expect(normalizeResearchImage(null)).toBeNull();
+    expect(normalizeResearchImage({})).toBeNull();
+  });
+
+  it('refuses every image when no bucket is configured', () => {
+    vi.stubEnv('NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET', '');
+    expect(normalizeResearchImage({ url: imageUrl() })).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import { ImageAnalysis, ResearchImage } from './types';
+
+// Asked on the user's behalf when they attach an image without typing a question
+export const DEFAULT_IMAGE_QUERY = 'What does this image show, and what should I know about it?';
+
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const ACCEPTED_IMAGE_TYPES = 'image/png,image/jpeg,image/gif,image/webp';
+
+// Only images in this app's Firebase Storage bucket are accepted, so the
+// server never asks a model to fetch an arbitrary URL (or another project's files)
+export const normalizeResearchImage = (image: Partial<ResearchImage> | null | undefined): ResearchImage | null => {
+  const bucket = process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET;
+  if (!bucket || !image || typeof image.url !== 'string') return null;
+  try {
+    const url = new URL(image.url);
+    if (url.protocol !== 'https:' || url.hostname !== 'firebasestorage.googleapis.com') return null;
+    if (!url.pathname.startsWith(`/v0/b/${bucket}/`)) return null;
+    return { url: url.toString() };
+  } catch {
+    return null;
+  }
+};
+
+// Ask a vision model what the image shows and what to search for to research it
+export const buildImagePrompt = (query: string, maxQueries: number, askedQuestion: boolean): string =>
+  `The user attached this image to a research question.
+
+${askedQuestion ? `Question: "${query}"` : "The user didn't type a question; work out what they would most likely want to know about the image."}
+
+First describe what the image shows, concentrating on what matters for research: any text, numbers, labels, chart axes, values and trends, products, brands, places, and what kind of image it is (chart, screenshot, photo, diagram). Don't guess at the identity of people.
+
+Then propose up to ${maxQueries} web search queries that would find information to answer the question about this image. Make each query specific, using names and text visible in the image.
+
+Respond with only JSON in exactly this shape, and nothing else:
+{"description": "what the image shows", "queries": ["search query"]}`;
+
+// Tolerates code fences and prose; a model that ignored the format still gives a usable description
+export const parseImageAnalysis = (text: string, maxQueries: number): ImageAnalysis => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    try {
+      const parsed = JSON.parse(text.slice(start, end + 1));
+      if (typeof parsed.description === 'string') {
+        const queries: string[] = Array.isArray(parsed.queries)
+          ? parsed.queries.filter((query: unknown): query is string => typeof query === 'string' && !!query.trim())
+          : [];
+        return {
+          description: parsed.description.trim(),
+          searchQueries: Array.from(new Set(queries.map(query => query.trim()))).slice(0, maxQueries),
+        };
+      }
+    } catch (e) {
+      console.error('Error parsing image analysis:', e);
+    }
+  }
+  return { description: text.trim(), searchQueries: [] };
+};
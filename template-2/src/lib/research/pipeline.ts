@@ -0,0 +1,409 @@
+import { PrivateDocument, toPrivateSources } from '../documents';
+import { addPageContent } from '../extract';
+import { searchLibrary, toLibrarySources } from '../knowledge';
+import { completeChat, getContextBudget, getVisionModelOptions, streamChat, supportsVision } from '../llm';
+import { ChatMessage, TokenUsage } from '../llm/types';
+import { isSearchProviderId } from '../search';
+import { cachedSearch } from '../search/cache';
+import { applyCredibility } from '../search/credibility';
+import { describeDateFilter, normalizeDateFilter } from '../search/dates';
+import { mergeSearchResults } from '../search/dedupe';
+import { normalizeDomainList } from '../search/domains';
+import { SearchResponse, SearchResult } from '../search/types';
+import {
+  DEFAULT_RESEARCH_OPTIONS,
+  buildPlannerPrompt,
+  parsePlannerResponse,
+} from './planner';
+import { parseCitations } from './citations';
+import { analyzeConsensus } from './consensus';
+import { buildResearchContext } from './context';
+import { DEFAULT_IMAGE_QUERY, buildImagePrompt, parseImageAnalysis } from './image';
+import { DEFAULT_TEMPLATE, buildTemplateInstructions, buildTemplateSearchQuery } from './templates';
+import { buildReportMessages, buildRewritePrompt, parseRewrittenQuery, recentTurns } from './thread';
+import { summarizeUsage } from './usage';
+import {
+  ImageAnalysis,
+  PlannedQuery,
+  ResearchEvent,
+  ResearchImage,
+  ResearchOptions,
+  ResearchStep,
+  ResearchTemplate,
+  ThreadTurn,
+} from './types';
+
+export const validateSearchResults = (results: SearchResult[]): SearchResult[] => {
+  if (!results || !Array.isArray(results)) return [];
+
+  return results.map(result => ({
+    title: result.title || 'Untitled Source',
+    content: result.content || 'No content available',
+    url: result.url || '#',
+    snippet: result.snippet || result.content?.slice(0, 150) || '',
+    score: result.score || 0,
+    image: result.image || undefined,
+    publishedDate: result.publishedDate && !isNaN(Date.parse(result.publishedDate)) ? result.publishedDate : undefined
+  }));
+};
+
+// Merge caller options over the defaults, clamped so a request can't run away with the search budget
+export const resolveResearchOptions = (options: Partial<ResearchOptions> = {}): ResearchOptions => {
+  const clamp = (value: unknown, fallback: number, max: number) =>
+    typeof value === 'number' && Number.isFinite(value)
+      ? Math.min(Math.max(Math.floor(value), 0), max)
+      : fallback;
+
+  return {
+    maxDepth: Math.max(clamp(options.maxDepth, DEFAULT_RESEARCH_OPTIONS.maxDepth, 5), 1),
+    maxSearches: Math.max(clamp(options.maxSearches, DEFAULT_RESEARCH_OPTIONS.maxSearches, 12), 1),
+    queriesPerRound: clamp(options.queriesPerRound, DEFAULT_RESEARCH_OPTIONS.queriesPerRound, 5),
+    fetchPages: clamp(options.fetchPages, DEFAULT_RESEARCH_OPTIONS.fetchPages, 10),
+    analyzeConsensus: typeof options.analyzeConsensus === 'boolean'
+      ? options.analyzeConsensus
+      : DEFAULT_RESEARCH_OPTIONS.analyzeConsensus,
+    forceRefresh: options.forceRefresh === true,
+    useLibrary: options.useLibrary === true,
+    includeDomains: normalizeDomainList(options.includeDomains).slice(0, 50),
+    excludeDomains: normalizeDomainList(options.excludeDomains).slice(0, 50),
+    trustedDomains: normalizeDomainList(options.trustedDomains).slice(0, 200),
+    blockedDomains: normalizeDomainList(options.blockedDomains).slice(0, 200),
+    ...normalizeDateFilter(options),
+    searchProviders: Array.isArray(options.searchProviders)
+      ? options.searchProviders.filter(isSearchProviderId)
+      : undefined,
+    model: options.model,
+  };
+};
+
+const searchWithImages = async (
+  query: string,
+  options: ResearchOptions,
+  signal?: AbortSignal
+): Promise<SearchResponse> => {
+  const searchData = await cachedSearch({
+    query,
+    includeImages: true,
+    includeImageDescriptions: true,
+    includeDomains: options.includeDomains,
+    // Blocked domains would be dropped afterwards anyway; leaving them out of the search saves result slots
+    excludeDomains: Array.from(new Set([...(options.excludeDomains ?? []), ...(options.blockedDomains ?? [])])),
+    topic: options.topic,
+    days: options.days,
+    startDate: options.startDate,
+    endDate: options.endDate,
+    signal,
+  }, options.searchProviders?.length ? options.searchProviders : undefined, { forceRefresh: options.forceRefresh });
+
+  // Combine images with results, keeping any thumbnail the provider attached itself
+  const resultsWithImages = searchData.results.map((result: SearchResult, index: number) => ({
+    ...result,
+    image: result.image || searchData.images?.[index]
+  }));
+
+  return { ...searchData, results: validateSearchResults(resultsWithImages) };
+};
+
+const isAbortError = (error: unknown) => error instanceof Error && error.name === 'AbortError';
+
+// Run search rounds, then stream the report from the reasoner. Errors are reported as events.
+export async function* runResearch(
+  {
+    query,
+    options,
+    history = [],
+    template = DEFAULT_TEMPLATE,
+    documents = [],
+    image,
+    userId,
+  }: {
+    query: string;
+    options: ResearchOptions;
+    history?: ThreadTurn[];
+    template?: ResearchTemplate;
+    documents?: PrivateDocument[];
+    // Already checked with normalizeResearchImage
+    image?: ResearchImage | null;
+    // Owner of the library searched when options.useLibrary is set
+    userId?: string;
+  },
+  signal?: AbortSignal
+): AsyncGenerator<ResearchEvent> {
+  // Every model call's usage, for the run's totals
+  const modelCalls: TokenUsage[] = [];
+  const usageEvent = (usage: TokenUsage): ResearchEvent => {
+    modelCalls.push(usage);
+    return { type: 'usage', usage };
+  };
+
+  // With only an image attached, the question is implied
+  const askedQuestion = !!query.trim();
+  if (!askedQuestion) query = DEFAULT_IMAGE_QUERY;
+
+  try {
+    // Step 0: Resolve a follow-up into a standalone search query
+    let searchQuery = query;
+    if (recentTurns(history).length > 0) {
+      yield { type: 'status', message: 'Rewriting follow-up question' };
+      let usage: TokenUsage | undefined;
+      try {
+        const answer = await completeChat(
+          [{ role: 'user', content: buildRewritePrompt(query, history) }],
+          options.model,
+          signal,
+          u => { usage = u; }
+        );
+        searchQuery = parseRewrittenQuery(answer, query);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error('Error rewriting follow-up query:', error);
+      }
+      if (usage) yield usageEvent(usage);
+      yield { type: 'query_rewritten', searchQuery };
+    }
+
+    // Have a vision model describe the attached image and suggest searches for it. The
+    // report model describes it itself when it can see images.
+    let imageAnalysis: ImageAnalysis | null = null;
+    if (image) {
+      const visionModel = supportsVision(options.model) ? options.model : getVisionModelOptions();
+      if (!visionModel && !askedQuestion) {
+        throw new Error('Researching an image needs a vision-capable model. Set OPENAI_API_KEY, ANTHROPIC_API_KEY or VISION_PROVIDER.');
+      }
+      if (visionModel) {
+        yield { type: 'status', message: 'Looking at the attached image' };
+        const maxQueries = Math.min(options.maxSearches, 3);
+        let usage: TokenUsage | undefined;
+        try {
+          const analysis = await completeChat([
+            { role: 'user', content: buildImagePrompt(searchQuery, maxQueries, askedQuestion), images: [image.url] },
+          ], visionModel, signal, u => { usage = u; });
+          imageAnalysis = parseImageAnalysis(analysis, maxQueries);
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          console.error('Error analyzing image:', error);
+          if (!askedQuestion) throw new Error('Could not analyze the attached image. Please try again.');
+        } finally {
+          if (usage) yield usageEvent(usage);
+        }
+        if (imageAnalysis) yield { type: 'image_analysis', analysis: imageAnalysis };
+      } else {
+        console.warn('No vision-capable model is configured; researching the question without the image');
+      }
+    }
+    const imageQueries = [...(imageAnalysis?.searchQueries ?? [])];
+    // Without a typed question, the image's first suggested search stands in for it
+    if (!askedQuestion) searchQuery = imageQueries.shift() ?? searchQuery;
+
+    // Uploaded documents and library matches are found here and listed first; only
+    // web results feed the planner, so nothing from them ends up in a search query
+    let librarySources: SearchResult[] = [];
+    if (options.useLibrary && userId) {
+      yield { type: 'status', message: 'Searching your library' };
+      try {
+        librarySources = toLibrarySources(await searchLibrary(userId, searchQuery, { signal }));
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error('Error searching the library:', error);
+      }
+    }
+    const documentSources = toPrivateSources(documents, searchQuery);
+    const privateSources = [
+      ...documentSources,
+      // An attached document that is also in the library only needs to appear once
+      ...librarySources.filter(source => !documentSources.some(document => document.url === source.url)),
+    ];
+    const withPrivate = (web: SearchResult[]) => [...privateSources, ...web];
+
+    const steps: ResearchStep[] = [];
+    const setStep = (index: number, step: ResearchStep): ResearchEvent => {
+      steps[index] = step;
+      return { type: 'step', index, step };
+    };
+
+    // Step 1: Initial search, shaped by the template's search strategy
+    const initialQuery = buildTemplateSearchQuery(template, searchQuery);
+    yield setStep(0, {
+      round: 1,
+      query: initialQuery,
+      reason: !askedQuestion
+        ? 'Suggested by the attached image'
+        : searchQuery === query ? 'Initial search for the question' : 'Standalone search for the follow-up question',
+      status: 'searching'
+    });
+    const searchData = await searchWithImages(initialQuery, options, signal);
+
+    if (searchData.results.length === 0 && privateSources.length === 0) {
+      throw new Error('No relevant search results found. Please try a different query.');
+    }
+
+    let results = applyCredibility(mergeSearchResults([], searchData.results).merged, options);
+    if (results.length === 0 && privateSources.length === 0) {
+      throw new Error('Every search result came from a blocked domain. Please try a different query.');
+    }
+    const pastQueries = [initialQuery];
+    yield setStep(0, {
+      ...steps[0],
+      status: 'done',
+      provider: searchData.provider,
+      resultCount: searchData.results.length,
+      newResultCount: results.length,
+      cachedAt: searchData.cache?.hit ? searchData.cache.cachedAt : undefined
+    });
+    yield { type: 'sources_found', results: withPrivate(results), searchData: { ...searchData, results: withPrivate(results) } };
+
+    // Search again and merge in what's new, as one more step of the timeline
+    const searchStep = async function* (round: number, stepQuery: string, reason: string): AsyncGenerator<ResearchEvent> {
+      const stepIndex = steps.length;
+      pastQueries.push(stepQuery);
+      yield setStep(stepIndex, { round, query: stepQuery, reason, status: 'searching' });
+      try {
+        const followUp = await searchWithImages(stepQuery, options, signal);
+        const { merged, added } = mergeSearchResults(results, followUp.results);
+        results = applyCredibility(merged, options);
+        yield setStep(stepIndex, {
+          ...steps[stepIndex],
+          status: 'done',
+          provider: followUp.provider,
+          resultCount: followUp.results.length,
+          newResultCount: added.length,
+          cachedAt: followUp.cache?.hit ? followUp.cache.cachedAt : undefined
+        });
+        yield { type: 'sources_found', results: withPrivate(results), searchData: { ...searchData, results: withPrivate(results) } };
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        yield setStep(stepIndex, {
+          ...steps[stepIndex],
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Search failed'
+        });
+      }
+    };
+
+    // The image's other suggested searches complete the first round
+    for (const imageQuery of imageQueries) {
+      if (pastQueries.length >= options.maxSearches) break;
+      if (!pastQueries.includes(imageQuery)) yield* searchStep(1, imageQuery, 'Suggested by the attached image');
+    }
+
+    // Step 2: Let the reasoner find gaps and search for them until depth or budget runs out
+    for (let round = 2; round <= options.maxDepth; round++) {
+      const remaining = options.maxSearches - pastQueries.length;
+      if (remaining <= 0) break;
+
+      yield { type: 'status', message: `Planning follow-up searches (round ${round})` };
+      let planned: PlannedQuery[];
+      let usage: TokenUsage | undefined;
+      try {
+        const plan = await completeChat([
+          {
+            role: 'user',
+            content: buildPlannerPrompt(
+              searchQuery,
+              results,
+              pastQueries,
+              Math.min(options.queriesPerRound, remaining),
+              template.searchFocus
+            ),
+          },
+        ], options.model, signal, u => { usage = u; });
+        planned = parsePlannerResponse(plan, pastQueries).slice(0, remaining);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error('Error planning follow-up searches:', error);
+        break;
+      } finally {
+        if (usage) yield usageEvent(usage);
+      }
+      if (planned.length === 0) break;
+
+      for (const { query: followUpQuery, reason } of planned) {
+        yield* searchStep(round, followUpQuery, reason);
+      }
+    }
+
+    // Step 3: Read the top pages in full and keep the passages relevant to the question
+    if (options.fetchPages > 0) {
+      yield { type: 'status', message: `Reading the top ${Math.min(options.fetchPages, results.length)} sources` };
+      try {
+        const pageContent = await addPageContent(results, searchQuery, { maxPages: options.fetchPages, signal });
+        results = pageContent.results;
+        pageContent.report
+          .filter(page => !page.ok)
+          .forEach(page => console.warn(`Could not read ${page.url}: ${page.error ?? 'no readable text'}`));
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error('Error fetching page content:', error);
+      }
+    }
+    yield { type: 'status', message: '' };
+
+    // Step 4: Stream the report from the selected model
+    const sources = withPrivate(results);
+    const promptMessages = buildReportMessages(template.systemPrompt, history, query);
+    const { reasoningInput, report } = buildResearchContext({
+      query,
+      results: sources,
+      answer: searchData.answer,
+      // The image's search isn't a rewrite of the question, so don't present it as one
+      searchQuery: askedQuestion ? searchQuery : undefined,
+      dateFilter: describeDateFilter(options),
+      instructions: buildTemplateInstructions(template),
+      imageDescription: imageAnalysis?.description,
+      tokenBudget: getContextBudget(options.model, promptMessages),
+    });
+    yield { type: 'reasoning_input', reasoningInput, context: report };
+
+    // Models that can see images get the image itself next to its description
+    const messages: ChatMessage[] = [
+      ...promptMessages,
+      { role: 'user', content: reasoningInput, images: image && supportsVision(options.model) ? [image.url] : undefined },
+    ];
+
+    // Compare the sources' claims while the report is written
+    let consensusUsage: TokenUsage | undefined;
+    const consensusTask = options.analyzeConsensus
+      ? analyzeConsensus(query, sources, report.includedSources, options.model, signal, u => { consensusUsage = u; })
+        .catch(error => {
+          if (!isAbortError(error)) console.error('Error analyzing consensus:', error);
+          return null;
+        })
+      : Promise.resolve(null);
+
+    let reasoning = '';
+    let response = '';
+    for await (const delta of streamChat(messages, options.model, signal)) {
+      if (delta.reasoning) {
+        reasoning += delta.reasoning;
+        yield { type: 'reasoning_delta', delta: delta.reasoning };
+      }
+      if (delta.content) {
+        response += delta.content;
+        yield { type: 'content_delta', delta: delta.content };
+      }
+      if (delta.usage) {
+        yield usageEvent(delta.usage);
+      }
+    }
+
+    if (options.analyzeConsensus) {
+      yield { type: 'status', message: 'Comparing what the sources agree and disagree on' };
+      const consensus = await consensusTask;
+      if (consensusUsage) yield usageEvent(consensusUsage);
+      if (consensus) yield { type: 'consensus', consensus };
+      yield { type: 'status', message: '' };
+    }
+
+    yield {
+      type: 'done',
+      reasoning,
+      response,
+      citations: parseCitations(response, sources.length, report.includedSources),
+      usage: summarizeUsage(modelCalls, steps, options.model),
+    };
+  } catch (error) {
+    if (isAbortError(error)) return;
+    console.error('Research pipeline error:', error);
+    yield { type: 'error', error: error instanceof Error ? error.message : 'An unexpected error occurred' };
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parsePlannerResponse } from './planner';
+
+describe('parsePlannerResponse', () => {
+  const plan = '{"queries": [{"query": "heat pump efficiency below -20C", "reason": "Cold-climate performance"}]}';
+
+  it('reads the planned queries', () => {
+    expect(parsePlannerResponse(plan)).toEqual([
+      { query: 'heat pump efficiency below -20C', reason: 'Cold-climate performance' },
+    ]);
+  });
+
+  it('accepts JSON inside a code fence or surrounded by prose', () => {
+    const expected = parsePlannerResponse(plan);
+    expect(parsePlannerResponse(`\`\`\`json\n${plan}\n\`\`\``)).toEqual(expected);
+    expect(parsePlannerResponse(`Here is the plan:\n${plan}\nLet me know if you need more.`)).toEqual(expected);
+  });
+
+  it('returns an empty plan when the findings are already enough', () => {
+    expect(parsePlannerResponse('{"queries": []}')).toEqual([]);
+  });
+
+  it('falls back to no follow-up searches when the answer is not a plan', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    for (const text of [
+      '',
+      'No further searches are needed.',
+      '} {',
+      '{"queries": [{"query": "unterminated}',
+      '{"queries": "heat pumps"}',
+      '{"plan": [{"query": "heat pumps"}]}',
+    ]) {
+      expect(parsePlannerResponse(text), text).toEqual([]);
+    }
+    // Only the truncated JSON gets as far as the parser
+    expect(error).toHaveBeenCalledOnce();
+    error.mockRestore();
+  });
+
+  it('skips blank, malformed and repeated queries and trims the rest', () => {
+    const text = JSON.stringify({
+      queries: [
+        { query: '  Heat pump running costs  ', reason: ' Costs ' },
+        { query: 'heat pump running costs', reason: 'Duplicate' },
+        { query: 'HEAT PUMPS', reason: 'Already searched' },
+        { query: '   ' },
+        { query: 42 },
+        null,
+        'heat pump noise',
+        { query: 'heat pump noise levels', reason: 7 },
+      ],
+    });
+
+    expect(parsePlannerResponse(text, ['heat pumps'])).toEqual([
+      { query: 'Heat pump running costs', reason: 'Costs' },
+      { query: 'heat pump noise levels', reason: '' },
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+import { SearchResult } from '../search/types';
+import { PlannedQuery, ResearchOptions } from './types';
+
+export const RESEARCH_DEPTH_PRESETS: { label: string; options: ResearchOptions }[] = [
+  { label: 'Quick', options: { maxDepth: 1, maxSearches: 1, queriesPerRound: 0, fetchPages: 3, analyzeConsensus: false } },
+  { label: 'Standard', options: { maxDepth: 2, maxSearches: 4, queriesPerRound: 3, fetchPages: 5, analyzeConsensus: true } },
+  { label: 'Deep', options: { maxDepth: 3, maxSearches: 8, queriesPerRound: 4, fetchPages: 8, analyzeConsensus: true } },
+];
+
+export const DEFAULT_RESEARCH_OPTIONS: ResearchOptions = RESEARCH_DEPTH_PRESETS[1].options;
+
+// Build the prompt that asks the reasoner which gaps are left in the current findings
+export const buildPlannerPrompt = (
+  originalQuery: string,
+  results: SearchResult[],
+  pastQueries: string[],
+  maxQueries: number,
+  focus?: string
+): string => {
+  const findings = results
+    .map((result, index) => `[${index + 1}] ${result.title}\n${(result.snippet || result.content).slice(0, 300)}`)
+    .join('\n\n');
+
+  return `You are planning follow-up web searches for a research assistant.
+
+Original question: "${originalQuery}"
+Today's date: ${new Date().toISOString().slice(0, 10)}
+
+Searches already run:
+${pastQueries.map(query => `- ${query}`).join('\n')}
+
+Current findings:
+${findings}
+
+Identify the most important gaps in these findings for answering the original question, and propose up to ${maxQueries} new web search queries that would fill them. Do not repeat searches that were already run.${focus ? ` Prioritize ${focus}.` : ''}
+
+Respond with only JSON in exactly this shape, and nothing else:
+{"queries": [{"query": "search query", "reason": "which gap this fills"}]}
+
+If the findings already answer the question well, respond with {"queries": []}.`;
+};
+
+// Pull the planned queries out of the model's answer, tolerating code fences and surrounding prose
+export const parsePlannerResponse = (text: string, pastQueries: string[] = []): PlannedQuery[] => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return [];
+
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1));
+    if (!Array.isArray(parsed.queries)) return [];
+
+    const seen = new Set(pastQueries.map(query => query.trim().toLowerCase()));
+    const planned: PlannedQuery[] = [];
+    for (const item of parsed.queries) {
+      const query = typeof item?.query === 'string' ? item.query.trim() : '';
+      if (!query || seen.has(query.toLowerCase())) continue;
+      seen.add(query.toLowerCase());
+      planned.push({
+        query,
+        reason: typeof item.reason === 'string' ? item.reason.trim() : '',
+      });
+    }
+    return planned;
+  } catch (e) {
+    console.error('Error parsing planner response:', e);
+    return [];
+  }
+};
@@ -0,0 +1,57 @@
+import { LLMProviderId, TokenUsage } from '../llm/types';
+import { buildReportMessages } from './thread';
+import { ResearchTemplate, ResearchUsage, ThreadTurn } from './types';
+
+// The report step again, over the same research context, with the user's extra instructions last
+export const buildReanalysisMessages = ({
+  template,
+  history,
+  query,
+  reasoningInput,
+  instructions,
+}: {
+  template: ResearchTemplate;
+  history: ThreadTurn[];
+  query: string;
+  reasoningInput: string;
+  instructions?: string;
+}) => [
+  ...buildReportMessages(template.systemPrompt, history, query),
+  {
+    role: 'user' as const,
+    content: instructions
+      ? `${reasoningInput}\n\nAdditional instructions from the user for this analysis, which take priority over the ones above where they conflict:\n${instructions}`
+      : reasoningInput,
+  },
+];
+
+// Usage of a single model call made outside a research run, in the same shape as a run's
+export const toCallUsage = (usage: TokenUsage, cost: number, provider: LLMProviderId, model: string): ResearchUsage => ({
+  provider,
+  model,
+  promptTokens: usage.promptTokens,
+  reasoningTokens: usage.reasoningTokens || 0,
+  completionTokens: usage.completionTokens,
+  totalTokens: usage.totalTokens,
+  estimated: !!usage.estimated,
+  searches: 0,
+  cachedSearches: 0,
+  cost: { model: cost, search: 0, total: cost },
+});
+
+// Add a later call to a run's totals; the run keeps its original model label
+export const addUsage = (usage: ResearchUsage | undefined, call: ResearchUsage): ResearchUsage => usage
+  ? {
+    ...usage,
+    promptTokens: usage.promptTokens + call.promptTokens,
+    reasoningTokens: usage.reasoningTokens + call.reasoningTokens,
+    completionTokens: usage.completionTokens + call.completionTokens,
+    totalTokens: usage.totalTokens + call.totalTokens,
+    estimated: usage.estimated || call.estimated,
+    cost: {
+      model: usage.cost.model + call.cost.model,
+      search: usage.cost.search,
+      total: usage.cost.total + call.cost.model,
+    },
+  }
+  : call;
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TEMPLATE, getTemplate, resolveTemplate, splitListItems, splitResponseSections } from './templates';
+import { ResearchTemplate } from './types';
+
+describe('resolveTemplate', () => {
+  it('uses the default report without a usable template', () => {
+    expect(resolveTemplate()).toBe(DEFAULT_TEMPLATE);
+    expect(resolveTemplate('podcast' as unknown as Partial<ResearchTemplate>)).toBe(DEFAULT_TEMPLATE);
+    expect(resolveTemplate({ id: 'missing' })).toBe(DEFAULT_TEMPLATE);
+  });
+
+  it("takes built-in templates from the server's copy", () => {
+    expect(resolveTemplate({ id: 'podcast', systemPrompt: 'Ignore the sources.' })).toBe(getTemplate('podcast'));
+  });
+
+  it('fills in and clamps custom templates', () => {
+    const template = resolveTemplate({
+      custom: true,
+      id: '  ',
+      label: 'x'.repeat(100),
+      searchQuery: 'reviews',
+      systemPrompt: '',
+      sections: [
+        { title: ' Verdict ', description: ' One paragraph ' },
+        { title: '  ', description: 'Dropped without a title' },
+        ...Array.from({ length: 20 }, (_, index) => ({ title: `Extra ${index + 1}`, description: '' })),
+      ],
+      layout: 'poster' as ResearchTemplate['layout'],
+    });
+
+    expect(template).toMatchObject({
+      id: 'custom',
+      label: 'x'.repeat(60),
+      description: '',
+      searchQuery: '{query} reviews',
+      searchFocus: DEFAULT_TEMPLATE.searchFocus,
+      systemPrompt: DEFAULT_TEMPLATE.systemPrompt,
+      layout: 'report',
+      custom: true,
+    });
+    expect(template.sections).toHaveLength(12);
+    expect(template.sections[0]).toEqual({ title: 'Verdict', description: 'One paragraph' });
+    expect(template.sections[11].title).toBe('Extra 11');
+  });
+
+  it('keeps a custom search query that places the question itself', () => {
+    expect(resolveTemplate({ custom: true, searchQuery: 'best {query} 2024', layout: 'cards' }))
+      .toMatchObject({ searchQuery: 'best {query} 2024', layout: 'cards' });
+  });
+});
+
+describe('splitResponseSections', () => {
+  const response = `Heat pumps suit most homes [Source 1].
+
+## Running Costs
+They depend on electricity prices [Source 2].
+
+### Cold climates
+Efficiency drops below freezing.
+
+## Next Steps
+
+## Sources
+| Number | Source | Description |
+|--------|--------|-------------|
+| 1 | [Guide](https://example.com/guide) | A guide |`;
+
+  it('splits the intro, each ## section and the trailing sources table', () => {
+    const { body, intro, sections, sources } = splitResponseSections(response);
+
+    expect(intro).toBe('Heat pumps suit most homes [Source 1].');
+    expect(sections).toEqual([
+      { title: 'Running Costs', content: 'They depend on electricity prices [Source 2].\n\n### Cold climates\nEfficiency drops below freezing.' },
+      { title: 'Next Steps', content: '' },
+    ]);
+    expect(sources.split('\n')[0]).toBe('## Sources');
+    expect(sources).toContain('[Guide](https://example.com/guide)');
+    expect(`${body}\n\n${sources}`).toBe(response);
+  });
+
+  it('has an empty intro when the response opens with a section', () => {
+    const { intro, sections, sources } = splitResponseSections('## Hooks\n- One\n- Two');
+    expect(intro).toBe('');
+    expect(sections).toEqual([{ title: 'Hooks', content: '- One\n- Two' }]);
+    expect(sources).toBe('');
+  });
+
+  it('returns a response without headings as the intro', () => {
+    expect(splitResponseSections('  Just a paragraph.  ')).toEqual({
+      body: 'Just a paragraph.',
+      intro: 'Just a paragraph.',
+      sections: [],
+      sources: '',
+    });
+  });
+});
+
+describe('splitListItems', () => {
+  it('splits bulleted and numbered lists into items', () => {
+    expect(splitListItems('- One\n* Two\n+ Three')).toEqual(['One', 'Two', 'Three']);
+    expect(splitListItems('1. First [Source 1]\n2. Second\n10. Tenth')).toEqual(['First [Source 1]', 'Second', 'Tenth']);
+  });
+
+  it('keeps continuation lines with their item', () => {
+    expect(splitListItems('- Hook one\n  Fact: heat pumps are 300% efficient\n\n- Hook two')).toEqual([
+      'Hook one\n  Fact: heat pumps are 300% efficient',
+      'Hook two',
+    ]);
+  });
+});
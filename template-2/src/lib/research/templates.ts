@@ -0,0 +1,160 @@
+import { stripSourcesTable } from './citations';
+import { ResearchTemplate, TemplateLayout, TemplateSection } from './types';
+
+export const TEMPLATE_LAYOUTS: { id: TemplateLayout; label: string }[] = [
+  { id: 'report', label: 'Report' },
+  { id: 'outline', label: 'Outline' },
+  { id: 'cards', label: 'Cards' },
+  { id: 'newsletter', label: 'Newsletter' },
+];
+
+export const DEFAULT_TEMPLATE: ResearchTemplate = {
+  id: 'report',
+  label: 'Research Report',
+  description: 'A detailed, cited report on the question',
+  searchQuery: '{query}',
+  searchFocus: 'facts, data and perspectives the findings are still missing',
+  systemPrompt: 'You are a careful research assistant. Write clear, well-organized reports grounded in the sources you are given.',
+  sections: [],
+  layout: 'report',
+};
+
+export const RESEARCH_TEMPLATES: ResearchTemplate[] = [
+  DEFAULT_TEMPLATE,
+  {
+    id: 'podcast',
+    label: 'Podcast Outline',
+    description: 'Segments, talking points and questions for an episode',
+    searchQuery: '{query} stories expert opinions debate',
+    searchFocus: 'anecdotes, surprising facts, expert quotes and opposing viewpoints worth discussing on air',
+    systemPrompt: 'You are a podcast producer. Turn research into an episode outline a host can talk from: conversational, structured into segments, with the facts and sources a host needs at hand.',
+    sections: [
+      { title: 'Episode Hook', description: 'A 2-3 sentence cold open that makes listeners stay' },
+      { title: 'Segments', description: 'Each segment as a ### heading with talking points, key facts and their sources' },
+      { title: 'Interview Questions', description: 'Questions to ask a guest, with the angle each one explores' },
+      { title: 'Closing Takeaways', description: 'What listeners should remember' },
+    ],
+    layout: 'outline',
+  },
+  {
+    id: 'youtube',
+    label: 'YouTube Video Research',
+    description: 'A video structure with beats, visuals and retention hooks',
+    searchQuery: '{query} explained statistics examples',
+    searchFocus: 'visual examples, striking statistics, recent developments and common misconceptions',
+    systemPrompt: 'You are a YouTube scriptwriter and researcher. Structure research into a video viewers watch to the end: a strong open, clear beats and concrete visuals.',
+    sections: [
+      { title: 'Title Ideas', description: 'Five title options' },
+      { title: 'Intro', description: 'The first 30 seconds: hook and promise of the video' },
+      { title: 'Main Beats', description: 'Each beat as a ### heading with the point, supporting facts and a visual idea' },
+      { title: 'Misconceptions to Address', description: 'What viewers commonly get wrong, corrected with sources' },
+      { title: 'Outro', description: 'Summary and call to action' },
+    ],
+    layout: 'outline',
+  },
+  {
+    id: 'hooks',
+    label: 'Short Form Hook Ideas',
+    description: 'Scroll-stopping openers for short videos and posts',
+    searchQuery: '{query} surprising facts statistics',
+    searchFocus: 'counterintuitive facts, striking numbers and emotional stories',
+    systemPrompt: 'You write hooks for short-form video. Every hook is one or two punchy sentences built on a real, sourced fact.',
+    sections: [
+      { title: 'Hooks', description: 'Ten hooks as a list, each with the fact it relies on and its citation' },
+      { title: 'Best Angles', description: 'The two or three angles most likely to perform and why' },
+    ],
+    layout: 'cards',
+  },
+  {
+    id: 'newsletter',
+    label: 'Newsletter Draft',
+    description: 'A ready-to-edit newsletter issue',
+    searchQuery: '{query} latest news analysis',
+    searchFocus: 'recent developments, expert analysis and practical implications for readers',
+    systemPrompt: 'You are a newsletter writer. Write in a warm, direct voice for subscribers who want to be informed quickly, and keep every factual claim sourced.',
+    sections: [
+      { title: 'Subject Line', description: 'Three subject line options' },
+      { title: 'Introduction', description: 'A short personal opening that sets up the topic' },
+      { title: 'The Big Story', description: 'The main piece, a few paragraphs long' },
+      { title: 'Quick Hits', description: 'Three to five short related items as a list' },
+      { title: 'Sign-off', description: 'A brief closing line' },
+    ],
+    layout: 'newsletter',
+  },
+];
+
+export const getTemplate = (id?: string) => RESEARCH_TEMPLATES.find(template => template.id === id);
+
+const text = (value: unknown, max: number, fallback = '') =>
+  typeof value === 'string' && value.trim() ? value.trim().slice(0, max) : fallback;
+
+// Built-in templates come from the server's copy; custom ones are checked and clamped
+export const resolveTemplate = (input?: Partial<ResearchTemplate>): ResearchTemplate => {
+  if (!input || typeof input !== 'object') return DEFAULT_TEMPLATE;
+  if (!input.custom) return getTemplate(input.id) ?? DEFAULT_TEMPLATE;
+
+  const searchQuery = text(input.searchQuery, 200, '{query}');
+  const sections: TemplateSection[] = Array.isArray(input.sections)
+    ? input.sections
+      .map(section => ({ title: text(section?.title, 80), description: text(section?.description, 300) }))
+      .filter(section => section.title)
+      .slice(0, 12)
+    : [];
+
+  return {
+    id: text(input.id, 60, 'custom'),
+    label: text(input.label, 60, 'Custom Template'),
+    description: text(input.description, 200),
+    searchQuery: searchQuery.includes('{query}') ? searchQuery : `{query} ${searchQuery}`,
+    searchFocus: text(input.searchFocus, 500, DEFAULT_TEMPLATE.searchFocus),
+    systemPrompt: text(input.systemPrompt, 4000, DEFAULT_TEMPLATE.systemPrompt),
+    sections,
+    layout: TEMPLATE_LAYOUTS.some(layout => layout.id === input.layout) ? input.layout! : 'report',
+    custom: true,
+  };
+};
+
+export const buildTemplateSearchQuery = (template: ResearchTemplate, query: string) =>
+  template.searchQuery.replace(/\{query\}/g, query).trim();
+
+// Output instructions for the reasoning prompt; empty for a free-form report
+export const buildTemplateInstructions = (template: ResearchTemplate): string => {
+  if (template.sections.length === 0) return '';
+  const sections = template.sections
+    .map(section => `## ${section.title}${section.description ? `\n${section.description}` : ''}`)
+    .join('\n\n');
+  return `Write the response as a ${template.label}, using exactly these sections as ## headings, in this order:\n\n${sections}`;
+};
+
+export interface ResponseSection {
+  title: string;
+  content: string;
+}
+
+// Split a response on its ## headings for the section layouts; the sources table is returned separately
+export const splitResponseSections = (
+  response: string
+): { body: string; intro: string; sections: ResponseSection[]; sources: string } => {
+  const body = stripSourcesTable(response);
+  const sources = response.trim().slice(body.length).trim();
+  const [intro, ...parts] = body.split(/^##\s+/m);
+
+  return {
+    body,
+    intro: intro.trim(),
+    sections: parts.map(part => {
+      const newline = part.indexOf('\n');
+      return newline === -1
+        ? { title: part.trim(), content: '' }
+        : { title: part.slice(0, newline).trim(), content: part.slice(newline + 1).trim() };
+    }),
+    sources,
+  };
+};
+
+// Top-level list items of a section, one card each
+export const splitListItems = (content: string): string[] =>
+  content
+    .split(/^(?:[-*+]|\d+\.)\s+/m)
+    .map(item => item.trim())
+    .filter(Boolean);
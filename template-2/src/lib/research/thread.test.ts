@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { buildRewritePrompt, normalizeThreadTurns } from './thread';
+import { ThreadTurn } from './types';
+
+const publicTurn: ThreadTurn = {
+  query: 'Which heat pumps work in cold climates?',
+  response: 'Cold-climate models from several makers keep working at -25 °C [Source 1].',
+  sources: [{ title: 'Heat pump guide', url: 'https://example.com/guide' }],
+};
+
+const privateTurn: ThreadTurn = {
+  query: 'How does that compare with our quote?',
+  response: 'The quote from Acme Heating for 12,400 dollars is above the typical range [Source 1].',
+  sources: [{ title: 'Private document', url: '#', private: true }, { title: 'Prices', url: 'https://example.com/prices' }],
+};
+
+describe('buildRewritePrompt', () => {
+  it('includes earlier answers drawn from the web', () => {
+    expect(buildRewritePrompt('And in Canada?', [publicTurn])).toContain('keep working at -25 °C');
+  });
+
+  it('leaves out answers drawn from private documents', () => {
+    const prompt = buildRewritePrompt('What about installation?', [publicTurn, privateTurn]);
+    expect(prompt).toContain('How does that compare with our quote?');
+    expect(prompt).not.toContain('Acme Heating');
+    expect(prompt).not.toContain('12,400');
+  });
+});
+
+describe('normalizeThreadTurns', () => {
+  it('keeps well-formed turns and which of their sources are private', () => {
+    expect(normalizeThreadTurns([
+      { ...privateTurn, sources: [...privateTurn.sources, { title: 'No url' }, { title: 'Spoofed', url: 'x', private: 'yes' }] },
+      { query: 'missing response' },
+      'not a turn',
+    ])).toEqual([{
+      ...privateTurn,
+      sources: [...privateTurn.sources, { title: 'Spoofed', url: 'x' }],
+    }]);
+  });
+
+  it('returns nothing for a body without turns', () => {
+    expect(normalizeThreadTurns(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import { parseCitations, stripSourcesTable } from './citations';
+import { ChatMessage } from '../llm/types';
+import { SearchResult } from '../search/types';
+import { ThreadTurn } from './types';
+
+// Only the most recent turns are carried into a follow-up
+const MAX_THREAD_TURNS = 3;
+const MAX_ANSWER_CHARS = 1500;
+
+const condenseAnswer = (response: string) => {
+  const answer = stripSourcesTable(response);
+  return answer.length > MAX_ANSWER_CHARS ? `${answer.slice(0, MAX_ANSWER_CHARS)}...` : answer;
+};
+
+// Sources the answer actually cited, falling back to the top few when it cited none
+const citedSources = (turn: ThreadTurn) => {
+  const cited = new Set(parseCitations(turn.response, turn.sources.length).citedSources);
+  const sources = cited.size > 0
+    ? turn.sources.filter((_, index) => cited.has(index + 1))
+    : turn.sources.slice(0, 3);
+  return sources.map(source => `- ${source.title} (${source.url})`).join('\n');
+};
+
+// Accept only well-formed turns from a request body
+export const normalizeThreadTurns = (value: unknown): ThreadTurn[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(turn => typeof turn?.query === 'string' && typeof turn?.response === 'string')
+    .map(turn => ({
+      query: turn.query,
+      response: turn.response,
+      sources: Array.isArray(turn.sources)
+        ? (turn.sources as (Partial<SearchResult> | null)[])
+          .filter((source): source is SearchResult => typeof source?.title === 'string' && typeof source?.url === 'string')
+          .map(source => ({ title: source.title, url: source.url, ...(source.private === true ? { private: true } : {}) }))
+        : [],
+    }));
+};
+
+export const recentTurns = (history: ThreadTurn[] = []) =>
+  history.filter(turn => turn.query && turn.response).slice(-MAX_THREAD_TURNS);
+
+// Earlier turns as chat messages, each answer condensed and followed by its cited sources
+export const buildThreadMessages = (history: ThreadTurn[]): ChatMessage[] =>
+  recentTurns(history).flatMap(turn => {
+    const sources = citedSources(turn);
+    return [
+      { role: 'user' as const, content: turn.query },
+      {
+        role: 'assistant' as const,
+        content: sources ? `${condenseAnswer(turn.response)}\n\nSources cited:\n${sources}` : condenseAnswer(turn.response),
+      },
+    ];
+  });
+
+// The rewritten query is sent to a search provider, so answers drawn from the
+// user's private documents are left out and only their questions remain
+export const buildRewritePrompt = (query: string, history: ThreadTurn[]): string => {
+  const conversation = recentTurns(history)
+    .map(turn => turn.sources.some(source => source.private)
+      ? `User: ${turn.query}\nAssistant: (answered from the user's private documents)`
+      : `User: ${turn.query}\nAssistant: ${condenseAnswer(turn.response).slice(0, 500)}`)
+    .join('\n\n');
+
+  return `Here is a research conversation so far:
+
+${conversation}
+
+The user now asks: "${query}"
+
+Rewrite this follow-up as a single standalone web search query that can be understood without the conversation. Resolve references like "that", "it" or "the second one" to what they refer to. Respond with only the search query, no quotes or explanation.`;
+};
+
+// The standalone search query from the model's answer; keeps the original if the answer isn't usable
+export const parseRewrittenQuery = (answer: string, query: string): string => {
+  const rewritten = answer
+    .split('\n')
+    .map(line => line.trim())
+    .find(Boolean)
+    ?.replace(/^["'`]+|["'`]+$/g, '')
+    .trim();
+
+  return rewritten && rewritten.length <= 400 ? rewritten : query;
+};
+
+// The conversation the report is written in: the template's system prompt, earlier
+// turns and the question. The research context follows as the last user message.
+export const buildReportMessages = (systemPrompt: string, history: ThreadTurn[], query: string): ChatMessage[] => [
+  { role: 'system', content: systemPrompt },
+  ...buildThreadMessages(history),
+  { role: 'user', content: query },
+  {
+    role: 'assistant',
+    content: 'I found some relevant information. Let me analyze it and create a comprehensive report.',
+  },
+];
@@ -0,0 +1,232 @@
+import { PrivateDocument } from '../documents';
+import { LLMProviderId, ModelOptions, TokenUsage } from '../llm/types';
+import { QuotaStatus } from '../quota';
+import { SearchProviderId, SearchResponse, SearchResult, SearchTopic } from '../search/types';
+
+// One search round of the research loop, as shown in the ChatSection UI
+export interface ResearchStep {
+  round: number;
+  query: string;
+  reason: string;
+  status: 'searching' | 'done' | 'error';
+  provider?: SearchProviderId;
+  resultCount?: number;
+  newResultCount?: number;
+  // When the results were served from the search cache, the time they were fetched
+  cachedAt?: number;
+  error?: string;
+}
+
+export interface ResearchOptions {
+  // Number of search rounds, including the initial search
+  maxDepth: number;
+  // Total number of searches allowed across all rounds
+  maxSearches: number;
+  // Follow-up queries the planner may propose per round
+  queriesPerRound: number;
+  // Top results downloaded in full so the report sees more than the snippet; 0 turns this off
+  fetchPages: number;
+  // Run a separate pass comparing what the sources claim, alongside the report
+  analyzeConsensus: boolean;
+  // Skip the search cache lookup; fresh results still replace the cached ones
+  forceRefresh?: boolean;
+  // Restrict searches to these domains, or leave them out
+  includeDomains?: string[];
+  excludeDomains?: string[];
+  // The user's own credibility lists: trusted domains rate high, blocked ones are dropped
+  trustedDomains?: string[];
+  blockedDomains?: string[];
+  // Search news sources instead of the general web
+  topic?: SearchTopic;
+  // Only keep sources published in the last N days and/or within a date range (YYYY-MM-DD)
+  days?: number;
+  startDate?: string;
+  endDate?: string;
+  // Also retrieve from the user's library of saved reports, documents and bookmarks
+  useLibrary?: boolean;
+  // Search providers to try in order, falling back to the next one on failure
+  searchProviders?: SearchProviderId[];
+  // Model used for planning follow-ups and writing the report
+  model?: ModelOptions;
+}
+
+// How a template's response is laid out on the page
+export type TemplateLayout = 'report' | 'outline' | 'cards' | 'newsletter';
+
+// A part of the response the template asks for, written as a ## heading in this order
+export interface TemplateSection {
+  title: string;
+  description: string;
+}
+
+// A kind of research output: how to search, what to ask the model for and how to show the answer
+export interface ResearchTemplate {
+  id: string;
+  label: string;
+  description: string;
+  // Initial search query, with {query} standing for the user's question
+  searchQuery: string;
+  // What follow-up searches should look for
+  searchFocus: string;
+  systemPrompt: string;
+  sections: TemplateSection[];
+  layout: TemplateLayout;
+  // Saved by the user rather than built in
+  custom?: boolean;
+}
+
+// A statement in the report and the sources it cites (1-based, as in [Source N])
+export interface Claim {
+  text: string;
+  sources: number[];
+  // Cited source numbers that don't exist in the source list
+  invalidSources?: number[];
+}
+
+export interface CitationAnalysis {
+  claims: Claim[];
+  citedSources: number[];
+  invalidSources: number[];
+}
+
+// A key claim from the sources and where they stand on it (1-based source numbers)
+export interface ConsensusClaim {
+  claim: string;
+  status: 'agreed' | 'disputed' | 'uncorroborated';
+  supporting: number[];
+  contradicting: number[];
+  note?: string;
+}
+
+export interface ConsensusAnalysis {
+  claims: ConsensusClaim[];
+}
+
+// A source the context builder left out of the prompt to stay within the token budget
+export interface ExcludedSource {
+  source: number;
+  title: string;
+  url: string;
+  // Tokens the source would have needed even when trimmed
+  estimatedTokens: number;
+}
+
+// How the reasoning prompt was assembled; token counts are estimates
+export interface ContextReport {
+  tokenBudget: number;
+  estimatedTokens: number;
+  includedSources: number[];
+  // Included with shortened text and no page excerpts
+  trimmedSources: number[];
+  excludedSources: ExcludedSource[];
+}
+
+// Tokens, searches and estimated cost (USD) of one research run
+export interface ResearchUsage {
+  provider: LLMProviderId;
+  model: string;
+  promptTokens: number;
+  // Part of completionTokens spent on the reasoning trace
+  reasoningTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Some model calls didn't report usage and were estimated from text length
+  estimated: boolean;
+  searches: number;
+  cachedSearches: number;
+  cost: { model: number; search: number; total: number };
+}
+
+// An image attached to the question, stored in Firebase Storage
+export interface ResearchImage {
+  url: string;
+  // What the vision model saw, once analyzed
+  description?: string;
+}
+
+export interface ImageAnalysis {
+  description: string;
+  // Searches the vision model suggested for researching the image
+  searchQueries: string[];
+}
+
+// A research run as persisted to history
+export interface ResearchRecord {
+  query: string;
+  // Standalone form of a follow-up query, as sent to the search provider
+  searchQuery?: string;
+  searchResults: SearchResult[];
+  steps: ResearchStep[];
+  reasoningInput?: string;
+  context?: ContextReport;
+  reasoning: string;
+  response: string;
+  citations?: CitationAnalysis;
+  consensus?: ConsensusAnalysis;
+  usage?: ResearchUsage;
+  // Template the response was written for; older records have none and render as a report
+  template?: Pick<ResearchTemplate, 'id' | 'label' | 'layout'>;
+  image?: ResearchImage;
+  // Extra instructions the report was last re-analyzed with
+  instructions?: string;
+  createdAt: number;
+  completedAt?: number;
+  // Id of the public read-only snapshot at /r/[id], while the link is live
+  shareId?: string;
+}
+
+// A research run as shown on the page, with its loading state
+export interface ChatSection extends ResearchRecord {
+  // Firestore id once the section has been saved to history
+  historyId?: string;
+  searchData?: SearchResponse;
+  error?: string | null;
+  isLoadingSources?: boolean;
+  isLoadingThinking?: boolean;
+  isReasoningCollapsed?: boolean;
+  // The user stopped the run before it finished
+  isStopped?: boolean;
+}
+
+export interface PlannedQuery {
+  query: string;
+  reason: string;
+}
+
+// An earlier question and answer in the same thread, sent with follow-ups
+export interface ThreadTurn {
+  query: string;
+  response: string;
+  // `private` marks the user's documents and library items
+  sources: Pick<SearchResult, 'title' | 'url' | 'private'>[];
+}
+
+export interface ResearchRequest {
+  query: string;
+  options?: Partial<ResearchOptions>;
+  history?: ThreadTurn[];
+  // Built-in templates can be sent as just their id; custom ones are sent in full
+  template?: Partial<ResearchTemplate>;
+  // Uploaded documents to search alongside the web; their text never goes to a search provider
+  documents?: PrivateDocument[];
+  // Attached image; the query may be empty when one is sent
+  image?: Pick<ResearchImage, 'url'>;
+}
+
+// Events streamed by /api/research, one JSON object per line
+export type ResearchEvent =
+  | { type: 'status'; message: string }
+  | { type: 'query_rewritten'; searchQuery: string }
+  | { type: 'image_analysis'; analysis: ImageAnalysis }
+  | { type: 'step'; index: number; step: ResearchStep }
+  | { type: 'sources_found'; results: SearchResult[]; searchData: SearchResponse }
+  | { type: 'reasoning_input'; reasoningInput: string; context: ContextReport }
+  | { type: 'reasoning_delta'; delta: string }
+  | { type: 'content_delta'; delta: string }
+  // The caller's daily quota, sent first and again once the run's tokens are counted
+  | { type: 'quota'; quota: QuotaStatus }
+  // Tokens used by one model call (follow-up rewrite, image analysis, planning round or report)
+  | { type: 'usage'; usage: TokenUsage }
+  | { type: 'consensus'; consensus: ConsensusAnalysis }
+  | { type: 'done'; reasoning: string; response: string; citations: CitationAnalysis; usage: ResearchUsage }
+  | { type: 'error'; error: string };
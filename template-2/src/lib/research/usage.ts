@@ -0,0 +1,33 @@
+import { resolveModelOptions } from '../llm';
+import { getModelPrice, getPriceTable, getTokenCost } from '../llm/pricing';
+import { ModelOptions, TokenUsage } from '../llm/types';
+import { ResearchStep, ResearchUsage } from './types';
+
+// Add up the model calls and searches of one research run and price them
+export const summarizeUsage = (calls: TokenUsage[], steps: ResearchStep[], modelOptions?: ModelOptions): ResearchUsage => {
+  const { provider, model } = resolveModelOptions(modelOptions);
+  const table = getPriceTable();
+
+  const tokens = calls.reduce<Required<Omit<TokenUsage, 'estimated'>>>((sum, usage) => ({
+    promptTokens: sum.promptTokens + usage.promptTokens,
+    completionTokens: sum.completionTokens + usage.completionTokens,
+    reasoningTokens: sum.reasoningTokens + (usage.reasoningTokens || 0),
+    totalTokens: sum.totalTokens + usage.totalTokens,
+  }), { promptTokens: 0, completionTokens: 0, reasoningTokens: 0, totalTokens: 0 });
+
+  // Cached searches didn't reach the provider, so they cost nothing
+  const searched = steps.filter(step => step.status === 'done');
+  const billed = searched.filter(step => !step.cachedAt);
+  const searchCost = billed.reduce((sum, step) => sum + (step.provider ? table.searches[step.provider] ?? 0 : 0), 0);
+  const modelCost = getTokenCost(tokens, getModelPrice(provider, model, table));
+
+  return {
+    provider,
+    model,
+    ...tokens,
+    estimated: calls.some(usage => usage.estimated),
+    searches: searched.length,
+    cachedSearches: searched.length - billed.length,
+    cost: { model: modelCost, search: searchCost, total: modelCost + searchCost },
+  };
+};
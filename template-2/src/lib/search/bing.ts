@@ -0,0 +1,68 @@
+import { toDateRange, toTimeRange } from './dates';
+import { withSiteOperators } from './domains';
+import { SearchProvider } from './types';
+
+const BING_API_URL = 'https://api.bing.microsoft.com/v7.0/search';
+
+// The parts of Bing's response that are used
+interface BingWebPage {
+  name: string;
+  url: string;
+  snippet: string;
+  thumbnailUrl?: string;
+  datePublished?: string;
+}
+
+interface BingResponse {
+  webPages?: { value?: BingWebPage[] };
+}
+
+export const bingProvider: SearchProvider = {
+  id: 'bing',
+  name: 'Bing',
+  isConfigured: () => !!process.env.BING_SEARCH_API_KEY,
+
+  async search({ query, maxResults, includeDomains, excludeDomains, days, startDate, endDate, signal }) {
+    const BING_SEARCH_API_KEY = process.env.BING_SEARCH_API_KEY;
+    if (!BING_SEARCH_API_KEY) {
+      throw new Error('BING_SEARCH_API_KEY is not set in environment variables');
+    }
+
+    const params = new URLSearchParams({
+      q: withSiteOperators(query, includeDomains, excludeDomains),
+      count: String(maxResults || 10),
+    });
+    const range = toDateRange({ days, startDate, endDate });
+    if (range) {
+      params.set('freshness', `${range.from}..${range.to}`);
+    } else if (days) {
+      // Bing has no yearly bucket; longer windows rely on the date filter applied afterwards
+      const timeRange = toTimeRange(days);
+      if (timeRange !== 'year') params.set('freshness', { day: 'Day', week: 'Week', month: 'Month' }[timeRange]);
+    }
+    const response = await fetch(`${BING_API_URL}?${params}`, {
+      headers: {
+        'Ocp-Apim-Subscription-Key': BING_SEARCH_API_KEY,
+      },
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Bing search request failed with status ${response.status}`);
+    }
+
+    const data: BingResponse = await response.json();
+
+    return {
+      provider: 'bing',
+      query,
+      results: (data.webPages?.value || []).map(result => ({
+        title: result.name,
+        content: result.snippet,
+        url: result.url,
+        image: result.thumbnailUrl ? { url: result.thumbnailUrl } : undefined,
+        publishedDate: result.datePublished,
+      })),
+    };
+  },
+};
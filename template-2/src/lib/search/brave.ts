@@ -0,0 +1,68 @@
+import { toDateRange, toTimeRange } from './dates';
+import { withSiteOperators } from './domains';
+import { SearchProvider } from './types';
+
+const BRAVE_API_URL = 'https://api.search.brave.com/res/v1/web/search';
+
+// The parts of Brave's response that are used
+interface BraveWebResult {
+  title: string;
+  url: string;
+  description?: string;
+  page_age?: string;
+  thumbnail?: { src?: string };
+}
+
+interface BraveResponse {
+  web?: { results?: BraveWebResult[] };
+}
+
+export const braveProvider: SearchProvider = {
+  id: 'brave',
+  name: 'Brave Search',
+  isConfigured: () => !!process.env.BRAVE_SEARCH_API_KEY,
+
+  async search({ query, maxResults, includeDomains, excludeDomains, days, startDate, endDate, signal }) {
+    const BRAVE_SEARCH_API_KEY = process.env.BRAVE_SEARCH_API_KEY;
+    if (!BRAVE_SEARCH_API_KEY) {
+      throw new Error('BRAVE_SEARCH_API_KEY is not set in environment variables');
+    }
+
+    const params = new URLSearchParams({
+      q: withSiteOperators(query, includeDomains, excludeDomains),
+      count: String(maxResults || 10),
+    });
+    const range = toDateRange({ days, startDate, endDate });
+    if (range) {
+      params.set('freshness', `${range.from}to${range.to}`);
+    } else if (days) {
+      params.set('freshness', { day: 'pd', week: 'pw', month: 'pm', year: 'py' }[toTimeRange(days)]);
+    }
+    const response = await fetch(`${BRAVE_API_URL}?${params}`, {
+      headers: {
+        'Accept': 'application/json',
+        'X-Subscription-Token': BRAVE_SEARCH_API_KEY,
+      },
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Brave Search request failed with status ${response.status}`);
+    }
+
+    const data: BraveResponse = await response.json();
+
+    return {
+      provider: 'brave',
+      query,
+      results: (data.web?.results || []).map(result => ({
+        title: result.title,
+        // Brave marks query terms with <strong> tags
+        content: (result.description || '').replace(/<\/?strong>/g, ''),
+        url: result.url,
+        image: result.thumbnail?.src ? { url: result.thumbnail.src } : undefined,
+        publishedDate: result.page_age,
+      })),
+    };
+  },
+};
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cachedSearch, createMemoryCacheBackend, getSearchCacheKey } from './cache';
+import { SearchRequest, SearchResponse } from './types';
+
+const searchWithFallback = vi.hoisted(() => vi.fn());
+vi.mock('.', () => ({ searchWithFallback }));
+
+const HOUR = 60 * 60 * 1000;
+
+const respond = (request: SearchRequest): SearchResponse => ({
+  provider: 'tavily',
+  query: request.query,
+  results: [{ title: 'Heat pumps', content: 'Snippet', url: 'https://example.com/heat-pumps' }],
+});
+
+describe('getSearchCacheKey', () => {
+  it('ignores casing, spacing and domain order', () => {
+    expect(getSearchCacheKey({ query: '  Heat   PUMPS ', includeDomains: ['b.com', 'a.com'] }))
+      .toBe(getSearchCacheKey({ query: 'heat pumps', includeDomains: ['a.com', 'b.com'] }));
+    expect(getSearchCacheKey({ query: 'heat pumps', topic: 'general' })).toBe(getSearchCacheKey({ query: 'heat pumps' }));
+  });
+
+  it('separates requests that can return different results', () => {
+    const base = getSearchCacheKey({ query: 'heat pumps' });
+    for (const key of [
+      getSearchCacheKey({ query: 'heat pump' }),
+      getSearchCacheKey({ query: 'heat pumps' }, ['brave']),
+      getSearchCacheKey({ query: 'heat pumps', maxResults: 5 }),
+      getSearchCacheKey({ query: 'heat pumps', includeImages: true }),
+      getSearchCacheKey({ query: 'heat pumps', excludeDomains: ['example.com'] }),
+      getSearchCacheKey({ query: 'heat pumps', topic: 'news' }),
+      getSearchCacheKey({ query: 'heat pumps', startDate: '2024-01-01' }),
+    ]) {
+      expect(key).not.toBe(base);
+    }
+  });
+
+  it('keys a relative date window by the day it starts on', () => {
+    const monday = Date.parse('2024-07-01T08:00:00Z');
+    const key = (days: number, now: number) => getSearchCacheKey({ query: 'heat pumps', days }, undefined, now);
+
+    expect(key(7, monday)).toBe(key(7, monday + 10 * HOUR));
+    expect(key(7, monday)).not.toBe(key(7, monday + 24 * HOUR));
+    expect(key(7, monday)).not.toBe(key(8, monday + 24 * HOUR));
+  });
+});
+
+describe('cachedSearch', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.parse('2024-07-01T12:00:00Z'));
+    vi.stubEnv('SEARCH_CACHE_TTL_SECONDS', '');
+    searchWithFallback.mockReset().mockImplementation(async (request: SearchRequest) => respond(request));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('reuses a response for the same normalized request', async () => {
+    const backend = createMemoryCacheBackend();
+    const first = await cachedSearch({ query: 'Heat pumps' }, undefined, { backend });
+    vi.setSystemTime(Date.now() + 60 * 1000);
+    const second = await cachedSearch({ query: 'heat  pumps ' }, undefined, { backend });
+
+    expect(searchWithFallback).toHaveBeenCalledTimes(1);
+    expect(first.cache).toEqual({ hit: false, cachedAt: Date.parse('2024-07-01T12:00:00Z') });
+    expect(second).toEqual({ ...first, cache: { hit: true, cachedAt: Date.parse('2024-07-01T12:00:00Z') } });
+  });
+
+  it('searches again once the entry has expired', async () => {
+    const backend = createMemoryCacheBackend();
+    await cachedSearch({ query: 'heat pumps' }, undefined, { backend });
+
+    vi.setSystemTime(Date.now() + HOUR - 1);
+    expect((await cachedSearch({ query: 'heat pumps' }, undefined, { backend })).cache?.hit).toBe(true);
+    vi.setSystemTime(Date.now() + 1);
+    expect((await cachedSearch({ query: 'heat pumps' }, undefined, { backend })).cache?.hit).toBe(false);
+    expect(searchWithFallback).toHaveBeenCalledTimes(2);
+  });
+
+  it('takes the lifetime from SEARCH_CACHE_TTL_SECONDS', async () => {
+    vi.stubEnv('SEARCH_CACHE_TTL_SECONDS', '60');
+    const backend = createMemoryCacheBackend();
+    await cachedSearch({ query: 'heat pumps' }, undefined, { backend });
+
+    vi.setSystemTime(Date.now() + 60 * 1000);
+    expect((await cachedSearch({ query: 'heat pumps' }, undefined, { backend })).cache?.hit).toBe(false);
+  });
+
+  it('stores but skips the lookup when forced to refresh', async () => {
+    const backend = createMemoryCacheBackend();
+    await cachedSearch({ query: 'heat pumps' }, undefined, { backend });
+    const refreshed = await cachedSearch({ query: 'heat pumps' }, undefined, { backend, forceRefresh: true });
+
+    expect(refreshed.cache?.hit).toBe(false);
+    expect(searchWithFallback).toHaveBeenCalledTimes(2);
+  });
+
+  it('searches directly without a backend', async () => {
+    const response = await cachedSearch({ query: 'heat pumps' }, undefined, { backend: null });
+    expect(response).toEqual(respond({ query: 'heat pumps' }));
+  });
+});
+
+describe('createMemoryCacheBackend', () => {
+  it('evicts the oldest entries past its size', async () => {
+    const backend = createMemoryCacheBackend(2);
+    const entry = { response: respond({ query: 'heat pumps' }), cachedAt: 0, expiresAt: Infinity };
+    await backend.set('a', entry);
+    await backend.set('b', entry);
+    await backend.set('a', entry);
+    await backend.set('c', entry);
+
+    expect(await backend.get('b')).toBeNull();
+    expect(await backend.get('a')).toEqual(entry);
+    expect(await backend.get('c')).toEqual(entry);
+  });
+});
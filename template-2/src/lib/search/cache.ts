@@ -0,0 +1,114 @@
+import { searchWithFallback } from '.';
+import { daysAgo } from './dates';
+import { SearchProviderId, SearchRequest, SearchResponse } from './types';
+
+export interface SearchCacheEntry {
+  response: SearchResponse;
+  cachedAt: number;
+  expiresAt: number;
+}
+
+// Storage for cached search responses. Backends drop or ignore expired entries themselves.
+export interface SearchCacheBackend {
+  get: (key: string) => Promise<SearchCacheEntry | null>;
+  set: (key: string, entry: SearchCacheEntry) => Promise<void>;
+}
+
+// Per-process cache, evicting the oldest entries past `maxEntries`
+export const createMemoryCacheBackend = (maxEntries = 500): SearchCacheBackend => {
+  const entries = new Map<string, SearchCacheEntry>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      return entry;
+    },
+
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+  };
+};
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+
+// SEARCH_CACHE_TTL_SECONDS sets how long results are reused; 0 turns caching off
+export const getCacheTtlMs = () => {
+  const seconds = parseInt(process.env.SEARCH_CACHE_TTL_SECONDS || '', 10);
+  return (Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_TTL_SECONDS) * 1000;
+};
+
+// The same question asked with different casing or spacing shares an entry. A
+// relative `days` window is keyed by the date it starts on, so it isn't reused
+// once the window has moved on.
+export const getSearchCacheKey = (request: SearchRequest, providerIds?: SearchProviderId[], now = Date.now()) =>
+  JSON.stringify({
+    query: request.query.trim().toLowerCase().replace(/\s+/g, ' '),
+    providers: providerIds ?? null,
+    includeImages: !!request.includeImages,
+    includeImageDescriptions: !!request.includeImageDescriptions,
+    maxResults: request.maxResults ?? null,
+    includeDomains: request.includeDomains?.length ? [...request.includeDomains].sort() : null,
+    excludeDomains: request.excludeDomains?.length ? [...request.excludeDomains].sort() : null,
+    topic: request.topic ?? 'general',
+    days: request.days ?? null,
+    since: request.days ? daysAgo(request.days, now) : null,
+    startDate: request.startDate ?? null,
+    endDate: request.endDate ?? null,
+  });
+
+let defaultBackend: Promise<SearchCacheBackend | null> | null = null;
+
+// SEARCH_CACHE picks the backend: "memory" (default), "off" or "firestore", which
+// needs a service account (see lib/firebase/admin)
+export const getSearchCacheBackend = () => {
+  if (!defaultBackend) {
+    const kind = (process.env.SEARCH_CACHE || 'memory').toLowerCase();
+    defaultBackend = kind === 'off' || getCacheTtlMs() === 0
+      ? Promise.resolve(null)
+      : kind === 'firestore'
+        ? import('../firebase/searchCache').then(module => module.firestoreCacheBackend)
+        : Promise.resolve(createMemoryCacheBackend());
+  }
+  return defaultBackend;
+};
+
+// searchWithFallback behind the cache. Hits carry `cache.cachedAt`; `forceRefresh`
+// skips the lookup but still stores the fresh response. Cache failures never fail the search.
+export async function cachedSearch(
+  request: SearchRequest,
+  providerIds?: SearchProviderId[],
+  { forceRefresh = false, backend }: { forceRefresh?: boolean; backend?: SearchCacheBackend | null } = {}
+): Promise<SearchResponse> {
+  const cache = backend === undefined ? await getSearchCacheBackend() : backend;
+  if (!cache) return searchWithFallback(request, providerIds);
+
+  const key = getSearchCacheKey(request, providerIds);
+  if (!forceRefresh) {
+    try {
+      const entry = await cache.get(key);
+      if (entry && entry.expiresAt > Date.now()) {
+        return { ...entry.response, cache: { hit: true, cachedAt: entry.cachedAt } };
+      }
+    } catch (error) {
+      console.error('Search cache lookup failed:', error);
+    }
+  }
+
+  const response = await searchWithFallback(request, providerIds);
+  const cachedAt = Date.now();
+  cache.set(key, { response, cachedAt, expiresAt: cachedAt + getCacheTtlMs() })
+    .catch(error => console.error('Search cache write failed:', error));
+  return { ...response, cache: { hit: false, cachedAt } };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { applyCredibility, scoreSource } from './credibility';
+import { SearchResult } from './types';
+
+const now = Date.parse('2024-07-01T00:00:00Z');
+
+const result = (url: string, publishedDate?: string): SearchResult => ({ title: url, content: '', url, publishedDate });
+
+describe('scoreSource', () => {
+  it.each([
+    { name: 'a reputable publisher', url: 'https://www.reuters.com/world', score: 0.8, level: 'high', reasons: ['Established publisher or reference site'] },
+    { name: 'a subdomain of a reputable site', url: 'https://pubmed.ncbi.nlm.nih.gov/123', score: 0.8, level: 'high', reasons: ['Established publisher or reference site'] },
+    { name: 'a government site', url: 'https://www.energy.gov.uk/heat', score: 0.75, level: 'high', reasons: ['Government, academic or international institution'] },
+    { name: 'a university', url: 'https://cs.stanford.edu/papers', score: 0.75, level: 'high', reasons: ['Government, academic or international institution'] },
+    { name: 'an unknown site', url: 'https://example.com/post', score: 0.5, level: 'medium', reasons: ['No reputation information'] },
+    { name: 'user-generated content', url: 'https://medium.com/@someone/post', score: 0.25, level: 'low', reasons: ['User-generated or aggregator content'] },
+    { name: 'something other than a web page', url: 'Tavily answer', score: 0.5, level: 'medium', reasons: ['Not a web page'] },
+  ])('rates $name', ({ url, score, level, reasons }) => {
+    expect(scoreSource(result(url), {}, 0, now)).toEqual({ score, level, reasons });
+  });
+
+  it.each([
+    { name: 'a recent reputable article', url: 'https://reuters.com/a', publishedDate: '2024-01-15', score: 0.8, level: 'high', reasons: ['Established publisher or reference site'] },
+    { name: 'a three-year-old reputable article', url: 'https://reuters.com/a', publishedDate: '2021-06-01', score: 0.75, level: 'high', reasons: ['Established publisher or reference site', 'Published over two years ago'] },
+    { name: 'a six-year-old reputable article', url: 'https://reuters.com/a', publishedDate: '2018-06-01', score: 0.65, level: 'medium', reasons: ['Established publisher or reference site', 'Published over five years ago'] },
+    { name: 'a six-year-old article from an unknown site', url: 'https://example.com/a', publishedDate: '2018-06-01', score: 0.35, level: 'low', reasons: ['Published over five years ago'] },
+    { name: 'an old user-generated post', url: 'https://quora.com/q', publishedDate: '2010-01-01', score: 0.1, level: 'low', reasons: ['User-generated or aggregator content', 'Published over five years ago'] },
+  ])('takes age into account for $name', ({ url, publishedDate, score, level, reasons }) => {
+    expect(scoreSource(result(url, publishedDate), {}, 0, now)).toEqual({ score, level, reasons });
+  });
+
+  it.each([
+    { before: 1, score: 0.4, level: 'medium', reason: '2nd source from example.com' },
+    { before: 2, score: 0.3, level: 'low', reason: '3rd source from example.com' },
+    { before: 5, score: 0.2, level: 'low', reason: '6th source from example.com' },
+  ])('marks down source $before after the first from a domain', ({ before, score, level, reason }) => {
+    expect(scoreSource(result('https://example.com/a'), {}, before, now)).toEqual({ score, level, reasons: [reason] });
+  });
+
+  it('always rates trusted domains high', () => {
+    expect(scoreSource(result('https://blog.medium.com/a', '2000-01-01'), { trustedDomains: ['medium.com'] }, 3, now))
+      .toEqual({ score: 1, level: 'high', reasons: ['On your trusted domains list'] });
+  });
+});
+
+describe('applyCredibility', () => {
+  it('drops blocked domains and counts repeats per domain', () => {
+    const rated = applyCredibility([
+      result('https://example.com/a'),
+      result('https://news.blocked.com/a'),
+      result('https://www.example.com/b'),
+      result('https://reuters.com/a'),
+    ], { blockedDomains: ['blocked.com'] });
+
+    expect(rated.map(item => [item.url, item.credibility?.score])).toEqual([
+      ['https://example.com/a', 0.5],
+      ['https://www.example.com/b', 0.4],
+      ['https://reuters.com/a', 0.8],
+    ]);
+  });
+});
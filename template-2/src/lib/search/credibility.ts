@@ -0,0 +1,98 @@
+import { getDomain, matchesDomain } from './domains';
+import { SearchResult, SourceCredibility } from './types';
+
+// Well-established reference, research, government and wire-service sites
+const REPUTABLE_DOMAINS = [
+  'reuters.com', 'apnews.com', 'bbc.co.uk', 'bbc.com', 'npr.org', 'economist.com', 'ft.com',
+  'nytimes.com', 'washingtonpost.com', 'theguardian.com', 'wsj.com', 'bloomberg.com',
+  'nature.com', 'science.org', 'sciencedirect.com', 'springer.com', 'wiley.com', 'arxiv.org',
+  'nih.gov', 'who.int', 'cdc.gov', 'europa.eu', 'un.org', 'worldbank.org', 'imf.org', 'oecd.org',
+  'wikipedia.org', 'britannica.com', 'acm.org', 'ieee.org', 'mozilla.org', 'w3.org',
+];
+
+// User-generated, aggregator and content-farm sites
+const LOW_REPUTATION_DOMAINS = [
+  'pinterest.com', 'quora.com', 'answers.com', 'ehow.com', 'wikihow.com', 'scribd.com',
+  'coursehero.com', 'chegg.com', 'slideshare.net', 'blogspot.com', 'wordpress.com', 'medium.com',
+  'tumblr.com', 'facebook.com', 'tiktok.com', 'instagram.com', 'x.com', 'twitter.com',
+];
+
+const INSTITUTIONAL_TLD = /\.(?:gov|edu|int|mil)(?:\.[a-z]{2})?$|\.(?:ac|gov)\.[a-z]{2}$/;
+
+const ONE_YEAR = 365 * 24 * 60 * 60 * 1000;
+
+export interface CredibilityPreferences {
+  // Domains the user trusts; always rated high
+  trustedDomains?: string[];
+  // Domains the user never wants to see; their results are dropped
+  blockedDomains?: string[];
+}
+
+const toLevel = (score: number): SourceCredibility['level'] =>
+  score >= 0.7 ? 'high' : score >= 0.4 ? 'medium' : 'low';
+
+// Rate a source from 0 to 1, starting at 0.5 and adjusting for domain reputation,
+// the user's trusted list, age and how many earlier sources share its domain
+export const scoreSource = (
+  result: SearchResult,
+  { trustedDomains = [] }: CredibilityPreferences,
+  sameDomainBefore: number,
+  now = Date.now()
+): SourceCredibility => {
+  const domain = getDomain(result.url);
+  if (!domain) return { score: 0.5, level: 'medium', reasons: ['Not a web page'] };
+
+  let score = 0.5;
+  const reasons: string[] = [];
+
+  if (matchesDomain(domain, trustedDomains)) {
+    return { score: 1, level: 'high', reasons: ['On your trusted domains list'] };
+  }
+  if (matchesDomain(domain, REPUTABLE_DOMAINS)) {
+    score += 0.3;
+    reasons.push('Established publisher or reference site');
+  } else if (INSTITUTIONAL_TLD.test(domain)) {
+    score += 0.25;
+    reasons.push('Government, academic or international institution');
+  } else if (matchesDomain(domain, LOW_REPUTATION_DOMAINS)) {
+    score -= 0.25;
+    reasons.push('User-generated or aggregator content');
+  }
+
+  if (result.publishedDate) {
+    const age = now - new Date(result.publishedDate).getTime();
+    if (age > 5 * ONE_YEAR) {
+      score -= 0.15;
+      reasons.push('Published over five years ago');
+    } else if (age > 2 * ONE_YEAR) {
+      score -= 0.05;
+      reasons.push('Published over two years ago');
+    }
+  }
+
+  if (sameDomainBefore > 0) {
+    score -= Math.min(0.1 * sameDomainBefore, 0.3);
+    reasons.push(`${sameDomainBefore + 1}${sameDomainBefore === 1 ? 'nd' : sameDomainBefore === 2 ? 'rd' : 'th'} source from ${domain}`);
+  }
+
+  score = Math.round(Math.min(Math.max(score, 0), 1) * 100) / 100;
+  return { score, level: toLevel(score), reasons: reasons.length ? reasons : ['No reputation information'] };
+};
+
+// Drop blocked domains and attach a credibility rating to every remaining result
+export const applyCredibility = (results: SearchResult[], preferences: CredibilityPreferences = {}): SearchResult[] => {
+  const blocked = preferences.blockedDomains ?? [];
+  const seenDomains = new Map<string, number>();
+
+  return results
+    .filter(result => {
+      const domain = getDomain(result.url);
+      return !domain || !matchesDomain(domain, blocked);
+    })
+    .map(result => {
+      const domain = getDomain(result.url);
+      const before = domain ? seenDomains.get(domain) ?? 0 : 0;
+      if (domain) seenDomains.set(domain, before + 1);
+      return { ...result, credibility: scoreSource(result, preferences, before) };
+    });
+};
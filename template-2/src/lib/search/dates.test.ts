@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { filterByDate, getDateBounds, toDateRange } from './dates';
+import { SearchResponse } from './types';
+
+const now = Date.parse('2024-07-01T12:00:00Z');
+
+describe('getDateBounds', () => {
+  it('is null without a date filter', () => {
+    expect(getDateBounds({}, now)).toBeNull();
+  });
+
+  it('covers the whole of the start and end days', () => {
+    expect(getDateBounds({ startDate: '2024-01-01', endDate: '2024-06-30' }, now)).toEqual({
+      from: Date.parse('2024-01-01T00:00:00.000Z'),
+      to: Date.parse('2024-06-30T23:59:59.999Z'),
+    });
+  });
+
+  it('counts a relative window back from now', () => {
+    expect(getDateBounds({ days: 7 }, now)).toEqual({ from: Date.parse('2024-06-24T12:00:00Z'), to: Infinity });
+  });
+
+  it('uses the later of the relative window and the start date', () => {
+    expect(getDateBounds({ days: 7, startDate: '2024-06-01' }, now)?.from).toBe(Date.parse('2024-06-24T12:00:00Z'));
+    expect(getDateBounds({ days: 7, startDate: '2024-06-28' }, now)?.from).toBe(Date.parse('2024-06-28T00:00:00Z'));
+  });
+});
+
+describe('toDateRange', () => {
+  it('is null for a relative window alone, which providers take as a time range', () => {
+    expect(toDateRange({ days: 7 }, now)).toBeNull();
+    expect(toDateRange({}, now)).toBeNull();
+  });
+
+  it('fills in an open end with today and an open start with the epoch', () => {
+    expect(toDateRange({ startDate: '2024-01-01' }, now)).toEqual({ from: '2024-01-01', to: '2024-07-01' });
+    expect(toDateRange({ endDate: '2023-12-31' }, now)).toEqual({ from: '1970-01-01', to: '2023-12-31' });
+  });
+
+  it('falls back to the relative window when it starts later than the start date', () => {
+    expect(toDateRange({ days: 7, startDate: '2024-01-01' }, now)).toEqual({ from: '2024-06-24', to: '2024-07-01' });
+    expect(toDateRange({ days: 7, startDate: '2024-06-28' }, now)).toEqual({ from: '2024-06-28', to: '2024-07-01' });
+    expect(toDateRange({ days: 30, endDate: '2024-06-15' }, now)).toEqual({ from: '2024-06-01', to: '2024-06-15' });
+  });
+});
+
+describe('filterByDate', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const response = (...publishedDates: (string | undefined)[]): SearchResponse => ({
+    provider: 'tavily',
+    query: 'heat pumps',
+    results: publishedDates.map((publishedDate, index) => ({
+      title: `Result ${index + 1}`,
+      content: '',
+      url: `https://example.com/${index + 1}`,
+      publishedDate,
+    })),
+  });
+  const kept = (filtered: SearchResponse) => filtered.results.map(result => result.publishedDate);
+
+  it('keeps results published on the first and last day of the range', () => {
+    const filtered = filterByDate(
+      response('2023-12-31T23:59:59Z', '2024-01-01', '2024-01-01T00:00:00Z', '2024-06-30T23:59:59.999Z', '2024-07-01T00:00:00Z', '2024-06-30'),
+      { query: 'heat pumps', startDate: '2024-01-01', endDate: '2024-06-30' }
+    );
+    expect(kept(filtered)).toEqual(['2024-01-01', '2024-01-01T00:00:00Z', '2024-06-30T23:59:59.999Z', '2024-06-30']);
+  });
+
+  it('keeps results without a usable publish date', () => {
+    const filtered = filterByDate(response(undefined, 'last Tuesday', '2020-01-01'), { query: 'heat pumps', startDate: '2024-01-01' });
+    expect(kept(filtered)).toEqual([undefined, 'last Tuesday']);
+  });
+
+  it('filters a relative window against the current time', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+    const filtered = filterByDate(response('2024-06-24T11:59:59Z', '2024-06-24T12:00:00Z', '2024-06-30'), { query: 'heat pumps', days: 7 });
+    expect(kept(filtered)).toEqual(['2024-06-24T12:00:00Z', '2024-06-30']);
+  });
+
+  it('returns the response untouched without a date filter', () => {
+    const unfiltered = response('1999-01-01');
+    expect(filterByDate(unfiltered, { query: 'heat pumps' })).toBe(unfiltered);
+  });
+});
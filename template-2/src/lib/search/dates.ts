@@ -0,0 +1,71 @@
+import { SearchRequest, SearchResponse, SearchTopic } from './types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const isIsoDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+
+// Keep only well-formed date filter fields from an untrusted request body
+export const normalizeDateFilter = (input: {
+  topic?: unknown;
+  days?: unknown;
+  startDate?: unknown;
+  endDate?: unknown;
+}): { topic?: SearchTopic; days?: number; startDate?: string; endDate?: string } => ({
+  topic: input.topic === 'news' ? 'news' : undefined,
+  days: typeof input.days === 'number' && input.days >= 1 ? Math.min(Math.floor(input.days), 3650) : undefined,
+  startDate: isIsoDate(input.startDate) ? input.startDate : undefined,
+  endDate: isIsoDate(input.endDate) ? input.endDate : undefined,
+});
+
+// Calendar date (UTC) `days` days before `now`, e.g. '2024-06-23'
+export const daysAgo = (days: number, now = Date.now()) => new Date(now - days * DAY).toISOString().slice(0, 10);
+
+// Earliest and latest publish times the request allows, or null when it has no date filter
+export const getDateBounds = ({ days, startDate, endDate }: Pick<SearchRequest, 'days' | 'startDate' | 'endDate'>, now = Date.now()) => {
+  const from = Math.max(
+    days ? now - days * DAY : -Infinity,
+    startDate ? Date.parse(`${startDate}T00:00:00Z`) : -Infinity
+  );
+  const to = endDate ? Date.parse(`${endDate}T00:00:00Z`) + DAY - 1 : Infinity;
+  return from === -Infinity && to === Infinity ? null : { from, to };
+};
+
+// Coarse recency buckets for providers that only take day/week/month/year
+export const toTimeRange = (days: number): 'day' | 'week' | 'month' | 'year' =>
+  days <= 1 ? 'day' : days <= 7 ? 'week' : days <= 31 ? 'month' : 'year';
+
+// Explicit range for providers that take one, e.g. { from: '2020-01-01', to: '2024-06-30' }
+export const toDateRange = ({ days, startDate, endDate }: Pick<SearchRequest, 'days' | 'startDate' | 'endDate'>, now = Date.now()) => {
+  if (!startDate && !endDate) return null;
+  const from = days ? daysAgo(days, now) : undefined;
+  return {
+    from: [startDate, from].filter(Boolean).sort().pop() ?? '1970-01-01',
+    to: endDate ?? new Date(now).toISOString().slice(0, 10),
+  };
+};
+
+// Plain-language description of the filter for prompts, e.g. "published in the past 7 days"
+export const describeDateFilter = ({ days, startDate, endDate }: Pick<SearchRequest, 'days' | 'startDate' | 'endDate'>) => {
+  const parts = [
+    days ? `in the past ${days === 1 ? 'day' : `${days} days`}` : '',
+    startDate ? `on or after ${startDate}` : '',
+    endDate ? `on or before ${endDate}` : '',
+  ].filter(Boolean);
+  return parts.length ? `published ${parts.join(' and ')}` : '';
+};
+
+// Providers filter dates loosely, so drop results whose known publish date is out of range.
+// Results without a date are kept.
+export const filterByDate = (response: SearchResponse, request: SearchRequest): SearchResponse => {
+  const bounds = getDateBounds(request);
+  if (!bounds) return response;
+  return {
+    ...response,
+    results: response.results.filter(result => {
+      if (!result.publishedDate) return true;
+      const published = Date.parse(result.publishedDate);
+      return isNaN(published) || (published >= bounds.from && published <= bounds.to);
+    }),
+  };
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { NEAR_DUPLICATE_THRESHOLD, canonicalizeUrl, estimateSimilarity, mergeSearchResults, minHashSignature } from './dedupe';
+import { SearchResult } from './types';
+
+const article = `Researchers at the national laboratory have built a solid-state battery cell that kept
+90 percent of its capacity after two thousand charging cycles, a result that could make electric cars
+cheaper and safer. The team replaced the liquid electrolyte with a thin ceramic layer that resists the
+metal filaments which usually short out such cells, and says a pilot production line will open next year.`;
+
+const result = (url: string, content: string, title = 'Solid-state battery lasts 2,000 cycles'): SearchResult =>
+  ({ title, url, content });
+
+describe('canonicalizeUrl', () => {
+  it('strips campaign and click-id parameters and sorts the rest', () => {
+    expect(canonicalizeUrl('https://example.com/a?utm_source=x&b=2&fbclid=abc&a=1&gclid=1&utm_campaign=y'))
+      .toBe('https://example.com/a?a=1&b=2');
+  });
+
+  it('keeps parameters that can change the page', () => {
+    expect(canonicalizeUrl('https://example.com/search?source=arxiv&ref=v2&share=1'))
+      .toBe('https://example.com/search?ref=v2&share=1&source=arxiv');
+  });
+
+  it('ignores www., mobile and AMP hosts, the scheme, trailing slashes and fragments', () => {
+    const canonical = 'https://example.com/news/story';
+    for (const url of [
+      'http://www.example.com/news/story/',
+      'https://WWW.Example.com/news/story#comments',
+      'https://m.example.com/news/story',
+      'https://example.com/news/story/amp',
+      'https://www2.example.com/news/story/index.html',
+    ]) {
+      expect(canonicalizeUrl(url), url).toBe(canonical);
+    }
+  });
+
+  it('leaves other schemes and unparseable URLs alone', () => {
+    expect(canonicalizeUrl(' upload://notes.pdf ')).toBe('upload://notes.pdf');
+    expect(canonicalizeUrl('not a url')).toBe('not a url');
+  });
+});
+
+describe('minHashSignature', () => {
+  it('is null for text too short to compare', () => {
+    expect(minHashSignature('Too short to compare')).toBeNull();
+  });
+
+  it('rates identical text as the same and unrelated text as different', () => {
+    const a = minHashSignature(article)!;
+    const b = minHashSignature(article)!;
+    const other = minHashSignature(`City council approves the new budget after a long debate about road repairs,
+      school funding and the future of the public library system in the northern districts of town.`)!;
+    expect(estimateSimilarity(a, b)).toBe(1);
+    expect(estimateSimilarity(a, other)).toBeLessThan(NEAR_DUPLICATE_THRESHOLD);
+  });
+});
+
+describe('mergeSearchResults', () => {
+  it('drops results whose canonical URL is already present', () => {
+    const existing = [result('https://example.com/story', article)];
+    const { merged, added } = mergeSearchResults(existing, [result('https://www.example.com/story/?utm_source=feed', 'Other text')]);
+    expect(merged).toEqual(existing);
+    expect(added).toEqual([]);
+  });
+
+  it('folds syndicated copies into the first result as alternates', () => {
+    const original = result('https://news.example.com/battery', article);
+    const copy = result('https://syndicated.example.org/tech/battery', `${article} Copyright Example Wire.`, 'Battery breakthrough');
+    const { merged, added } = mergeSearchResults([original], [copy]);
+
+    expect(added).toEqual([]);
+    expect(merged).toEqual([{ ...original, alternates: [{ title: 'Battery breakthrough', url: copy.url }] }]);
+
+    // The copy's URL now counts as seen
+    expect(mergeSearchResults(merged, [copy]).merged).toEqual(merged);
+  });
+
+  it('keeps distinct pages separate', () => {
+    const first = result('https://example.com/battery', article);
+    const second = result('https://example.com/budget', `City council approves the new budget after a long debate about
+      road repairs, school funding and the future of the public library system in the northern districts.`, 'Budget approved');
+    const third = result('https://example.com/short', 'Short snippet', 'Short');
+    const { merged, added } = mergeSearchResults([first], [second, third]);
+
+    expect(added).toEqual([second, third]);
+    expect(merged).toEqual([first, second, third]);
+  });
+});
@@ -0,0 +1,130 @@
+import { SearchResult } from './types';
+
+// Campaign and click-id parameters that only track the click and never change the
+// page. Generic names like "ref", "source" or "share" are content parameters on
+// enough sites that they are kept.
+const TRACKING_PARAMS = /^(?:utm_\w+|fbclid|gclid|dclid|gbraid|wbraid|msclkid|mc_cid|mc_eid|igshid|yclid|_ga|_gl)$/i;
+
+// One URL per page: lowercase host without "www."/"m."/"amp.", https, no default
+// port, fragment, tracking parameters, AMP suffix or trailing slash, and sorted parameters
+export const canonicalizeUrl = (url: string): string => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return url.trim();
+
+  const host = parsed.hostname.toLowerCase().replace(/^(?:www\d*|m|amp)\./, '');
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([key]) => !TRACKING_PARAMS.test(key) && key.toLowerCase() !== 'amp')
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length ? `?${new URLSearchParams(params)}` : '';
+  const path = parsed.pathname
+    .replace(/\/amp\/?$/i, '')
+    .replace(/\.amp(\.html?)?$/i, '$1')
+    .replace(/\/index\.html?$/i, '')
+    .replace(/\/+$/, '');
+
+  return `https://${host}${path}${query}`;
+};
+
+// Word shingles of the title and text, hashed to 32-bit integers
+const SHINGLE_SIZE = 4;
+const NUM_HASHES = 64;
+// Estimated Jaccard similarity above which two results are treated as the same article
+export const NEAR_DUPLICATE_THRESHOLD = 0.6;
+
+const hashString = (text: string) => {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const shingles = (text: string): Set<number> => {
+  const words = text.toLowerCase().match(/[a-z0-9\u00c0-\uffff]+/g) ?? [];
+  const result = new Set<number>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    result.add(hashString(words.slice(i, i + SHINGLE_SIZE).join(' ')));
+  }
+  return result;
+};
+
+// Fixed seeds so signatures are comparable across calls
+const HASH_SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => [
+  (Math.imul(i + 1, 0x9e3779b1) | 1) >>> 0,
+  Math.imul(i + 7, 0x85ebca6b) >>> 0,
+]);
+
+// MinHash signature; null when the text is too short to compare reliably
+export const minHashSignature = (text: string): Uint32Array | null => {
+  const set = shingles(text);
+  if (set.size < 8) return null;
+
+  const signature = new Uint32Array(NUM_HASHES).fill(0xffffffff);
+  set.forEach(shingle => {
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const value = (Math.imul(shingle, HASH_SEEDS[i][0]) + HASH_SEEDS[i][1]) >>> 0;
+      if (value < signature[i]) signature[i] = value;
+    }
+  });
+  return signature;
+};
+
+export const estimateSimilarity = (a: Uint32Array, b: Uint32Array) => {
+  let matches = 0;
+  for (let i = 0; i < NUM_HASHES; i++) {
+    if (a[i] === b[i]) matches++;
+  }
+  return matches / NUM_HASHES;
+};
+
+const signatureOf = (result: SearchResult) => minHashSignature(`${result.title} ${result.content}`);
+
+// Merge a new result set into the existing one. Results whose canonical URL we
+// already have are dropped; near-duplicate articles (syndicated copies, mirrors)
+// are folded into the first copy as alternates instead of becoming new sources.
+export const mergeSearchResults = (
+  existing: SearchResult[],
+  incoming: SearchResult[]
+): { merged: SearchResult[]; added: SearchResult[] } => {
+  const merged = [...existing];
+  const urls = new Set<string>();
+  merged.forEach(result => {
+    urls.add(canonicalizeUrl(result.url));
+    result.alternates?.forEach(alternate => urls.add(canonicalizeUrl(alternate.url)));
+  });
+  const signatures = merged.map(signatureOf);
+  const added: SearchResult[] = [];
+
+  for (const result of incoming) {
+    const url = canonicalizeUrl(result.url);
+    if (urls.has(url)) continue;
+    urls.add(url);
+
+    const signature = signatureOf(result);
+    const duplicateOf = signature
+      ? signatures.findIndex(other => other && estimateSimilarity(signature, other) >= NEAR_DUPLICATE_THRESHOLD)
+      : -1;
+
+    if (duplicateOf !== -1) {
+      const original = merged[duplicateOf];
+      merged[duplicateOf] = {
+        ...original,
+        alternates: [...(original.alternates ?? []), { title: result.title, url: result.url }],
+      };
+      continue;
+    }
+
+    merged.push(result);
+    signatures.push(signature);
+    added.push(result);
+  }
+
+  return { merged, added };
+};
@@ -0,0 +1,34 @@
+// Hostname of a result URL without "www.", or null for non-URLs such as Tavily's answer entry
+export const getDomain = (url: string): string | null => {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+};
+
+// "Example.com", "https://www.example.com/path" and "*.example.com" all become "example.com"
+export const normalizeDomain = (value: string): string | null => {
+  const trimmed = value.trim().toLowerCase().replace(/^\*\./, '');
+  if (!trimmed) return null;
+  const domain = getDomain(/^[a-z]+:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`);
+  return domain && /^[a-z0-9.-]+\.[a-z]{2,}$/.test(domain) ? domain : null;
+};
+
+export const normalizeDomainList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? Array.from(new Set(value.map(item => typeof item === 'string' ? normalizeDomain(item) : null).filter(Boolean) as string[]))
+    : [];
+
+// A domain also matches its subdomains: "nih.gov" matches "pubmed.ncbi.nlm.nih.gov"
+export const matchesDomain = (domain: string, list: string[]) =>
+  list.some(entry => domain === entry || domain.endsWith(`.${entry}`));
+
+// For providers without domain parameters, restrict the query with site: operators
+export const withSiteOperators = (query: string, includeDomains: string[] = [], excludeDomains: string[] = []) => {
+  const include = includeDomains.map(domain => `site:${domain}`).join(' OR ');
+  const exclude = excludeDomains.map(domain => `-site:${domain}`).join(' ');
+  return [query, include && (includeDomains.length > 1 ? `(${include})` : include), exclude]
+    .filter(Boolean)
+    .join(' ');
+};
@@ -0,0 +1,67 @@
+import { bingProvider } from './bing';
+import { braveProvider } from './brave';
+import { filterByDate } from './dates';
+import { getDomain, matchesDomain } from './domains';
+import { searxngProvider } from './searxng';
+import { tavilyProvider } from './tavily';
+import { SearchProvider, SearchProviderId, SearchRequest, SearchResponse } from './types';
+
+export const searchProviders: Record<SearchProviderId, SearchProvider> = {
+  tavily: tavilyProvider,
+  brave: braveProvider,
+  bing: bingProvider,
+  searxng: searxngProvider,
+};
+
+export const isSearchProviderId = (id: unknown): id is SearchProviderId =>
+  typeof id === 'string' && id in searchProviders;
+
+// SEARCH_PROVIDERS (e.g. "tavily,brave") sets the default fallback chain
+export const getDefaultProviderChain = (): SearchProviderId[] => {
+  const configured = (process.env.SEARCH_PROVIDERS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(isSearchProviderId);
+
+  return configured.length ? configured : ['tavily', 'brave', 'bing', 'searxng'];
+};
+
+// Providers that only approximate domain filters with site: operators can let results through
+const filterByDomain = (response: SearchResponse, { includeDomains = [], excludeDomains = [] }: SearchRequest) => {
+  if (includeDomains.length === 0 && excludeDomains.length === 0) return response;
+  return {
+    ...response,
+    results: response.results.filter(result => {
+      const domain = getDomain(result.url);
+      // Entries that aren't pages, such as Tavily's answer, are kept
+      if (!domain) return true;
+      return (includeDomains.length === 0 || matchesDomain(domain, includeDomains)) && !matchesDomain(domain, excludeDomains);
+    }),
+  };
+};
+
+// Try each provider in order until one succeeds. Providers without credentials are skipped.
+export async function searchWithFallback(
+  request: SearchRequest,
+  providerIds: SearchProviderId[] = getDefaultProviderChain()
+): Promise<SearchResponse> {
+  const errors: string[] = [];
+
+  for (const id of providerIds) {
+    const provider = searchProviders[id];
+    if (!provider?.isConfigured()) continue;
+
+    try {
+      return filterByDate(filterByDomain(await provider.search(request), request), request);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') throw error;
+      console.error(`${provider.name} search failed:`, error);
+      errors.push(`${provider.name}: ${error instanceof Error ? error.message : 'Search failed'}`);
+    }
+  }
+
+  if (errors.length === 0) {
+    throw new Error(`No configured search provider among: ${providerIds.join(', ')}`);
+  }
+  throw new Error(`All search providers failed. ${errors.join('; ')}`);
+}
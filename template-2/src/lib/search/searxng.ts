@@ -0,0 +1,62 @@
+import { toTimeRange } from './dates';
+import { withSiteOperators } from './domains';
+import { SearchProvider } from './types';
+
+// The parts of SearXNG's response that are used
+interface SearxngResult {
+  title: string;
+  url: string;
+  content?: string;
+  score?: number;
+  img_src?: string;
+  publishedDate?: string | null;
+}
+
+interface SearxngResponse {
+  results?: SearxngResult[];
+  // Older SearXNG versions return answers as plain strings
+  answers?: (string | { answer?: string })[];
+}
+
+// Self-hosted SearXNG instance; JSON output must be enabled in its settings.yml
+export const searxngProvider: SearchProvider = {
+  id: 'searxng',
+  name: 'SearXNG',
+  isConfigured: () => !!process.env.SEARXNG_URL,
+
+  async search({ query, maxResults, includeDomains, excludeDomains, topic, days, signal }) {
+    const SEARXNG_URL = process.env.SEARXNG_URL;
+    if (!SEARXNG_URL) {
+      throw new Error('SEARXNG_URL is not set in environment variables');
+    }
+
+    const params = new URLSearchParams({ q: withSiteOperators(query, includeDomains, excludeDomains), format: 'json' });
+    if (topic === 'news') params.set('categories', 'news');
+    if (days) params.set('time_range', toTimeRange(days));
+    const response = await fetch(`${SEARXNG_URL.replace(/\/+$/, '')}/search?${params}`, {
+      headers: { 'Accept': 'application/json' },
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`SearXNG request failed with status ${response.status}`);
+    }
+
+    const data: SearxngResponse = await response.json();
+    const answer = data.answers?.[0];
+
+    return {
+      provider: 'searxng',
+      query,
+      results: (data.results || []).slice(0, maxResults || 10).map(result => ({
+        title: result.title,
+        content: result.content || '',
+        url: result.url,
+        score: result.score,
+        image: result.img_src ? { url: result.img_src } : undefined,
+        publishedDate: result.publishedDate || undefined,
+      })),
+      answer: typeof answer === 'string' ? answer : answer?.answer,
+    };
+  },
+};
@@ -0,0 +1,115 @@
+import { toTimeRange } from './dates';
+import { SearchProvider, SearchResult } from './types';
+
+const TAVILY_API_URL = 'https://api.tavily.com/search';
+
+// The parts of Tavily's response that are used
+interface TavilyResult {
+  title: string;
+  url: string;
+  content: string;
+  score?: number;
+  published_date?: string;
+}
+
+interface TavilyResponse {
+  results?: TavilyResult[];
+  answer?: string;
+  // Bare URLs unless image descriptions were requested
+  images?: (string | { url: string; description?: string })[];
+}
+
+export const tavilyProvider: SearchProvider = {
+  id: 'tavily',
+  name: 'Tavily',
+  isConfigured: () => !!process.env.TAVILY_API_KEY,
+
+  async search({
+    query,
+    includeImages,
+    includeImageDescriptions,
+    maxResults,
+    includeDomains,
+    excludeDomains,
+    topic,
+    days,
+    startDate,
+    endDate,
+    signal,
+  }) {
+    const TAVILY_API_KEY = process.env.TAVILY_API_KEY;
+    if (!TAVILY_API_KEY) {
+      throw new Error('TAVILY_API_KEY is not set in environment variables');
+    }
+
+    const response = await fetch(TAVILY_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'api-key': TAVILY_API_KEY,
+      },
+      body: JSON.stringify({
+        query,
+        include_answer: true,
+        search_depth: "advanced",
+        api_key: TAVILY_API_KEY,
+        include_images: includeImages,
+        include_image_descriptions: includeImageDescriptions,
+        max_results: maxResults,
+        include_domains: includeDomains?.length ? includeDomains : undefined,
+        exclude_domains: excludeDomains?.length ? excludeDomains : undefined,
+        topic: topic || 'general',
+        // `days` only applies to news; general searches take a coarse time_range
+        days: topic === 'news' && days ? days : undefined,
+        time_range: topic !== 'news' && days ? toTimeRange(days) : undefined,
+        start_date: startDate,
+        end_date: endDate,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Tavily API Error Response:', {
+        status: response.status,
+        statusText: response.statusText,
+        error,
+      });
+      throw new Error(error.message || 'Failed to get response from Tavily');
+    }
+
+    const data: TavilyResponse = await response.json();
+
+    if (!data.results) {
+      console.error('Invalid Tavily API response:', data);
+      throw new Error('Invalid response format from Tavily API');
+    }
+
+    const results: SearchResult[] = data.results.map(result => ({
+      title: result.title,
+      content: result.content,
+      url: result.url,
+      score: result.score,
+      publishedDate: result.published_date,
+    }));
+
+    // Add a source URL for the answer if it exists
+    if (data.answer) {
+      results.unshift({
+        title: "AI Generated Answer",
+        content: data.answer,
+        url: "Generated from Tavily's answer",
+      });
+    }
+
+    return {
+      provider: 'tavily',
+      query,
+      results,
+      images: data.images?.map(image =>
+        typeof image === 'string' ? { url: image } : image
+      ),
+      answer: data.answer,
+    };
+  },
+};
@@ -0,0 +1,72 @@
+export type SearchProviderId = 'tavily' | 'brave' | 'bing' | 'searxng';
+
+export type SearchTopic = 'general' | 'news';
+
+export interface SearchImage {
+  url: string;
+  description?: string;
+}
+
+export interface SourceCredibility {
+  // 0 to 1
+  score: number;
+  level: 'high' | 'medium' | 'low';
+  reasons: string[];
+}
+
+export interface SearchResult {
+  title: string;
+  content: string;
+  url: string;
+  snippet?: string;
+  score?: number;
+  image?: SearchImage;
+  // ISO date the page was published, when the provider knows it
+  publishedDate?: string;
+  credibility?: SourceCredibility;
+  // Other URLs carrying the same article (syndicated copies, mirrors)
+  alternates?: { title: string; url: string }[];
+  // Passages from the full page most relevant to the query, when it was fetched
+  extracts?: string[];
+  // Passages from one of the user's uploaded documents rather than a web page
+  private?: boolean;
+  // Retrieved from the user's library (saved reports, documents and bookmarks)
+  library?: boolean;
+}
+
+export interface SearchRequest {
+  query: string;
+  includeImages?: boolean;
+  includeImageDescriptions?: boolean;
+  maxResults?: number;
+  // Only return results from these domains (and their subdomains)
+  includeDomains?: string[];
+  excludeDomains?: string[];
+  // "news" searches news sources where the provider supports it
+  topic?: SearchTopic;
+  // Only results published within the last N days
+  days?: number;
+  // Only results published in this range (YYYY-MM-DD, inclusive)
+  startDate?: string;
+  endDate?: string;
+  signal?: AbortSignal;
+}
+
+// Every provider's response is normalized into this shape
+export interface SearchResponse {
+  provider: SearchProviderId;
+  query: string;
+  results: SearchResult[];
+  images?: SearchImage[];
+  answer?: string;
+  // Set when the response went through the search cache
+  cache?: { hit: boolean; cachedAt: number };
+}
+
+export interface SearchProvider {
+  id: SearchProviderId;
+  name: string;
+  // Whether the provider's keys or URLs are present in the environment
+  isConfigured: () => boolean;
+  search: (request: SearchRequest) => Promise<SearchResponse>;
+}
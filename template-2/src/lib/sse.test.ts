@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest';
+import { StreamMessage, createStreamParser, readJSONStream, readStreamMessages } from './sse';
+
+// Feed each piece separately, as if it arrived in its own read
+const parse = (pieces: string[]) => {
+  const messages: StreamMessage[] = [];
+  const parser = createStreamParser(message => messages.push(message));
+  for (const piece of pieces) parser.feed(piece);
+  parser.flush();
+  return messages;
+};
+
+const toStream = (pieces: (string | Uint8Array)[]) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const piece of pieces) controller.enqueue(typeof piece === 'string' ? encoder.encode(piece) : piece);
+      controller.close();
+    },
+  });
+};
+
+const collect = async <T>(iterator: AsyncGenerator<T>) => {
+  const items: T[] = [];
+  for await (const item of iterator) items.push(item);
+  return items;
+};
+
+describe('createStreamParser', () => {
+  it('waits for a JSON object split across chunks', () => {
+    expect(parse(['data: {"choices":[{"del', 'ta":{"content":"Hi"}}]}\n', '\n'])).toEqual([
+      { event: undefined, id: undefined, data: '{"choices":[{"delta":{"content":"Hi"}}]}' },
+    ]);
+  });
+
+  it('treats "\\r\\n" split between reads as one line ending', () => {
+    expect(parse(['data: one\r', '\ndata: two\r\n\r', '\n'])).toEqual([
+      { event: undefined, id: undefined, data: 'one\ntwo' },
+    ]);
+  });
+
+  it('joins multi-line data fields with newlines', () => {
+    expect(parse(['data: first\ndata:second\ndata\n\n'])).toEqual([
+      { event: undefined, id: undefined, data: 'first\nsecond\n' },
+    ]);
+  });
+
+  it('keeps event and id fields and skips keepalive comments', () => {
+    expect(parse([': keepalive\n\n', 'event: status\nid: 7\n: ping\ndata: searching\n\n', 'retry: 1000\n\n'])).toEqual([
+      { event: 'status', id: '7', data: 'searching' },
+    ]);
+  });
+
+  it('dispatches each NDJSON line on its own', () => {
+    expect(parse(['{"type":"a"}\n[1,2]\n'])).toEqual([{ data: '{"type":"a"}' }, { data: '[1,2]' }]);
+  });
+
+  it('flushes a final line with no terminating newline', () => {
+    expect(parse(['{"type":"a"}\n{"type":', '"b"}'])).toEqual([{ data: '{"type":"a"}' }, { data: '{"type":"b"}' }]);
+    expect(parse(['data: last'])).toEqual([{ event: undefined, id: undefined, data: 'last' }]);
+  });
+});
+
+describe('readStreamMessages', () => {
+  it('decodes multi-byte characters split across reads', async () => {
+    const bytes = new TextEncoder().encode('data: café\n\n');
+    const messages = await collect(readStreamMessages(toStream([bytes.subarray(0, 10), bytes.subarray(10)])));
+    expect(messages.map(message => message.data)).toEqual(['café']);
+  });
+});
+
+describe('readJSONStream', () => {
+  it('parses each message and skips [DONE]', async () => {
+    const stream = toStream(['data: {"n":1}\n\ndata: {"n"', ':2}\r\n\r\n', 'data: [DONE]\n\n']);
+    expect(await collect(readJSONStream<{ n: number }>(stream))).toEqual([{ n: 1 }, { n: 2 }]);
+  });
+
+  it('skips messages that are not valid JSON', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const stream = toStream(['{"n":1}\n{"n":\n{"n":3}']);
+    expect(await collect(readJSONStream<{ n: number }>(stream))).toEqual([{ n: 1 }, { n: 3 }]);
+    expect(error).toHaveBeenCalledOnce();
+    error.mockRestore();
+  });
+});
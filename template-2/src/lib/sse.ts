@@ -0,0 +1,148 @@
+export interface StreamMessage {
+  event?: string;
+  id?: string;
+  data: string;
+}
+
+// Incremental parser for Server-Sent Events that also accepts newline-delimited
+// JSON. Text can be fed in arbitrary pieces: partial lines are buffered until
+// their line ending arrives, and a message is only dispatched once complete.
+//
+// SSE: `data:` lines are joined with "\n", `event:`/`id:` are kept, lines
+// starting with ":" are keepalive comments, and a blank line ends the message.
+// NDJSON: a line starting with "{" or "[" outside of an SSE message is a
+// message on its own.
+export const createStreamParser = (onMessage: (message: StreamMessage) => void) => {
+  let buffer = '';
+  let data: string[] = [];
+  let event: string | undefined;
+  let id: string | undefined;
+  // A "\r" at the end of a piece may be the first half of "\r\n"
+  let skipLeadingNewline = false;
+
+  const dispatch = () => {
+    if (data.length > 0) {
+      onMessage({ event, id, data: data.join('\n') });
+    }
+    data = [];
+    event = undefined;
+    id = undefined;
+  };
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    if (data.length === 0 && event === undefined && (line.startsWith('{') || line.startsWith('['))) {
+      onMessage({ data: line });
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'data':
+        data.push(value);
+        break;
+      case 'event':
+        event = value;
+        break;
+      case 'id':
+        id = value;
+        break;
+      default:
+        // Unknown fields (including "retry") are ignored, as the SSE spec requires
+        break;
+    }
+  };
+
+  const feed = (text: string) => {
+    if (skipLeadingNewline && text.startsWith('\n')) {
+      text = text.slice(1);
+    }
+    skipLeadingNewline = false;
+    buffer += text;
+
+    let start = 0;
+    for (let i = 0; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (char !== '\n' && char !== '\r') continue;
+
+      processLine(buffer.slice(start, i));
+      if (char === '\r') {
+        if (i + 1 === buffer.length) {
+          skipLeadingNewline = true;
+        } else if (buffer[i + 1] === '\n') {
+          i++;
+        }
+      }
+      start = i + 1;
+    }
+    buffer = buffer.slice(start);
+  };
+
+  // End of stream: treat whatever is buffered as a final, complete line
+  const flush = () => {
+    if (buffer) {
+      processLine(buffer);
+      buffer = '';
+    }
+    dispatch();
+  };
+
+  return { feed, flush };
+};
+
+// Read a byte stream and yield each complete message
+export async function* readStreamMessages(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<StreamMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const queue: StreamMessage[] = [];
+  const parser = createStreamParser(message => queue.push(message));
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        parser.feed(decoder.decode());
+        parser.flush();
+      } else {
+        parser.feed(decoder.decode(value, { stream: true }));
+      }
+
+      while (queue.length > 0) {
+        yield queue.shift() as StreamMessage;
+      }
+      if (done) break;
+    }
+  } finally {
+    // Stop the upstream body if the consumer stopped reading early
+    if (!finished) reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
+
+// Read a stream of JSON messages (SSE data or NDJSON), skipping OpenAI's [DONE] sentinel
+export async function* readJSONStream<T>(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<T> {
+  for await (const message of readStreamMessages(body)) {
+    if (message.data === '[DONE]') continue;
+
+    try {
+      yield JSON.parse(message.data);
+    } catch (e) {
+      console.error('Error parsing JSON:', e);
+    }
+  }
+}
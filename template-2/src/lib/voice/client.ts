@@ -0,0 +1,35 @@
+const authHeaders = (idToken?: string): Record<string, string> =>
+  idToken ? { 'Authorization': `Bearer ${idToken}` } : {};
+
+// Send a recording to /api/voice/transcribe and get the text back
+export const transcribeAudio = async (audio: Blob, idToken?: string): Promise<string> => {
+  const body = new FormData();
+  body.append('audio', audio, 'recording');
+  const response = await fetch('/api/voice/transcribe', { method: 'POST', headers: authHeaders(idToken), body });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Could not transcribe the recording');
+  return data.text;
+};
+
+// Turn one chunk of text into audio with /api/voice/speak. `part` is the chunk's
+// place in the report; only the first counts as a request against the quota.
+export const synthesizeSpeech = async (
+  text: string,
+  part: number,
+  idToken?: string,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const response = await fetch('/api/voice/speak', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders(idToken) },
+    body: JSON.stringify({ text, part }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Could not read the report aloud');
+  }
+  return response.blob();
+};
@@ -0,0 +1,40 @@
+import { createClient } from '@deepgram/sdk';
+import { SpeechService, TranscriptionService } from './types';
+
+const getApiKey = () => {
+  const apiKey = process.env.DEEPGRAM_API_KEY;
+  if (!apiKey) throw new Error('DEEPGRAM_API_KEY is not set in environment variables');
+  return apiKey;
+};
+
+export const deepgramTranscriptionService: TranscriptionService = {
+  id: 'deepgram',
+  name: 'Deepgram',
+  isConfigured: () => !!process.env.DEEPGRAM_API_KEY,
+
+  async transcribe(audio) {
+    const { result, error } = await createClient(getApiKey()).listen.prerecorded.transcribeFile(
+      Buffer.from(audio),
+      { model: process.env.DEEPGRAM_STT_MODEL || 'nova-2', smart_format: true }
+    );
+    if (error) throw error;
+    return result.results.channels[0]?.alternatives[0]?.transcript.trim() ?? '';
+  },
+};
+
+export const deepgramSpeechService: SpeechService = {
+  id: 'deepgram',
+  name: 'Deepgram',
+  isConfigured: () => !!process.env.DEEPGRAM_API_KEY,
+
+  async synthesize(text) {
+    // A client per request: the speak client only holds one response at a time
+    const response = await createClient(getApiKey()).speak.request(
+      { text },
+      { model: process.env.DEEPGRAM_TTS_MODEL || 'aura-asteria-en', encoding: 'mp3' }
+    );
+    const stream = await response.getStream();
+    if (!stream) throw new Error('Deepgram returned no audio');
+    return { audio: new Uint8Array(await new Response(stream).arrayBuffer()), contentType: 'audio/mpeg' };
+  },
+};
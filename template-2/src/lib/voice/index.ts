@@ -0,0 +1,18 @@
+import { deepgramSpeechService, deepgramTranscriptionService } from './deepgram';
+import { createMockSpeechService, createMockTranscriptionService } from './mock';
+import { SpeechService, TranscriptionService } from './types';
+
+export * from './types';
+
+// VOICE_PROVIDER=mock swaps in the stand-ins; otherwise Deepgram, when DEEPGRAM_API_KEY is set
+const isMockEnabled = () => (process.env.VOICE_PROVIDER || '').toLowerCase() === 'mock';
+
+export const getTranscriptionService = (): TranscriptionService | null => {
+  if (isMockEnabled()) return createMockTranscriptionService();
+  return deepgramTranscriptionService.isConfigured() ? deepgramTranscriptionService : null;
+};
+
+export const getSpeechService = (): SpeechService | null => {
+  if (isMockEnabled()) return createMockSpeechService();
+  return deepgramSpeechService.isConfigured() ? deepgramSpeechService : null;
+};
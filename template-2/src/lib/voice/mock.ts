@@ -0,0 +1,50 @@
+import { SpeechService, TranscriptionService } from './types';
+
+// Stand-ins for development and tests: a fixed transcript, and silence about as long as the text would take to say
+
+export const createMockTranscriptionService = (
+  transcript = process.env.MOCK_TRANSCRIPT || 'What are the latest developments in solid-state batteries?'
+): TranscriptionService => ({
+  id: 'mock',
+  name: 'Mock',
+  isConfigured: () => true,
+  transcribe: async () => transcript,
+});
+
+const SAMPLE_RATE = 8000;
+
+// 8-bit mono PCM, where 128 is silence
+const silentWav = (seconds: number) => {
+  const samples = Math.round(seconds * SAMPLE_RATE);
+  const buffer = new Uint8Array(44 + samples);
+  const view = new DataView(buffer.buffer);
+  const writeString = (offset: number, value: string) =>
+    value.split('').forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE, true);
+  view.setUint16(32, 1, true);
+  view.setUint16(34, 8, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples, true);
+  buffer.fill(128, 44);
+  return buffer;
+};
+
+export const createMockSpeechService = (): SpeechService => ({
+  id: 'mock',
+  name: 'Mock',
+  isConfigured: () => true,
+  // Roughly 150 words a minute
+  synthesize: async (text) => ({
+    audio: silentWav(Math.min(Math.max(text.split(/\s+/).length * 0.4, 0.5), 60)),
+    contentType: 'audio/wav',
+  }),
+});
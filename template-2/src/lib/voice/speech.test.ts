@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { createMockSpeechService } from './mock';
+import { MAX_SPEECH_CHARS, getSpeechTokens, splitSpeechChunks, toSpeechText } from './speech';
+
+const report = `# Solid-state batteries
+
+Solid electrolytes promise **higher energy density** [Source 1] and fewer fires [Source 2, 3].
+
+## Challenges
+- Manufacturing at scale is still expensive [Source 4]
+- Dendrites can form at high charging rates
+
+| Company | Status |
+|---------|--------|
+| Example Corp | Pilot line |
+
+See [the review](https://example.com/review) for details.
+
+## Sources
+| Number | Source | Description |
+|--------|--------|-------------|
+| 1 | [Review](https://example.com/review) | A review |`;
+
+describe('toSpeechText', () => {
+  it('drops citations, markdown, links and the sources table', () => {
+    expect(toSpeechText(report).split('\n')).toEqual([
+      'Solid-state batteries.',
+      'Solid electrolytes promise higher energy density and fewer fires.',
+      'Challenges.',
+      'Manufacturing at scale is still expensive.',
+      'Dendrites can form at high charging rates.',
+      'Company, Status.',
+      'Example Corp, Pilot line.',
+      'See the review for details.',
+    ]);
+  });
+});
+
+describe('splitSpeechChunks', () => {
+  it('keeps short text in one chunk', () => {
+    expect(splitSpeechChunks('One line.\nAnother line.')).toEqual(['One line.\nAnother line.']);
+  });
+
+  it('breaks between lines, then sentences, then words', () => {
+    const sentence = 'Batteries store energy in chemical form. ';
+    const long = sentence.repeat(40).trim();
+    const word = 'x'.repeat(30);
+    const chunks = splitSpeechChunks(`${long}\n${Array(60).fill(word).join(' ')}`, 200);
+
+    expect(chunks.every(chunk => chunk.length <= 200)).toBe(true);
+    // Nothing is lost apart from the whitespace the breaks replaced
+    expect(chunks.join(' ').replace(/\s+/g, ' ')).toBe(`${long} ${Array(60).fill(word).join(' ')}`);
+    expect(chunks[0].endsWith('chemical form.')).toBe(true);
+  });
+});
+
+describe('reading a report aloud with the mock service', () => {
+  it('synthesizes every chunk within the per-request limit', async () => {
+    const service = createMockSpeechService();
+    const body = report.slice(0, report.indexOf('\n## Sources'));
+    const chunks = splitSpeechChunks(toSpeechText(Array(20).fill(body).join('\n\n')));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(MAX_SPEECH_CHARS);
+      const { audio, contentType } = await service.synthesize(chunk);
+      expect(contentType).toBe('audio/wav');
+      expect(new TextDecoder().decode(audio.subarray(0, 4))).toBe('RIFF');
+    }
+  });
+
+  it('charges about one token per four characters', () => {
+    expect(getSpeechTokens('  abcdefghi  ')).toBe(3);
+  });
+});
@@ -0,0 +1,62 @@
+import { formatCitations, stripSourcesTable } from '../research/citations';
+
+// Deepgram's text-to-speech takes at most 2000 characters per request
+export const MAX_SPEECH_CHARS = 2000;
+export const MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+
+// Speech is charged to the daily token quota at about four characters a token
+export const getSpeechTokens = (text: string) => Math.ceil(text.trim().length / 4);
+
+// The report as it should sound: no sources table, citation markers or markdown.
+// Headings and list items end in a full stop so the voice pauses after them.
+export const toSpeechText = (markdown: string): string =>
+  formatCitations(stripSourcesTable(markdown), () => '')
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .split('\n')
+    .map(line => line
+      .replace(/^\s*\|?[\s:|-]+\|?\s*$/, '')
+      .replace(/^\s*(#{1,6}|[-*+]|\d+[.)]|>)\s+/, '')
+      .replace(/\s*\|\s*/g, ', ')
+      .replace(/[*_`~]+/g, '')
+      // Left behind where citation markers were removed
+      .replace(/\s+([.,;:!?])/g, '$1')
+      .replace(/\s{2,}/g, ' ')
+      .replace(/^,\s*|,\s*$/g, '')
+      .trim())
+    .filter(Boolean)
+    .map(line => /[.!?:;]$/.test(line) ? line : `${line}.`)
+    .join('\n');
+
+// Split text into pieces of at most maxChars, breaking between lines, then
+// sentences, then words, so each piece can be synthesized on its own
+export const splitSpeechChunks = (text: string, maxChars = 1000): string[] => {
+  const pieces = text.split('\n').flatMap(line => {
+    if (line.length <= maxChars) return [line];
+    return (line.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) ?? [line]).flatMap(sentence => {
+      if (sentence.length <= maxChars) return [sentence.trim()];
+      const words: string[] = [];
+      let current = '';
+      for (const word of sentence.split(/\s+/)) {
+        if (current && current.length + word.length + 1 > maxChars) {
+          words.push(current);
+          current = '';
+        }
+        current = current ? `${current} ${word}` : word.slice(0, maxChars);
+      }
+      return current ? [...words, current] : words;
+    });
+  });
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces.filter(Boolean)) {
+    if (current && current.length + piece.length + 1 > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n${piece}` : piece;
+  }
+  return current ? [...chunks, current] : chunks;
+};
@@ -0,0 +1,23 @@
+export type VoiceProviderId = 'deepgram' | 'mock';
+
+// Speech to text, for dictating questions
+export interface TranscriptionService {
+  id: VoiceProviderId;
+  name: string;
+  isConfigured: () => boolean;
+  // Audio as recorded by the browser; the service detects the container format itself
+  transcribe: (audio: Uint8Array, mimeType: string) => Promise<string>;
+}
+
+export interface SpeechAudio {
+  audio: Uint8Array;
+  contentType: string;
+}
+
+// Text to speech, for reading reports aloud one chunk at a time
+export interface SpeechService {
+  id: VoiceProviderId;
+  name: string;
+  isConfigured: () => boolean;
+  synthesize: (text: string) => Promise<SpeechAudio>;
+}